@@ -0,0 +1,47 @@
+import * as vscode from 'vscode';
+import { OntologyImport, OntologyParseError } from './owlParser';
+
+const DIAGNOSTIC_SOURCE = 'OWL Visualizer';
+
+export function createParseDiagnostic(error: unknown, text: string): vscode.Diagnostic {
+    const message = error instanceof OntologyParseError
+        ? error.detail
+        : error instanceof Error ? error.message : 'Unknown error';
+    const line = error instanceof OntologyParseError ? error.line : undefined;
+    const character = error instanceof OntologyParseError ? error.character : undefined;
+
+    const diagnostic = new vscode.Diagnostic(lineRange(text, line ?? 0, character), message, vscode.DiagnosticSeverity.Error);
+    diagnostic.source = DIAGNOSTIC_SOURCE;
+    return diagnostic;
+}
+
+// Imports that could not be loaded, reported where their IRI appears in the text
+export function createImportDiagnostics(imports: OntologyImport[] | undefined, text: string): vscode.Diagnostic[] {
+    return (imports ?? [])
+        .filter(entry => entry.error)
+        .map(entry => {
+            const offset = text.indexOf(entry.iri);
+            const line = offset < 0 ? 0 : text.substring(0, offset).split('\n').length - 1;
+            const character = offset < 0 ? undefined : offset - (text.lastIndexOf('\n', offset - 1) + 1);
+            const range = character === undefined
+                ? lineRange(text, line)
+                : new vscode.Range(line, character, line, character + entry.iri.length);
+
+            const reason = entry.fileName ? `${entry.error} (${entry.fileName})` : entry.error;
+            const diagnostic = new vscode.Diagnostic(range, `Could not load import ${entry.iri}: ${reason}`, vscode.DiagnosticSeverity.Warning);
+            diagnostic.source = DIAGNOSTIC_SOURCE;
+            return diagnostic;
+        });
+}
+
+// Without a column the whole (trimmed) line is marked
+function lineRange(text: string, line: number, character?: number): vscode.Range {
+    const lines = text.split(/\r?\n/);
+    const lineIndex = Math.min(Math.max(line, 0), Math.max(lines.length - 1, 0));
+    const lineText = lines[lineIndex] ?? '';
+    const start = character !== undefined
+        ? Math.min(character, lineText.length)
+        : lineText.length - lineText.trimStart().length;
+    const end = Math.max(lineText.trimEnd().length, start + 1);
+    return new vscode.Range(lineIndex, start, lineIndex, end);
+}
@@ -1,16 +1,35 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
-import { OWLParser } from './owlParser';
-import { VisualizationPanel } from './visualizationPanel';
+import { OWLParser, ParseOptions } from './owlParser';
+import { SUPPORTED_EXTENSIONS } from './rdfFormat';
+import { ImportResolver } from './importResolver';
+import { OntologyUpdater } from './ontologyUpdater';
+import { savedViewsPath } from './savedViews';
+import { VisualizationPanel, PersistedViewState, VIEW_TYPE, getLabelSettings } from './visualizationPanel';
+import { createImportDiagnostics, createParseDiagnostic } from './diagnostics';
 
-let activePanel: VisualizationPanel | undefined;
-let fileWatcher: vscode.FileSystemWatcher | undefined;
-let currentFilePath: string | undefined;
+// One visualization per ontology file, each with its own panel, watcher and update state
+interface VisualizationSession {
+    filePath: string;
+    panel: VisualizationPanel;
+    fileWatcher?: vscode.FileSystemWatcher;
+    savedViewsWatcher?: vscode.FileSystemWatcher;
+    updater: OntologyUpdater;
+}
+
+const sessions = new Map<string, VisualizationSession>();
+let diagnosticCollection: vscode.DiagnosticCollection | undefined;
+let selectionSyncTimer: NodeJS.Timeout | undefined;
+
+const SELECTION_SYNC_DELAY_MS = 150;
 
 export function activate(context: vscode.ExtensionContext) {
     console.log('OWL Ontology Visualizer is now active!');
 
+    diagnosticCollection = vscode.languages.createDiagnosticCollection('owl-visualizer');
+    context.subscriptions.push(diagnosticCollection);
+
     const disposable = vscode.commands.registerCommand('owl-visualizer.visualize', async (uri?: vscode.Uri) => {
         try {
             let filePath: string;
@@ -27,21 +46,30 @@ export function activate(context: vscode.ExtensionContext) {
                 filePath = activeEditor.document.fileName;
             }
 
-            // Check if file exists and has .owl, .rdf, or .ttl extension
+            // Check if file exists and has a supported ontology extension
             if (!fs.existsSync(filePath)) {
                 vscode.window.showErrorMessage('File not found');
                 return;
             }
 
             const ext = path.extname(filePath).toLowerCase();
-            if (ext !== '.owl' && ext !== '.rdf' && ext !== '.ttl') {
-                vscode.window.showErrorMessage('Please select an OWL, RDF, or TTL file');
+            if (!SUPPORTED_EXTENSIONS.includes(ext)) {
+                vscode.window.showErrorMessage(`Please select an ontology file (${SUPPORTED_EXTENSIONS.join(', ')})`);
                 return;
             }
 
-            currentFilePath = filePath;
-            await visualizeFile(filePath, context, false, true); // false = not auto-update, true = split right
-            setupFileWatcher(filePath, context);
+            const key = sessionKey(filePath);
+            const isNewSession = !sessions.has(key);
+            const session = sessions.get(key) ?? createSession(filePath, context);
+            await visualizeFile(session, isNewSession); // split right for new panels
+            if (!session.panel.isVisible()) {
+                // Parsing failed before a panel was ever shown; the parse error stays in the Problems panel
+                disposeSession(session);
+                return;
+            }
+            if (!session.fileWatcher) {
+                setupFileWatcher(session);
+            }
 
         } catch (error) {
             console.error('Error in visualize command:', error);
@@ -50,92 +78,271 @@ export function activate(context: vscode.ExtensionContext) {
     });
 
     context.subscriptions.push(disposable);
-}
 
-async function visualizeFile(filePath: string, context: vscode.ExtensionContext, isAutoUpdate: boolean = false, shouldSplitRight: boolean = false) {
-    if (isAutoUpdate) {
-        // For auto-updates, skip the progress notification and just update silently
-        try {
-            const fileContent = fs.readFileSync(filePath, 'utf8');
-            const parser = new OWLParser();
-            const ontologyData = await parser.parse(fileContent);
+    const searchCommand = vscode.commands.registerCommand('owl-visualizer.search', async (query?: string) => {
+        const session = await sessionForCommand('Search which visualization?');
+        if (!session) {
+            return;
+        }
+
+        const searchQuery = typeof query === 'string' ? query : await vscode.window.showInputBox({
+            prompt: `Search ${path.basename(session.filePath)}`,
+            placeHolder: 'Label, local name, IRI or comment text'
+        });
+        if (searchQuery) {
+            session.panel.search(searchQuery);
+        }
+    });
+
+    context.subscriptions.push(searchCommand);
+
+    const saveViewCommand = vscode.commands.registerCommand('owl-visualizer.saveView', async () => {
+        const session = await sessionForCommand('Save a view of which visualization?');
+        session?.panel.saveView();
+    });
+
+    context.subscriptions.push(saveViewCommand);
+
+    const openViewCommand = vscode.commands.registerCommand('owl-visualizer.openView', async () => {
+        const session = await sessionForCommand('Open a saved view of which visualization?');
+        await session?.panel.openView();
+    });
 
-            // Create or update the visualization panel
-            if (!activePanel) {
-                activePanel = new VisualizationPanel(context.extensionUri);
+    context.subscriptions.push(openViewCommand);
+
+    // Panels left open when the window closed come back pointing at the same file; the webview
+    // restores its own layout, filters and viewport from the state it saved
+    const serializer = vscode.window.registerWebviewPanelSerializer(VIEW_TYPE, {
+        async deserializeWebviewPanel(webviewPanel: vscode.WebviewPanel, state: PersistedViewState | undefined) {
+            const filePath = state?.filePath;
+            if (!filePath || !fs.existsSync(filePath) || sessions.has(sessionKey(filePath))) {
+                webviewPanel.dispose();
+                return;
             }
-            
-            activePanel.show(ontologyData, path.basename(filePath), false, true, false); // forceReveal=false, isAutoUpdate=true, shouldSplitRight=false
 
-        } catch (error) {
-            console.error('Error parsing OWL file during auto-update:', error);
-            // For auto-updates, don't show error popups - just log to console
+            const session = createSession(filePath, context);
+            session.panel.restore(webviewPanel, filePath);
+            if (await visualizeFile(session, false, false)) {
+                setupFileWatcher(session);
+            } else {
+                session.panel.dispose();
+            }
         }
-    } else {
-        // For manual updates, show progress indicator
-        const progressOptions = {
-            location: vscode.ProgressLocation.Notification,
-            title: "Parsing OWL ontology...",
-            cancellable: false
-        };
-
-        await vscode.window.withProgress(progressOptions, async (progress) => {
-            try {
-                // Read and parse the OWL file
-                const fileContent = fs.readFileSync(filePath, 'utf8');
-                const parser = new OWLParser();
-                const ontologyData = await parser.parse(fileContent);
-
-                progress.report({ increment: 50, message: "Creating visualization..." });
-
-                // Create or update the visualization panel
-                if (!activePanel) {
-                    activePanel = new VisualizationPanel(context.extensionUri);
-                }
-                
-                // Only force reveal on manual commands
-                // Pass shouldSplitRight to control panel placement
-                activePanel.show(ontologyData, path.basename(filePath), true, false, shouldSplitRight); // forceReveal=true, isAutoUpdate=false
-
-                progress.report({ increment: 100, message: "Complete" });
-            } catch (error) {
-                console.error('Error parsing OWL file:', error);
-                vscode.window.showErrorMessage(`Error parsing OWL file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    });
+
+    context.subscriptions.push(serializer);
+
+    // Only cursor moves by the user; selections set from the graph side would otherwise echo back
+    const selectionListener = vscode.window.onDidChangeTextEditorSelection(event => {
+        if (event.kind !== vscode.TextEditorSelectionChangeKind.Keyboard && event.kind !== vscode.TextEditorSelectionChangeKind.Mouse) {
+            return;
+        }
+        if (selectionSyncTimer) {
+            clearTimeout(selectionSyncTimer);
+        }
+        selectionSyncTimer = setTimeout(() => {
+            selectionSyncTimer = undefined;
+            const session = sessions.get(event.textEditor.document.uri.toString());
+            if (session && session.panel.isVisible()) {
+                session.panel.syncEditorSelection(event.textEditor);
             }
-        });
+        }, SELECTION_SYNC_DELAY_MS);
+    });
+
+    context.subscriptions.push(selectionListener);
+
+    const documentListener = vscode.workspace.onDidChangeTextDocument(event => {
+        const session = sessions.get(event.document.uri.toString());
+        if (!session || event.contentChanges.length === 0) {
+            return;
+        }
+
+        const config = vscode.workspace.getConfiguration('owlVisualizer');
+        if (!config.get<boolean>('liveUpdate.enabled', true)) {
+            return;
+        }
+
+        session.updater.scheduleUpdate(config.get<number>('liveUpdate.delay', 500));
+    });
+
+    context.subscriptions.push(documentListener);
+
+    const configurationListener = vscode.workspace.onDidChangeConfiguration(event => {
+        if (event.affectsConfiguration('owlVisualizer.imports')) {
+            sessions.forEach(session => session.updater.invalidateImports());
+        }
+    });
+
+    context.subscriptions.push(configurationListener);
+}
+
+function sessionKey(filePath: string): string {
+    return vscode.Uri.file(filePath).toString();
+}
+
+function createSession(filePath: string, context: vscode.ExtensionContext): VisualizationSession {
+    const panel = new VisualizationPanel(context.extensionUri, context.workspaceState, () => disposeSession(session));
+    const session: VisualizationSession = {
+        filePath,
+        panel,
+        updater: new OntologyUpdater({
+            readSource: () => readSource(filePath),
+            createImportResolver: () => createImportResolver(context),
+            parse: (text, importResolver) => new OWLParser().parse(text, createParseOptions(filePath, importResolver)),
+            isVisible: () => panel.isVisible(),
+            showGraph: (ontologyData, text, options) => {
+                publishDiagnostics(filePath, createImportDiagnostics(ontologyData.metadata.imports, text));
+                panel.show(ontologyData, filePath, options.forceReveal ?? false, options.isAutoUpdate, options.shouldSplitRight ?? false);
+            },
+            showError: (error, text, options) => {
+                // The Problems panel and the webview banner report the error while the last good graph stays
+                publishDiagnostics(filePath, [createParseDiagnostic(error, text)]);
+                panel.showSourceError(error instanceof Error ? error.message : 'Unknown error');
+                // For auto-updates, don't show error popups
+                if (!options.isAutoUpdate) {
+                    vscode.window.showErrorMessage(`Error parsing OWL file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+                }
+            },
+            clearDiagnostics: () => diagnosticCollection?.delete(vscode.Uri.file(filePath))
+        })
+    };
+    sessions.set(sessionKey(filePath), session);
+    return session;
+}
+
+// The focused panel, else the one for the active editor, else the only one or the user's pick
+async function pickSession(placeHolder: string): Promise<VisualizationSession | undefined> {
+    const openSessions = Array.from(sessions.values()).filter(session => session.panel.isVisible());
+    const activeDocument = vscode.window.activeTextEditor?.document;
+    const session = openSessions.find(candidate => candidate.panel.isActive())
+        ?? (activeDocument ? sessions.get(activeDocument.uri.toString()) : undefined);
+    if (session || openSessions.length <= 1) {
+        return session ?? openSessions[0];
     }
+
+    const picked = await vscode.window.showQuickPick(
+        openSessions.map(candidate => ({ label: path.basename(candidate.filePath), description: candidate.filePath, session: candidate })),
+        { placeHolder }
+    );
+    return picked?.session;
 }
 
-function setupFileWatcher(filePath: string, context: vscode.ExtensionContext) {
-    // Dispose existing watcher
-    if (fileWatcher) {
-        fileWatcher.dispose();
+// Like pickSession, but with nothing visualized yet the ontology in the active editor is opened first
+async function sessionForCommand(placeHolder: string): Promise<VisualizationSession | undefined> {
+    let session = await pickSession(placeHolder);
+    const activeEditor = vscode.window.activeTextEditor;
+    if (!session && activeEditor && SUPPORTED_EXTENSIONS.includes(path.extname(activeEditor.document.fileName).toLowerCase())) {
+        await vscode.commands.executeCommand('owl-visualizer.visualize', activeEditor.document.uri);
+        session = sessions.get(activeEditor.document.uri.toString());
+    }
+    if (!session) {
+        vscode.window.showErrorMessage('No OWL visualization is open');
     }
+    return session;
+}
 
-    // Create new file watcher
+function disposeSession(session: VisualizationSession) {
+    if (sessions.get(sessionKey(session.filePath)) === session) {
+        sessions.delete(sessionKey(session.filePath));
+    }
+    if (session.fileWatcher) {
+        session.fileWatcher.dispose();
+        session.fileWatcher = undefined;
+    }
+    if (session.savedViewsWatcher) {
+        session.savedViewsWatcher.dispose();
+        session.savedViewsWatcher = undefined;
+    }
+    session.updater.dispose();
+}
+
+// Unsaved edits live only in the editor buffer; otherwise the file on disk may be newer than the buffer
+function readSource(filePath: string): string {
+    const document = vscode.workspace.textDocuments.find(candidate => candidate.uri.fsPath === vscode.Uri.file(filePath).fsPath);
+    return document && document.isDirty ? document.getText() : fs.readFileSync(filePath, 'utf8');
+}
+
+// Only force reveal on manual commands, not when restoring a panel after a reload
+async function visualizeFile(session: VisualizationSession, shouldSplitRight: boolean = false, forceReveal: boolean = true): Promise<boolean> {
+    const progressOptions = {
+        location: vscode.ProgressLocation.Notification,
+        title: "Parsing OWL ontology...",
+        cancellable: false
+    };
+
+    return vscode.window.withProgress(progressOptions, () =>
+        session.updater.update({ isAutoUpdate: false, forceReveal, shouldSplitRight })
+    );
+}
+
+function publishDiagnostics(filePath: string, diagnostics: vscode.Diagnostic[]) {
+    diagnosticCollection?.set(vscode.Uri.file(filePath), diagnostics);
+}
+
+function createParseOptions(filePath: string, importResolver: ImportResolver | undefined): ParseOptions {
+    const labelSettings = getLabelSettings();
+    return {
+        baseIRI: vscode.Uri.file(filePath).toString(),
+        fileName: filePath,
+        importResolver,
+        labelLanguages: labelSettings.languages,
+        labelProperties: labelSettings.properties
+    };
+}
+
+function createImportResolver(context: vscode.ExtensionContext): ImportResolver | undefined {
+    const config = vscode.workspace.getConfiguration('owlVisualizer');
+    if (!config.get<boolean>('imports.enabled', true)) {
+        return undefined;
+    }
+
+    const configuredCache = config.get<string>('imports.cacheDirectory', '');
+    return new ImportResolver({
+        searchDirectories: (vscode.workspace.workspaceFolders ?? []).map(folder => folder.uri.fsPath),
+        cacheDirectory: configuredCache || path.join(context.globalStorageUri.fsPath, 'imports')
+    });
+}
+
+function setupFileWatcher(session: VisualizationSession) {
+    const { filePath } = session;
     const pattern = new vscode.RelativePattern(path.dirname(filePath), path.basename(filePath));
-    fileWatcher = vscode.workspace.createFileSystemWatcher(pattern);
+    const fileWatcher = vscode.workspace.createFileSystemWatcher(pattern);
+    session.fileWatcher = fileWatcher;
 
     fileWatcher.onDidChange(async () => {
-        if (activePanel && currentFilePath && activePanel.isVisible()) {
-            console.log('File changed, updating visualization...');
-            await visualizeFile(currentFilePath, context, true, false); // true = isAutoUpdate, false = don't split right for updates
+        // A save may have added or moved the ontology files imports resolve to
+        session.updater.invalidateImports();
+        if (session.panel.isVisible()) {
+            console.log('File changed, updating visualization of', filePath);
+            await session.updater.update({ isAutoUpdate: true });
         }
     });
 
     fileWatcher.onDidDelete(() => {
-        vscode.window.showWarningMessage('The watched OWL file has been deleted.');
-        if (fileWatcher) {
-            fileWatcher.dispose();
-            fileWatcher = undefined;
+        vscode.window.showWarningMessage(`The watched OWL file ${path.basename(filePath)} has been deleted.`);
+        diagnosticCollection?.delete(vscode.Uri.file(filePath));
+        fileWatcher.dispose();
+        if (session.fileWatcher === fileWatcher) {
+            session.fileWatcher = undefined;
         }
     });
 
-    context.subscriptions.push(fileWatcher);
+    // Saved views shared through git change under the panel on checkout or pull
+    const viewsFile = savedViewsPath(filePath);
+    session.savedViewsWatcher?.dispose();
+    const savedViewsWatcher = vscode.workspace.createFileSystemWatcher(
+        new vscode.RelativePattern(path.dirname(viewsFile), path.basename(viewsFile))
+    );
+    session.savedViewsWatcher = savedViewsWatcher;
+    const refreshSavedViews = () => session.panel.refreshSavedViews();
+    savedViewsWatcher.onDidChange(refreshSavedViews);
+    savedViewsWatcher.onDidCreate(refreshSavedViews);
+    savedViewsWatcher.onDidDelete(refreshSavedViews);
 }
 
 export function deactivate() {
-    if (fileWatcher) {
-        fileWatcher.dispose();
+    if (selectionSyncTimer) {
+        clearTimeout(selectionSyncTimer);
     }
+    Array.from(sessions.values()).forEach(disposeSession);
 }
\ No newline at end of file
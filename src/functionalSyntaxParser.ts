@@ -0,0 +1,542 @@
+import { NamedNode, Literal } from 'n3';
+import {
+    OwlTripleWriter,
+    OwlResource,
+    OwlValue,
+    OwlEntityKind,
+    RestrictionKind,
+    STANDARD_PREFIXES,
+    resolveIri,
+    unescapeLiteral
+} from './owlTripleWriter';
+import { ParsedDocument } from './rdfFormat';
+
+type FunctionalAtom =
+    | { kind: 'equals'; line: number }
+    | { kind: 'iri' | 'name' | 'blank'; value: string; line: number }
+    | { kind: 'literal'; value: string; language?: string; datatype?: string; line: number };
+
+type FunctionalToken = FunctionalAtom | { kind: 'open'; line: number } | { kind: 'close'; line: number };
+
+interface FunctionalCall {
+    kind: 'call';
+    name: string;
+    args: FunctionalExpression[];
+    line: number;
+}
+
+type FunctionalExpression = FunctionalCall | FunctionalAtom;
+
+const DECLARATION_KINDS = new Set<OwlEntityKind>(['Class', 'ObjectProperty', 'DataProperty', 'AnnotationProperty', 'NamedIndividual', 'Datatype']);
+
+const PROPERTY_CHARACTERISTICS: Record<string, string> = {
+    FunctionalObjectProperty: 'FunctionalProperty',
+    FunctionalDataProperty: 'FunctionalProperty',
+    InverseFunctionalObjectProperty: 'InverseFunctionalProperty',
+    ReflexiveObjectProperty: 'ReflexiveProperty',
+    IrreflexiveObjectProperty: 'IrreflexiveProperty',
+    SymmetricObjectProperty: 'SymmetricProperty',
+    AsymmetricObjectProperty: 'AsymmetricProperty',
+    TransitiveObjectProperty: 'TransitiveProperty'
+};
+
+const CLASS_RESTRICTIONS: Record<string, { kind: RestrictionKind; isData: boolean }> = {
+    ObjectSomeValuesFrom: { kind: 'some', isData: false },
+    ObjectAllValuesFrom: { kind: 'only', isData: false },
+    ObjectHasValue: { kind: 'value', isData: false },
+    ObjectHasSelf: { kind: 'self', isData: false },
+    ObjectMinCardinality: { kind: 'min', isData: false },
+    ObjectMaxCardinality: { kind: 'max', isData: false },
+    ObjectExactCardinality: { kind: 'exactly', isData: false },
+    DataSomeValuesFrom: { kind: 'some', isData: true },
+    DataAllValuesFrom: { kind: 'only', isData: true },
+    DataHasValue: { kind: 'value', isData: true },
+    DataMinCardinality: { kind: 'min', isData: true },
+    DataMaxCardinality: { kind: 'max', isData: true },
+    DataExactCardinality: { kind: 'exactly', isData: true }
+};
+
+export function looksLikeFunctionalSyntax(content: string): boolean {
+    const withoutComments = content.replace(/^\s*#.*$/gm, '').trimStart();
+    return /^(Prefix|Ontology)\s*\(/.test(withoutComments);
+}
+
+export function parseFunctionalSyntax(content: string, baseIRI?: string): ParsedDocument {
+    const parser = new FunctionalSyntaxParser(content, baseIRI);
+    return parser.parse();
+}
+
+class FunctionalSyntaxParser {
+    private readonly writer = new OwlTripleWriter();
+    private readonly prefixes = new Map<string, string>(Object.entries(STANDARD_PREFIXES));
+    private readonly tokens: FunctionalToken[];
+    private position = 0;
+
+    constructor(content: string, private readonly baseIRI?: string) {
+        this.tokens = tokenize(content);
+    }
+
+    parse(): ParsedDocument {
+        const documentItems: FunctionalExpression[] = [];
+        while (this.position < this.tokens.length) {
+            documentItems.push(this.readExpression());
+        }
+
+        documentItems.forEach(item => {
+            const call = this.expectCall(item);
+            if (call.name === 'Prefix') {
+                this.handlePrefix(call);
+            } else if (call.name === 'Ontology') {
+                this.handleOntology(call);
+            } else {
+                throw this.error(call.line, `Unexpected ${call.name} at document level`);
+            }
+        });
+
+        return { quads: this.writer.quads, prefixes: Object.fromEntries(this.prefixes) };
+    }
+
+    private readExpression(): FunctionalExpression {
+        const token = this.tokens[this.position++];
+        if (!token) {
+            throw new Error('Unexpected end of OWL Functional Syntax document');
+        }
+
+        if (token.kind === 'close') {
+            throw this.error(token.line, 'Unexpected ")"');
+        }
+
+        if (token.kind === 'open') {
+            return { kind: 'call', name: '', args: this.readArguments(), line: token.line };
+        }
+
+        // Constructor keywords never contain a colon, which keeps "HasKey(:A (...))" unambiguous
+        if (token.kind === 'name' && !token.value.includes(':') && this.tokens[this.position]?.kind === 'open') {
+            this.position++;
+            return { kind: 'call', name: token.value, args: this.readArguments(), line: token.line };
+        }
+
+        return token;
+    }
+
+    private readArguments(): FunctionalExpression[] {
+        const args: FunctionalExpression[] = [];
+        while (true) {
+            const next = this.tokens[this.position];
+            if (!next) {
+                throw new Error('Unexpected end of OWL Functional Syntax document: missing ")"');
+            }
+            if (next.kind === 'close') {
+                this.position++;
+                return args;
+            }
+            args.push(this.readExpression());
+        }
+    }
+
+    private handlePrefix(call: FunctionalCall) {
+        // Prefix(ex:=<http://example.org/>) tokenizes as name, equals, iri
+        const [nameArg, equalsArg, iriArg] = call.args;
+        if (!nameArg || nameArg.kind !== 'name' || !equalsArg || equalsArg.kind !== 'equals' || !iriArg || iriArg.kind !== 'iri') {
+            throw this.error(call.line, 'Malformed Prefix declaration');
+        }
+        const prefix = nameArg.value.endsWith(':') ? nameArg.value.slice(0, -1) : nameArg.value;
+        this.prefixes.set(prefix, resolveIri(iriArg.value, this.baseIRI));
+    }
+
+    private handleOntology(call: FunctionalCall) {
+        const [ontologyArg, versionArg] = call.args;
+        let axioms = call.args;
+        let ontology: OwlResource | undefined;
+
+        if (ontologyArg && ontologyArg.kind !== 'call') {
+            ontology = this.toResource(ontologyArg);
+            this.writer.add(ontology, this.writer.rdf('type'), this.writer.owl('Ontology'));
+            axioms = axioms.slice(1);
+            if (versionArg && versionArg.kind !== 'call') {
+                this.writer.add(ontology, this.writer.owl('versionIRI'), this.toResource(versionArg));
+                axioms = axioms.slice(1);
+            }
+        }
+
+        axioms.forEach(arg => {
+            const axiom = this.expectCall(arg);
+            if (axiom.name === 'Import') {
+                if (ontology) {
+                    this.writer.add(ontology, this.writer.owl('imports'), this.toResource(axiom.args[0]));
+                }
+            } else if (axiom.name === 'Annotation') {
+                if (ontology) {
+                    const [property, value] = this.stripAnnotations(axiom.args);
+                    this.writer.add(ontology, this.toNamedNode(property), this.toValue(value));
+                }
+            } else {
+                this.handleAxiom(axiom);
+            }
+        });
+    }
+
+    private handleAxiom(axiom: FunctionalCall) {
+        const w = this.writer;
+        const args = this.stripAnnotations(axiom.args);
+
+        if (PROPERTY_CHARACTERISTICS[axiom.name]) {
+            w.add(this.toPropertyExpression(args[0]), w.rdf('type'), w.owl(PROPERTY_CHARACTERISTICS[axiom.name]));
+            return;
+        }
+
+        switch (axiom.name) {
+            case 'Declaration': {
+                const entity = this.expectCall(args[0]);
+                if (!DECLARATION_KINDS.has(entity.name as OwlEntityKind)) {
+                    throw this.error(entity.line, `Unknown declaration kind ${entity.name}`);
+                }
+                w.declare(entity.name as OwlEntityKind, this.toNamedNode(entity.args[0]));
+                return;
+            }
+            case 'SubClassOf':
+                w.add(this.toClassExpression(args[0]), w.rdfs('subClassOf'), this.toClassExpression(args[1]));
+                return;
+            case 'EquivalentClasses':
+                w.chainedAxiom(w.owl('equivalentClass'), args.map(arg => this.toClassExpression(arg)));
+                return;
+            case 'DisjointClasses':
+                w.naryAxiom(w.owl('disjointWith'), w.owl('AllDisjointClasses'), args.map(arg => this.toClassExpression(arg)));
+                return;
+            case 'DisjointUnion':
+                w.add(this.toNamedNode(args[0]), w.owl('disjointUnionOf'), w.list(args.slice(1).map(arg => this.toClassExpression(arg))));
+                return;
+            case 'SubObjectPropertyOf': {
+                const [sub, sup] = args;
+                if (sub.kind === 'call' && sub.name === 'ObjectPropertyChain') {
+                    w.add(this.toPropertyExpression(sup), w.owl('propertyChainAxiom'), w.list(sub.args.map(arg => this.toPropertyExpression(arg))));
+                } else {
+                    w.add(this.toPropertyExpression(sub), w.rdfs('subPropertyOf'), this.toPropertyExpression(sup));
+                }
+                return;
+            }
+            case 'SubDataPropertyOf':
+            case 'SubAnnotationPropertyOf':
+                w.add(this.toPropertyExpression(args[0]), w.rdfs('subPropertyOf'), this.toPropertyExpression(args[1]));
+                return;
+            case 'EquivalentObjectProperties':
+            case 'EquivalentDataProperties':
+                w.chainedAxiom(w.owl('equivalentProperty'), args.map(arg => this.toPropertyExpression(arg)));
+                return;
+            case 'DisjointObjectProperties':
+            case 'DisjointDataProperties':
+                w.naryAxiom(w.owl('propertyDisjointWith'), w.owl('AllDisjointProperties'), args.map(arg => this.toPropertyExpression(arg)));
+                return;
+            case 'InverseObjectProperties':
+                w.add(this.toPropertyExpression(args[0]), w.owl('inverseOf'), this.toPropertyExpression(args[1]));
+                return;
+            case 'ObjectPropertyDomain':
+            case 'DataPropertyDomain':
+                w.add(this.toPropertyExpression(args[0]), w.rdfs('domain'), this.toClassExpression(args[1]));
+                return;
+            case 'ObjectPropertyRange':
+                w.add(this.toPropertyExpression(args[0]), w.rdfs('range'), this.toClassExpression(args[1]));
+                return;
+            case 'DataPropertyRange':
+                w.add(this.toPropertyExpression(args[0]), w.rdfs('range'), this.toDataRange(args[1]));
+                return;
+            case 'AnnotationPropertyDomain':
+                w.add(this.toNamedNode(args[0]), w.rdfs('domain'), this.toNamedNode(args[1]));
+                return;
+            case 'AnnotationPropertyRange':
+                w.add(this.toNamedNode(args[0]), w.rdfs('range'), this.toNamedNode(args[1]));
+                return;
+            case 'DatatypeDefinition':
+                w.add(this.toNamedNode(args[0]), w.owl('equivalentClass'), this.toDataRange(args[1]));
+                return;
+            case 'HasKey': {
+                const [classExpression, objectProperties, dataProperties] = args;
+                const keys = [objectProperties, dataProperties]
+                    .filter((group): group is FunctionalCall => Boolean(group) && group.kind === 'call')
+                    .flatMap(group => group.args.map(arg => this.toPropertyExpression(arg)));
+                w.add(this.toClassExpression(classExpression), w.owl('hasKey'), w.list(keys));
+                return;
+            }
+            case 'ClassAssertion':
+                w.add(this.toResource(args[1]), w.rdf('type'), this.toClassExpression(args[0]));
+                return;
+            case 'ObjectPropertyAssertion':
+            case 'DataPropertyAssertion': {
+                const [property, source, target] = args;
+                if (property.kind === 'call' && property.name === 'ObjectInverseOf') {
+                    // ObjectInverseOf(p) a b is written as b p a
+                    w.add(this.toResource(target), this.toNamedNode(property.args[0]), this.toResource(source));
+                } else {
+                    w.add(this.toResource(source), this.toNamedNode(property), this.toValue(target));
+                }
+                return;
+            }
+            case 'NegativeObjectPropertyAssertion':
+            case 'NegativeDataPropertyAssertion':
+                w.negativeAssertion(this.toPropertyExpression(args[0]), this.toResource(args[1]), this.toValue(args[2]));
+                return;
+            case 'SameIndividual':
+                w.chainedAxiom(w.owl('sameAs'), args.map(arg => this.toResource(arg)));
+                return;
+            case 'DifferentIndividuals':
+                w.naryAxiom(w.owl('differentFrom'), w.owl('AllDifferent'), args.map(arg => this.toResource(arg)));
+                return;
+            case 'AnnotationAssertion':
+                w.add(this.toResource(args[1]), this.toNamedNode(args[0]), this.toValue(args[2]));
+                return;
+            case 'DLSafeRule':
+                // SWRL rules have no graph representation in the visualizer
+                return;
+            default:
+                throw this.error(axiom.line, `Unsupported axiom ${axiom.name}`);
+        }
+    }
+
+    private toClassExpression(expression: FunctionalExpression): OwlResource {
+        const w = this.writer;
+        if (expression.kind !== 'call') {
+            return this.toResource(expression);
+        }
+
+        const restriction = CLASS_RESTRICTIONS[expression.name];
+        if (restriction) {
+            const args = [...expression.args];
+            let cardinality: number | undefined;
+            if (restriction.kind === 'min' || restriction.kind === 'max' || restriction.kind === 'exactly') {
+                cardinality = this.toCardinality(args.shift());
+            }
+            const property = this.toPropertyExpression(args.shift());
+            const fillerArg = args.shift();
+            let filler: OwlValue | undefined;
+            if (fillerArg) {
+                if (restriction.kind === 'value') {
+                    filler = this.toValue(fillerArg);
+                } else {
+                    filler = restriction.isData ? this.toDataRange(fillerArg) : this.toClassExpression(fillerArg);
+                }
+            }
+            return w.restriction(restriction.kind, property, filler, cardinality, restriction.isData);
+        }
+
+        switch (expression.name) {
+            case 'ObjectIntersectionOf':
+                return w.booleanClass('intersectionOf', expression.args.map(arg => this.toClassExpression(arg)));
+            case 'ObjectUnionOf':
+                return w.booleanClass('unionOf', expression.args.map(arg => this.toClassExpression(arg)));
+            case 'ObjectComplementOf':
+                return w.complementOf(this.toClassExpression(expression.args[0]));
+            case 'ObjectOneOf':
+                return w.oneOf(expression.args.map(arg => this.toResource(arg)));
+            default:
+                throw this.error(expression.line, `Unsupported class expression ${expression.name}`);
+        }
+    }
+
+    private toDataRange(expression: FunctionalExpression): OwlResource {
+        const w = this.writer;
+        if (expression.kind !== 'call') {
+            return this.toResource(expression);
+        }
+
+        switch (expression.name) {
+            case 'DataIntersectionOf':
+                return w.booleanClass('intersectionOf', expression.args.map(arg => this.toDataRange(arg)), true);
+            case 'DataUnionOf':
+                return w.booleanClass('unionOf', expression.args.map(arg => this.toDataRange(arg)), true);
+            case 'DataComplementOf':
+                return w.complementOf(this.toDataRange(expression.args[0]), true);
+            case 'DataOneOf':
+                return w.oneOf(expression.args.map(arg => this.toValue(arg)), true);
+            case 'DatatypeRestriction': {
+                const [datatype, ...facetArgs] = expression.args;
+                const facets: Array<{ facet: NamedNode; value: Literal }> = [];
+                for (let i = 0; i + 1 < facetArgs.length; i += 2) {
+                    const value = this.toValue(facetArgs[i + 1]);
+                    if (value.termType === 'Literal') {
+                        facets.push({ facet: this.toNamedNode(facetArgs[i]), value });
+                    }
+                }
+                return w.datatypeRestriction(this.toNamedNode(datatype), facets);
+            }
+            default:
+                throw this.error(expression.line, `Unsupported data range ${expression.name}`);
+        }
+    }
+
+    private toPropertyExpression(expression: FunctionalExpression | undefined): OwlResource {
+        if (expression && expression.kind === 'call' && expression.name === 'ObjectInverseOf') {
+            return this.writer.inverseOf(this.toNamedNode(expression.args[0]));
+        }
+        return this.toNamedNode(expression);
+    }
+
+    private toCardinality(expression: FunctionalExpression | undefined): number {
+        if (!expression || expression.kind !== 'name' || !/^\d+$/.test(expression.value)) {
+            throw this.error(expression?.line ?? 0, 'Expected a non-negative cardinality');
+        }
+        return Number(expression.value);
+    }
+
+    private toValue(expression: FunctionalExpression | undefined): OwlValue {
+        if (expression && expression.kind === 'literal') {
+            if (expression.language) {
+                return this.writer.literal(expression.value, expression.language);
+            }
+            if (expression.datatype) {
+                return this.writer.literal(expression.value, this.writer.iri(this.expandName(expression.datatype, expression.line)));
+            }
+            return this.writer.literal(expression.value);
+        }
+        return this.toResource(expression);
+    }
+
+    private toResource(expression: FunctionalExpression | undefined): OwlResource {
+        if (expression && expression.kind === 'blank') {
+            return this.writer.blank(expression.value);
+        }
+        return this.toNamedNode(expression);
+    }
+
+    private toNamedNode(expression: FunctionalExpression | undefined): NamedNode {
+        if (!expression) {
+            throw new Error('Missing entity in OWL Functional Syntax axiom');
+        }
+        if (expression.kind === 'iri') {
+            return this.writer.iri(resolveIri(expression.value, this.baseIRI));
+        }
+        if (expression.kind === 'name') {
+            return this.writer.iri(this.expandName(expression.value, expression.line));
+        }
+        throw this.error(expression.line, 'Expected an IRI');
+    }
+
+    private expandName(name: string, line: number): string {
+        if (name.startsWith('<') && name.endsWith('>')) {
+            return resolveIri(name.slice(1, -1), this.baseIRI);
+        }
+        const separator = name.indexOf(':');
+        if (separator < 0) {
+            throw this.error(line, `Expected a prefixed name but found "${name}"`);
+        }
+        const namespace = this.prefixes.get(name.substring(0, separator));
+        if (namespace === undefined) {
+            throw this.error(line, `Undeclared prefix "${name.substring(0, separator)}:"`);
+        }
+        return namespace + name.substring(separator + 1);
+    }
+
+    private stripAnnotations(args: FunctionalExpression[]): FunctionalExpression[] {
+        return args.filter(arg => !(arg.kind === 'call' && arg.name === 'Annotation'));
+    }
+
+    private expectCall(expression: FunctionalExpression | undefined): FunctionalCall {
+        if (!expression || expression.kind !== 'call') {
+            throw this.error(expression?.line ?? 0, 'Expected a parenthesized expression');
+        }
+        return expression;
+    }
+
+    private error(line: number, message: string): Error {
+        return new Error(`${message} on line ${line}.`);
+    }
+}
+
+const LANGUAGE_TAG = /@[a-zA-Z]+(?:-[a-zA-Z0-9]+)*/y;
+const DATATYPE = /<[^>]*>|[^\s()<>"]+/y;
+const WORD = /[^\s()<>"=]+/y;
+
+function matchAt(pattern: RegExp, content: string, index: number): string | null {
+    pattern.lastIndex = index;
+    const match = pattern.exec(content);
+    return match ? match[0] : null;
+}
+
+function tokenize(content: string): FunctionalToken[] {
+    const tokens: FunctionalToken[] = [];
+    let index = 0;
+    let line = 1;
+
+    while (index < content.length) {
+        const char = content[index];
+
+        if (char === '\n') {
+            line++;
+            index++;
+            continue;
+        }
+        if (/\s/.test(char)) {
+            index++;
+            continue;
+        }
+        if (char === '#') {
+            while (index < content.length && content[index] !== '\n') {
+                index++;
+            }
+            continue;
+        }
+        if (char === '(') {
+            tokens.push({ kind: 'open', line });
+            index++;
+            continue;
+        }
+        if (char === ')') {
+            tokens.push({ kind: 'close', line });
+            index++;
+            continue;
+        }
+        if (char === '=') {
+            tokens.push({ kind: 'equals', line });
+            index++;
+            continue;
+        }
+        if (char === '<') {
+            const end = content.indexOf('>', index);
+            if (end < 0) {
+                throw new Error(`Unterminated IRI on line ${line}.`);
+            }
+            tokens.push({ kind: 'iri', value: content.substring(index + 1, end), line });
+            index = end + 1;
+            continue;
+        }
+        if (char === '"') {
+            const startLine = line;
+            let end = index + 1;
+            while (end < content.length && content[end] !== '"') {
+                if (content[end] === '\\') {
+                    end++;
+                }
+                if (content[end] === '\n') {
+                    line++;
+                }
+                end++;
+            }
+            if (end >= content.length) {
+                throw new Error(`Unterminated literal on line ${startLine}.`);
+            }
+            const token: FunctionalToken = { kind: 'literal', value: unescapeLiteral(content.substring(index + 1, end)), line: startLine };
+            index = end + 1;
+            if (content[index] === '@') {
+                const match = matchAt(LANGUAGE_TAG, content, index);
+                if (match) {
+                    token.language = match.substring(1);
+                    index += match.length;
+                }
+            } else if (content.startsWith('^^', index)) {
+                index += 2;
+                const match = matchAt(DATATYPE, content, index);
+                if (match) {
+                    token.datatype = match;
+                    index += match.length;
+                }
+            }
+            tokens.push(token);
+            continue;
+        }
+
+        const word = matchAt(WORD, content, index) ?? char;
+        tokens.push(word.startsWith('_:') ? { kind: 'blank', value: word.substring(2), line } : { kind: 'name', value: word, line });
+        index += word.length;
+    }
+
+    return tokens;
+}
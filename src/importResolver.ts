@@ -0,0 +1,257 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { SUPPORTED_EXTENSIONS } from './rdfFormat';
+
+export interface ImportedDocument {
+    content: string;
+    fileName: string;
+}
+
+// Resolved to a file that could not be read, e.g. a directory or a file deleted after indexing
+export interface UnreadableImport {
+    fileName: string;
+    error: string;
+}
+
+export interface ImportResolverOptions {
+    // Directories searched (recursively) for a file named after the imported IRI
+    searchDirectories?: string[];
+    // Directory holding previously downloaded ontologies, named with cacheFileName()
+    cacheDirectory?: string;
+}
+
+interface CatalogEntries {
+    uris: Map<string, string>;
+    rewrites: Array<{ prefix: string; replacement: string }>;
+}
+
+const CATALOG_FILE_NAME = 'catalog-v001.xml';
+const MAX_SEARCH_DEPTH = 4;
+const IGNORED_DIRECTORIES = new Set(['node_modules', 'out', 'dist']);
+
+export function cacheFileName(iri: string): string {
+    return iri
+        .replace(/^[a-zA-Z][a-zA-Z0-9+.-]*:\/*/, '')
+        .replace(/[^A-Za-z0-9._-]+/g, '_')
+        .replace(/^_+|_+$/g, '');
+}
+
+/**
+ * Maps owl:imports IRIs to local documents, trying in order: a Protégé catalog next to the
+ * importing file, file: IRIs, ontology files in the search directories and the cache directory.
+ */
+export class ImportResolver {
+    private readonly catalogs = new Map<string, CatalogEntries | undefined>();
+    private fileIndex: Map<string, string[]> | undefined;
+
+    constructor(private readonly options: ImportResolverOptions = {}) {}
+
+    resolve(iri: string, importingFile?: string): ImportedDocument | UnreadableImport | undefined {
+        const fileName = this.resolveFileName(iri, importingFile);
+        if (!fileName) {
+            return undefined;
+        }
+
+        console.log('OWL Parser: Resolved import', iri, 'to', fileName);
+        try {
+            return { content: fs.readFileSync(fileName, 'utf8'), fileName };
+        } catch (error) {
+            console.error('OWL Parser: Failed to read import', fileName, error);
+            return { fileName, error: error instanceof Error ? error.message : String(error) };
+        }
+    }
+
+    private resolveFileName(iri: string, importingFile?: string): string | undefined {
+        const importingDirectory = importingFile ? path.dirname(importingFile) : undefined;
+
+        const catalogDirectories = [importingDirectory, ...(this.options.searchDirectories ?? [])];
+        for (const directory of catalogDirectories) {
+            const mapped = directory ? this.lookupCatalog(directory, iri) : undefined;
+            if (mapped && this.isFile(mapped)) {
+                return mapped;
+            }
+        }
+
+        if (iri.startsWith('file:')) {
+            try {
+                const filePath = fileURLToPath(iri);
+                if (this.isFile(filePath)) {
+                    return filePath;
+                }
+            } catch (error) {
+                // Not a local file IRI; fall through to the other strategies
+            }
+        }
+
+        const documentName = this.getDocumentName(iri);
+        if (documentName) {
+            const local = this.findLocalFile(documentName, importingDirectory);
+            if (local) {
+                return local;
+            }
+        }
+
+        if (this.options.cacheDirectory) {
+            const cached = this.findInDirectory(this.options.cacheDirectory, cacheFileName(iri));
+            if (cached) {
+                return cached;
+            }
+        }
+
+        return undefined;
+    }
+
+    private lookupCatalog(directory: string, iri: string): string | undefined {
+        if (!this.catalogs.has(directory)) {
+            this.catalogs.set(directory, this.readCatalog(path.join(directory, CATALOG_FILE_NAME)));
+        }
+
+        const catalog = this.catalogs.get(directory);
+        if (!catalog) {
+            return undefined;
+        }
+
+        const direct = catalog.uris.get(iri);
+        if (direct) {
+            return this.toFilePath(direct, directory);
+        }
+
+        const rewrite = catalog.rewrites
+            .filter(entry => iri.startsWith(entry.prefix))
+            .sort((a, b) => b.prefix.length - a.prefix.length)[0];
+        if (rewrite) {
+            return this.toFilePath(rewrite.replacement + iri.substring(rewrite.prefix.length), directory);
+        }
+
+        return undefined;
+    }
+
+    private readCatalog(catalogPath: string): CatalogEntries | undefined {
+        if (!this.isFile(catalogPath)) {
+            return undefined;
+        }
+
+        const content = fs.readFileSync(catalogPath, 'utf8');
+        const entries: CatalogEntries = { uris: new Map(), rewrites: [] };
+        const elementPattern = /<(uri|rewriteURI)\b([^>]*)>/g;
+        let match: RegExpExecArray | null;
+
+        while ((match = elementPattern.exec(content)) !== null) {
+            const attributes = this.parseAttributes(match[2]);
+            if (match[1] === 'uri' && attributes.name && attributes.uri) {
+                entries.uris.set(attributes.name, attributes.uri);
+            } else if (match[1] === 'rewriteURI' && attributes.uriStartString && attributes.rewritePrefix) {
+                entries.rewrites.push({ prefix: attributes.uriStartString, replacement: attributes.rewritePrefix });
+            }
+        }
+
+        console.log('OWL Parser: Loaded', entries.uris.size + entries.rewrites.length, 'catalog entries from', catalogPath);
+        return entries;
+    }
+
+    private parseAttributes(source: string): Record<string, string> {
+        const attributes: Record<string, string> = {};
+        const attributePattern = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+        let match: RegExpExecArray | null;
+        while ((match = attributePattern.exec(source)) !== null) {
+            attributes[match[1]] = match[2] ?? match[3];
+        }
+        return attributes;
+    }
+
+    private toFilePath(reference: string, baseDirectory: string): string | undefined {
+        if (reference.startsWith('file:')) {
+            try {
+                return fileURLToPath(reference);
+            } catch (error) {
+                return undefined;
+            }
+        }
+        if (/^[a-zA-Z][a-zA-Z0-9+.-]*:\/\//.test(reference)) {
+            // Catalog points at another remote location; nothing to read locally
+            return undefined;
+        }
+        return path.resolve(baseDirectory, decodeURIComponent(reference));
+    }
+
+    private getDocumentName(iri: string): string | undefined {
+        const trimmed = iri.replace(/[#/]+$/, '');
+        const lastSeparator = Math.max(trimmed.lastIndexOf('/'), trimmed.lastIndexOf('#'), trimmed.lastIndexOf(':'));
+        const name = trimmed.substring(lastSeparator + 1);
+        return name || undefined;
+    }
+
+    private findLocalFile(documentName: string, importingDirectory?: string): string | undefined {
+        if (importingDirectory) {
+            const sibling = this.findInDirectory(importingDirectory, documentName);
+            if (sibling) {
+                return sibling;
+            }
+        }
+
+        const index = this.getFileIndex();
+        const candidates = [documentName, ...SUPPORTED_EXTENSIONS.map(ext => documentName + ext)];
+        for (const candidate of candidates) {
+            const matches = index.get(candidate.toLowerCase());
+            if (matches && matches.length > 0) {
+                return matches[0];
+            }
+        }
+
+        return undefined;
+    }
+
+    private findInDirectory(directory: string, documentName: string): string | undefined {
+        const candidates = path.extname(documentName) && SUPPORTED_EXTENSIONS.includes(path.extname(documentName).toLowerCase())
+            ? [documentName]
+            : SUPPORTED_EXTENSIONS.map(ext => documentName + ext).concat(documentName);
+
+        return candidates
+            .map(candidate => path.join(directory, candidate))
+            .find(candidate => this.isFile(candidate));
+    }
+
+    private getFileIndex(): Map<string, string[]> {
+        if (this.fileIndex) {
+            return this.fileIndex;
+        }
+
+        const index = new Map<string, string[]>();
+        const visit = (directory: string, depth: number) => {
+            let entries: fs.Dirent[];
+            try {
+                entries = fs.readdirSync(directory, { withFileTypes: true });
+            } catch (error) {
+                return;
+            }
+
+            entries.forEach(entry => {
+                const fullPath = path.join(directory, entry.name);
+                if (entry.isDirectory()) {
+                    if (depth < MAX_SEARCH_DEPTH && !entry.name.startsWith('.') && !IGNORED_DIRECTORIES.has(entry.name)) {
+                        visit(fullPath, depth + 1);
+                    }
+                } else if (entry.isFile() && SUPPORTED_EXTENSIONS.includes(path.extname(entry.name).toLowerCase())) {
+                    const key = entry.name.toLowerCase();
+                    if (!index.has(key)) {
+                        index.set(key, []);
+                    }
+                    index.get(key)!.push(fullPath);
+                }
+            });
+        };
+
+        (this.options.searchDirectories ?? []).forEach(directory => visit(directory, 0));
+        this.fileIndex = index;
+        return index;
+    }
+
+    private isFile(filePath: string): boolean {
+        try {
+            return fs.statSync(filePath).isFile();
+        } catch (error) {
+            return false;
+        }
+    }
+}
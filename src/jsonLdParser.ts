@@ -0,0 +1,55 @@
+import { DataFactory, Quad } from 'n3';
+import { JsonLdParser } from 'jsonld-streaming-parser';
+import { ParsedDocument } from './rdfFormat';
+
+export function looksLikeJsonLd(content: string): boolean {
+    const trimmed = content.trimStart();
+    return trimmed.startsWith('{') || trimmed.startsWith('[');
+}
+
+export function parseJsonLd(content: string, baseIRI?: string): Promise<ParsedDocument> {
+    return new Promise((resolve, reject) => {
+        // Build terms with the N3 factory so the quads behave exactly like the Turtle path
+        const parser = new JsonLdParser({
+            dataFactory: DataFactory,
+            baseIRI
+        });
+        const quads: Quad[] = [];
+        const prefixes: Record<string, string> = {};
+
+        parser.on('data', (quad: Quad) => {
+            quads.push(quad);
+        });
+        parser.on('context', (context: unknown) => {
+            collectContextPrefixes(context, prefixes);
+        });
+        parser.on('error', error => {
+            reject(error);
+        });
+        parser.on('end', () => {
+            resolve({ quads, prefixes });
+        });
+
+        parser.write(content);
+        parser.end();
+    });
+}
+
+// Only plain term definitions that end in a namespace separator behave like Turtle prefixes
+function collectContextPrefixes(context: unknown, prefixes: Record<string, string>) {
+    if (Array.isArray(context)) {
+        context.forEach((entry: unknown) => collectContextPrefixes(entry, prefixes));
+        return;
+    }
+    if (typeof context !== 'object' || context === null) {
+        return;
+    }
+
+    Object.entries(context).forEach(([term, value]: [string, unknown]) => {
+        if (term === '@vocab' && typeof value === 'string') {
+            prefixes[''] = value;
+        } else if (!term.startsWith('@') && typeof value === 'string' && /[/#]$/.test(value)) {
+            prefixes[term] = value;
+        }
+    });
+}
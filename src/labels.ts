@@ -0,0 +1,35 @@
+// Literal labels of a resource keyed by labelling property (see LABEL_PROPERTIES), then by
+// language tag; untagged labels use the empty string
+export type NodeLabels = Record<string, Record<string, string>>;
+
+export const LABEL_PROPERTIES: Record<string, string> = {
+    'rdfs:label': 'http://www.w3.org/2000/01/rdf-schema#label',
+    'skos:prefLabel': 'http://www.w3.org/2004/02/skos/core#prefLabel',
+    'dcterms:title': 'http://purl.org/dc/terms/title',
+    'dc:title': 'http://purl.org/dc/elements/1.1/title',
+    'skos:altLabel': 'http://www.w3.org/2004/02/skos/core#altLabel'
+};
+
+export const DEFAULT_LABEL_PROPERTIES = Object.keys(LABEL_PROPERTIES);
+
+/**
+ * Picks a label for display: the first matching language wins (trying each property in order),
+ * then untagged labels, then any label of the first property that has one.
+ */
+export function selectLabel(labels: NodeLabels, languages: string[], properties: string[]): string | undefined {
+    const candidates = properties.map(property => labels[property]).filter(Boolean);
+    const matchesLanguage = (tag: string, language: string) =>
+        tag.toLowerCase() === language.toLowerCase() || tag.toLowerCase().startsWith(language.toLowerCase() + '-');
+
+    for (const language of [...languages.filter(Boolean), '']) {
+        for (const byLanguage of candidates) {
+            const tag = Object.keys(byLanguage).find(candidate => language ? matchesLanguage(candidate, language) : candidate === '');
+            if (tag !== undefined) {
+                return byLanguage[tag];
+            }
+        }
+    }
+
+    const fallback = candidates.find(byLanguage => Object.keys(byLanguage).length > 0);
+    return fallback ? Object.values(fallback)[0] : undefined;
+}
@@ -0,0 +1,699 @@
+import { NamedNode, Literal } from 'n3';
+import {
+    OwlTripleWriter,
+    OwlResource,
+    OwlValue,
+    OwlEntityKind,
+    RestrictionKind,
+    STANDARD_PREFIXES,
+    XSD_NS,
+    resolveIri,
+    unescapeLiteral
+} from './owlTripleWriter';
+import { ParsedDocument } from './rdfFormat';
+
+type ManchesterToken =
+    | { kind: 'keyword' | 'name' | 'iri' | 'number' | 'punct'; value: string; line: number }
+    | { kind: 'literal'; value: string; language?: string; datatype?: string; line: number };
+
+const FRAME_KEYWORDS = new Set([
+    'Prefix', 'Ontology', 'Import', 'Class', 'ObjectProperty', 'DataProperty', 'AnnotationProperty',
+    'Individual', 'Datatype', 'DisjointClasses', 'EquivalentClasses', 'DisjointProperties',
+    'EquivalentProperties', 'SameIndividual', 'DifferentIndividuals', 'Rule'
+]);
+
+const SECTION_KEYWORDS = new Set([
+    'Annotations', 'SubClassOf', 'EquivalentTo', 'DisjointWith', 'DisjointUnionOf', 'HasKey', 'Domain',
+    'Range', 'Characteristics', 'SubPropertyOf', 'InverseOf', 'SubPropertyChain', 'Types', 'Facts',
+    'SameAs', 'DifferentFrom'
+]);
+
+const ENTITY_FRAMES: Record<string, OwlEntityKind> = {
+    Class: 'Class',
+    ObjectProperty: 'ObjectProperty',
+    DataProperty: 'DataProperty',
+    AnnotationProperty: 'AnnotationProperty',
+    Individual: 'NamedIndividual',
+    Datatype: 'Datatype'
+};
+
+const CHARACTERISTICS: Record<string, string> = {
+    Functional: 'FunctionalProperty',
+    InverseFunctional: 'InverseFunctionalProperty',
+    Reflexive: 'ReflexiveProperty',
+    Irreflexive: 'IrreflexiveProperty',
+    Symmetric: 'SymmetricProperty',
+    Asymmetric: 'AsymmetricProperty',
+    Transitive: 'TransitiveProperty'
+};
+
+const FACETS: Record<string, string> = {
+    length: 'length',
+    minLength: 'minLength',
+    maxLength: 'maxLength',
+    pattern: 'pattern',
+    langRange: 'langRange',
+    '<=': 'maxInclusive',
+    '<': 'maxExclusive',
+    '>=': 'minInclusive',
+    '>': 'minExclusive'
+};
+
+const RESTRICTION_KEYWORDS = new Set<string>(['some', 'only', 'value', 'Self', 'min', 'max', 'exactly']);
+
+export function looksLikeManchesterSyntax(content: string): boolean {
+    const withoutComments = content.replace(/^\s*#.*$/gm, '').trimStart();
+    return /^(Prefix|Ontology|Class|ObjectProperty|DataProperty|AnnotationProperty|Individual|Datatype):\s/.test(withoutComments);
+}
+
+export function parseManchesterSyntax(content: string, baseIRI?: string): ParsedDocument {
+    const parser = new ManchesterSyntaxParser(content, baseIRI);
+    return parser.parse();
+}
+
+class ManchesterSyntaxParser {
+    private readonly writer = new OwlTripleWriter();
+    private readonly prefixes = new Map<string, string>(Object.entries(STANDARD_PREFIXES));
+    private readonly dataPropertyNames = new Set<string>();
+    private readonly tokens: ManchesterToken[];
+    private position = 0;
+    private ontology: OwlResource | undefined;
+
+    constructor(content: string, private readonly baseIRI?: string) {
+        this.tokens = tokenize(content);
+
+        // Restrictions on data properties are mapped differently, so remember them up front
+        this.tokens.forEach((token, index) => {
+            const next = this.tokens[index + 1];
+            if (token.kind === 'keyword' && token.value === 'DataProperty' && next && next.kind !== 'literal') {
+                this.dataPropertyNames.add(next.value);
+            }
+        });
+    }
+
+    parse(): ParsedDocument {
+        while (this.peek()) {
+            const token = this.next();
+            if (token.kind !== 'keyword' || !FRAME_KEYWORDS.has(token.value)) {
+                throw this.error(token, `Expected a frame keyword but found "${token.value}"`);
+            }
+            this.parseFrame(token.value);
+        }
+        return { quads: this.writer.quads, prefixes: Object.fromEntries(this.prefixes) };
+    }
+
+    private parseFrame(keyword: string) {
+        const w = this.writer;
+
+        switch (keyword) {
+            case 'Prefix': {
+                const prefixToken = this.next();
+                const iriToken = this.next();
+                if (prefixToken.kind !== 'name' || !prefixToken.value.endsWith(':') || iriToken.kind !== 'iri') {
+                    throw this.error(prefixToken, 'Malformed Prefix declaration');
+                }
+                this.prefixes.set(prefixToken.value.slice(0, -1), resolveIri(iriToken.value, this.baseIRI));
+                return;
+            }
+            case 'Ontology': {
+                if (this.isEntityStart(this.peek())) {
+                    this.ontology = this.parseIri();
+                    w.add(this.ontology, w.rdf('type'), w.owl('Ontology'));
+                    if (this.isEntityStart(this.peek())) {
+                        w.add(this.ontology, w.owl('versionIRI'), this.parseIri());
+                    }
+                }
+
+                // Import: and Annotations: sections belong to the ontology header
+                while (this.peek()?.kind === 'keyword' && (this.peek()!.value === 'Import' || this.peek()!.value === 'Annotations')) {
+                    const section = this.next();
+                    if (section.value === 'Import') {
+                        this.parseFrame('Import');
+                    } else {
+                        const annotations = this.parseAnnotationList();
+                        if (this.ontology) {
+                            const ontology = this.ontology;
+                            annotations.forEach(({ property, value }) => w.add(ontology, property, value));
+                        }
+                    }
+                }
+                return;
+            }
+            case 'Import': {
+                const imported = this.parseIri();
+                if (this.ontology) {
+                    w.add(this.ontology, w.owl('imports'), imported);
+                }
+                return;
+            }
+            case 'DisjointClasses':
+                this.skipAnnotations();
+                w.naryAxiom(w.owl('disjointWith'), w.owl('AllDisjointClasses'), this.parseList(() => this.parseDescription()));
+                return;
+            case 'EquivalentClasses':
+                this.skipAnnotations();
+                w.chainedAxiom(w.owl('equivalentClass'), this.parseList(() => this.parseDescription()));
+                return;
+            case 'DisjointProperties':
+                this.skipAnnotations();
+                w.naryAxiom(w.owl('propertyDisjointWith'), w.owl('AllDisjointProperties'), this.parseList(() => this.parsePropertyExpression()));
+                return;
+            case 'EquivalentProperties':
+                this.skipAnnotations();
+                w.chainedAxiom(w.owl('equivalentProperty'), this.parseList(() => this.parsePropertyExpression()));
+                return;
+            case 'SameIndividual':
+                this.skipAnnotations();
+                w.chainedAxiom(w.owl('sameAs'), this.parseList(() => this.parseIndividual()));
+                return;
+            case 'DifferentIndividuals':
+                this.skipAnnotations();
+                w.naryAxiom(w.owl('differentFrom'), w.owl('AllDifferent'), this.parseList(() => this.parseIndividual()));
+                return;
+            case 'Rule':
+                // SWRL rules have no graph representation in the visualizer
+                while (this.peek() && !this.isFrameKeyword(this.peek())) {
+                    this.next();
+                }
+                return;
+        }
+
+        const kind = ENTITY_FRAMES[keyword];
+        const subject = kind === 'NamedIndividual' ? this.parseIndividual() : this.parseIri();
+        if (subject.termType === 'NamedNode') {
+            w.declare(kind, subject);
+        }
+
+        while (this.peek() && !this.isFrameKeyword(this.peek())) {
+            const section = this.next();
+            if (section.kind !== 'keyword' || !SECTION_KEYWORDS.has(section.value)) {
+                throw this.error(section, `Unexpected "${section.value}" in ${keyword} frame`);
+            }
+            this.parseSection(kind, subject, section.value);
+        }
+    }
+
+    private parseSection(kind: OwlEntityKind, subject: OwlResource, section: string) {
+        const w = this.writer;
+        const isProperty = kind === 'ObjectProperty' || kind === 'DataProperty' || kind === 'AnnotationProperty';
+
+        switch (section) {
+            case 'Annotations':
+                this.parseAnnotationList().forEach(({ property, value }) => w.add(subject, property, value));
+                return;
+            case 'SubClassOf':
+                this.parseAnnotatedList(() => this.parseDescription()).forEach(value => w.add(subject, w.rdfs('subClassOf'), value));
+                return;
+            case 'EquivalentTo':
+                if (isProperty) {
+                    this.parseAnnotatedList(() => this.parsePropertyExpression()).forEach(value => w.add(subject, w.owl('equivalentProperty'), value));
+                } else {
+                    this.parseAnnotatedList(() => this.parseDescription()).forEach(value => w.add(subject, w.owl('equivalentClass'), value));
+                }
+                return;
+            case 'DisjointWith':
+                if (isProperty) {
+                    this.parseAnnotatedList(() => this.parsePropertyExpression()).forEach(value => w.add(subject, w.owl('propertyDisjointWith'), value));
+                } else {
+                    this.parseAnnotatedList(() => this.parseDescription()).forEach(value => w.add(subject, w.owl('disjointWith'), value));
+                }
+                return;
+            case 'DisjointUnionOf':
+                this.skipAnnotations();
+                w.add(subject, w.owl('disjointUnionOf'), w.list(this.parseList(() => this.parseDescription())));
+                return;
+            case 'HasKey': {
+                this.skipAnnotations();
+                const keys: OwlResource[] = [];
+                while (this.isEntityStart(this.peek()) || this.isName(this.peek(), 'inverse')) {
+                    keys.push(this.parsePropertyExpression());
+                    if (this.isPunct(this.peek(), ',')) {
+                        this.next();
+                    }
+                }
+                w.add(subject, w.owl('hasKey'), w.list(keys));
+                return;
+            }
+            case 'Domain':
+                this.parseAnnotatedList(() => kind === 'AnnotationProperty' ? this.parseIri() : this.parseDescription())
+                    .forEach(value => w.add(subject, w.rdfs('domain'), value));
+                return;
+            case 'Range':
+                this.parseAnnotatedList(() => kind === 'AnnotationProperty' ? this.parseIri() : this.parseDescription())
+                    .forEach(value => w.add(subject, w.rdfs('range'), value));
+                return;
+            case 'Characteristics':
+                this.parseAnnotatedList(() => {
+                    const token = this.next();
+                    const characteristic = CHARACTERISTICS[token.value];
+                    if (!characteristic) {
+                        throw this.error(token, `Unknown property characteristic "${token.value}"`);
+                    }
+                    return w.owl(characteristic);
+                }).forEach(value => w.add(subject, w.rdf('type'), value));
+                return;
+            case 'SubPropertyOf':
+                this.parseAnnotatedList(() => this.parsePropertyExpression()).forEach(value => w.add(subject, w.rdfs('subPropertyOf'), value));
+                return;
+            case 'InverseOf':
+                this.parseAnnotatedList(() => this.parsePropertyExpression()).forEach(value => w.add(subject, w.owl('inverseOf'), value));
+                return;
+            case 'SubPropertyChain': {
+                this.skipAnnotations();
+                const chain = [this.parsePropertyExpression()];
+                while (this.isName(this.peek(), 'o')) {
+                    this.next();
+                    chain.push(this.parsePropertyExpression());
+                }
+                w.add(subject, w.owl('propertyChainAxiom'), w.list(chain));
+                return;
+            }
+            case 'Types':
+                this.parseAnnotatedList(() => this.parseDescription()).forEach(value => w.add(subject, w.rdf('type'), value));
+                return;
+            case 'Facts':
+                this.parseAnnotatedList(() => this.parseFact(subject));
+                return;
+            case 'SameAs':
+                this.parseAnnotatedList(() => this.parseIndividual()).forEach(value => w.add(subject, w.owl('sameAs'), value));
+                return;
+            case 'DifferentFrom':
+                this.parseAnnotatedList(() => this.parseIndividual()).forEach(value => w.add(subject, w.owl('differentFrom'), value));
+                return;
+        }
+    }
+
+    private parseFact(subject: OwlResource): OwlResource {
+        const negated = this.isName(this.peek(), 'not');
+        if (negated) {
+            this.next();
+        }
+
+        const property = this.parseIri();
+        const target = this.parseValue();
+        if (negated) {
+            this.writer.negativeAssertion(property, subject, target);
+        } else {
+            this.writer.add(subject, property, target);
+        }
+        return property;
+    }
+
+    // description := conjunction ('or' conjunction)*
+    private parseDescription(): OwlResource {
+        const operands = [this.parseConjunction()];
+        while (this.isName(this.peek(), 'or')) {
+            this.next();
+            operands.push(this.parseConjunction());
+        }
+        return operands.length === 1 ? operands[0] : this.writer.booleanClass('unionOf', operands);
+    }
+
+    // conjunction := primary (('and' | 'that') primary)*
+    private parseConjunction(): OwlResource {
+        const operands = [this.parsePrimary()];
+        while (this.isName(this.peek(), 'and') || this.isName(this.peek(), 'that')) {
+            this.next();
+            operands.push(this.parsePrimary());
+        }
+        return operands.length === 1 ? operands[0] : this.writer.booleanClass('intersectionOf', operands);
+    }
+
+    private parsePrimary(): OwlResource {
+        if (this.isName(this.peek(), 'not')) {
+            this.next();
+            return this.writer.complementOf(this.parsePrimary());
+        }
+
+        const lookahead = this.peek(1);
+        const startsRestriction = this.isName(this.peek(), 'inverse')
+            || (lookahead?.kind === 'name' && RESTRICTION_KEYWORDS.has(lookahead.value));
+        if (startsRestriction) {
+            return this.parseRestriction();
+        }
+
+        return this.parseAtomic();
+    }
+
+    private parseRestriction(): OwlResource {
+        const propertyToken = this.peek();
+        const property = this.parsePropertyExpression();
+        const isDataProperty = propertyToken?.kind !== 'literal' && this.dataPropertyNames.has(propertyToken?.value ?? '');
+        const quantifier = this.next();
+        const kind = quantifier.value as RestrictionKind;
+
+        switch (quantifier.value) {
+            case 'some':
+            case 'only':
+                return this.writer.restriction(kind, property, this.parsePrimary(), undefined, isDataProperty);
+            case 'value':
+                return this.writer.restriction(kind, property, this.parseValue(), undefined, isDataProperty);
+            case 'Self':
+                return this.writer.restriction('self', property);
+            case 'min':
+            case 'max':
+            case 'exactly': {
+                const countToken = this.next();
+                if (countToken.kind !== 'number' || !/^\d+$/.test(countToken.value)) {
+                    throw this.error(countToken, 'Expected a non-negative cardinality');
+                }
+                const filler = this.startsPrimary(this.peek()) ? this.parsePrimary() : undefined;
+                return this.writer.restriction(kind, property, filler, Number(countToken.value), isDataProperty);
+            }
+            default:
+                throw this.error(quantifier, `Unexpected "${quantifier.value}" in restriction`);
+        }
+    }
+
+    private parseAtomic(): OwlResource {
+        const token = this.peek();
+        if (!token) {
+            throw new Error('Unexpected end of Manchester Syntax document');
+        }
+
+        if (this.isPunct(token, '(')) {
+            this.next();
+            const inner = this.parseDescription();
+            this.expectPunct(')');
+            return inner;
+        }
+
+        if (this.isPunct(token, '{')) {
+            this.next();
+            const members: OwlValue[] = [];
+            let hasLiterals = false;
+            while (!this.isPunct(this.peek(), '}')) {
+                const member = this.parseValue();
+                hasLiterals = hasLiterals || member.termType === 'Literal';
+                members.push(member);
+                if (this.isPunct(this.peek(), ',')) {
+                    this.next();
+                }
+            }
+            this.expectPunct('}');
+            return this.writer.oneOf(members, hasLiterals);
+        }
+
+        const named = this.parseIri();
+        if (this.isPunct(this.peek(), '[')) {
+            return this.parseFacets(named);
+        }
+        return named;
+    }
+
+    private parseFacets(datatype: NamedNode): OwlResource {
+        this.expectPunct('[');
+        const facets: Array<{ facet: NamedNode; value: Literal }> = [];
+        while (!this.isPunct(this.peek(), ']')) {
+            const facetToken = this.next();
+            const facet = FACETS[facetToken.value];
+            if (!facet) {
+                throw this.error(facetToken, `Unknown facet "${facetToken.value}"`);
+            }
+            const value = this.parseValue();
+            if (value.termType !== 'Literal') {
+                throw this.error(facetToken, 'Facet values must be literals');
+            }
+            facets.push({ facet: this.writer.iri(`${XSD_NS}${facet}`), value });
+            if (this.isPunct(this.peek(), ',')) {
+                this.next();
+            }
+        }
+        this.expectPunct(']');
+        return this.writer.datatypeRestriction(datatype, facets);
+    }
+
+    private parsePropertyExpression(): OwlResource {
+        if (this.isName(this.peek(), 'inverse')) {
+            this.next();
+            if (this.isPunct(this.peek(), '(')) {
+                this.next();
+                const inner = this.parseIri();
+                this.expectPunct(')');
+                return this.writer.inverseOf(inner);
+            }
+            return this.writer.inverseOf(this.parseIri());
+        }
+        return this.parseIri();
+    }
+
+    private parseIndividual(): OwlResource {
+        const token = this.peek();
+        if (token && token.kind === 'name' && token.value.startsWith('_:')) {
+            this.next();
+            return this.writer.blank(token.value.substring(2));
+        }
+        return this.parseIri();
+    }
+
+    private parseValue(): OwlValue {
+        const token = this.peek();
+        if (!token) {
+            throw new Error('Unexpected end of Manchester Syntax document');
+        }
+
+        if (token.kind === 'literal') {
+            this.next();
+            if (token.language) {
+                return this.writer.literal(token.value, token.language);
+            }
+            if (token.datatype) {
+                return this.writer.literal(token.value, this.writer.iri(this.expandName(token.datatype, token)));
+            }
+            return this.writer.literal(token.value);
+        }
+
+        if (token.kind === 'number') {
+            this.next();
+            const datatype = /[fF]$/.test(token.value) ? 'float' : /[.eE]/.test(token.value) ? 'decimal' : 'integer';
+            const lexical = datatype === 'float' ? token.value.slice(0, -1) : token.value;
+            return this.writer.literal(lexical, this.writer.iri(`${XSD_NS}${datatype}`));
+        }
+
+        if (token.kind === 'name' && (token.value === 'true' || token.value === 'false')) {
+            this.next();
+            return this.writer.literal(token.value, this.writer.iri(`${XSD_NS}boolean`));
+        }
+
+        return this.parseIndividual();
+    }
+
+    private parseIri(): NamedNode {
+        const token = this.next();
+        if (token.kind === 'iri') {
+            return this.writer.iri(resolveIri(token.value, this.baseIRI));
+        }
+        if (token.kind === 'name') {
+            return this.writer.iri(this.expandName(token.value, token));
+        }
+        throw this.error(token, `Expected an entity name but found "${token.value}"`);
+    }
+
+    private expandName(name: string, token: ManchesterToken): string {
+        if (name.startsWith('<') && name.endsWith('>')) {
+            return resolveIri(name.slice(1, -1), this.baseIRI);
+        }
+        const separator = name.indexOf(':');
+        const prefix = separator < 0 ? '' : name.substring(0, separator);
+        const namespace = this.prefixes.get(prefix);
+        if (namespace === undefined) {
+            throw this.error(token, `Undeclared prefix "${prefix}:"`);
+        }
+        return namespace + name.substring(separator + 1);
+    }
+
+    private parseAnnotationList(): Array<{ property: NamedNode; value: OwlValue }> {
+        return this.parseList(() => {
+            this.skipAnnotations();
+            return { property: this.parseIri(), value: this.parseValue() };
+        });
+    }
+
+    private parseAnnotatedList<T>(parseItem: () => T): T[] {
+        return this.parseList(() => {
+            this.skipAnnotations();
+            return parseItem();
+        });
+    }
+
+    private parseList<T>(parseItem: () => T): T[] {
+        const items = [parseItem()];
+        while (this.isPunct(this.peek(), ',')) {
+            this.next();
+            items.push(parseItem());
+        }
+        return items;
+    }
+
+    // Axiom annotations have no node in the graph, so they are parsed and dropped
+    private skipAnnotations() {
+        if (this.peek()?.kind === 'keyword' && this.peek()?.value === 'Annotations') {
+            this.next();
+            this.parseAnnotationList();
+        }
+    }
+
+    private startsPrimary(token: ManchesterToken | undefined): boolean {
+        if (!token) {
+            return false;
+        }
+        if (token.kind === 'punct') {
+            return token.value === '(' || token.value === '{';
+        }
+        if (token.kind === 'name') {
+            return !['and', 'or', 'that', 'o'].includes(token.value);
+        }
+        return token.kind === 'iri';
+    }
+
+    private isEntityStart(token: ManchesterToken | undefined): boolean {
+        return Boolean(token) && (token!.kind === 'iri' || token!.kind === 'name');
+    }
+
+    private isFrameKeyword(token: ManchesterToken | undefined): boolean {
+        return Boolean(token) && token!.kind === 'keyword' && FRAME_KEYWORDS.has(token!.value);
+    }
+
+    private isName(token: ManchesterToken | undefined, value: string): boolean {
+        return Boolean(token) && token!.kind === 'name' && token!.value === value;
+    }
+
+    private isPunct(token: ManchesterToken | undefined, value: string): boolean {
+        return Boolean(token) && token!.kind === 'punct' && token!.value === value;
+    }
+
+    private expectPunct(value: string) {
+        const token = this.next();
+        if (token.kind !== 'punct' || token.value !== value) {
+            throw this.error(token, `Expected "${value}" but found "${token.value}"`);
+        }
+    }
+
+    private peek(offset: number = 0): ManchesterToken | undefined {
+        return this.tokens[this.position + offset];
+    }
+
+    private next(): ManchesterToken {
+        const token = this.tokens[this.position++];
+        if (!token) {
+            throw new Error('Unexpected end of Manchester Syntax document');
+        }
+        return token;
+    }
+
+    private error(token: ManchesterToken, message: string): Error {
+        return new Error(`${message} on line ${token.line}.`);
+    }
+}
+
+const LANGUAGE_TAG = /@[a-zA-Z]+(?:-[a-zA-Z0-9]+)*/y;
+const DATATYPE = /<[^>]*>|[^\s()[\]{},<>"]+/y;
+const NUMBER = /[+-]?(?:\d+\.\d*(?:[eE][+-]?\d+)?[fF]?|\d+(?:[eE][+-]?\d+)?[fF]?|\.\d+(?:[eE][+-]?\d+)?[fF]?)(?![^\s()[\]{},])/y;
+const FACET_OPERATOR = /<=|>=|<|>/y;
+const WORD = /[^\s()[\]{},<>"]+/y;
+
+function matchAt(pattern: RegExp, content: string, index: number): string | null {
+    pattern.lastIndex = index;
+    const match = pattern.exec(content);
+    return match ? match[0] : null;
+}
+
+function tokenize(content: string): ManchesterToken[] {
+    const tokens: ManchesterToken[] = [];
+    let index = 0;
+    let line = 1;
+
+    while (index < content.length) {
+        const char = content[index];
+
+        if (char === '\n') {
+            line++;
+            index++;
+            continue;
+        }
+        if (/\s/.test(char)) {
+            index++;
+            continue;
+        }
+        if (char === '#') {
+            while (index < content.length && content[index] !== '\n') {
+                index++;
+            }
+            continue;
+        }
+        if ('()[]{},'.includes(char)) {
+            tokens.push({ kind: 'punct', value: char, line });
+            index++;
+            continue;
+        }
+        if (char === '<' || char === '>') {
+            // "<" followed by whitespace, "=" or a digit is a facet operator rather than an IRI
+            const operator = matchAt(FACET_OPERATOR, content, index)!;
+            const following = content[index + operator.length] ?? ' ';
+            if (char === '>' || operator === '<=' || /[\s\d+-]/.test(following)) {
+                tokens.push({ kind: 'name', value: operator, line });
+                index += operator.length;
+                continue;
+            }
+            const end = content.indexOf('>', index);
+            if (end < 0) {
+                throw new Error(`Unterminated IRI on line ${line}.`);
+            }
+            tokens.push({ kind: 'iri', value: content.substring(index + 1, end), line });
+            index = end + 1;
+            continue;
+        }
+        if (char === '"') {
+            const startLine = line;
+            let end = index + 1;
+            while (end < content.length && content[end] !== '"') {
+                if (content[end] === '\\') {
+                    end++;
+                }
+                if (content[end] === '\n') {
+                    line++;
+                }
+                end++;
+            }
+            if (end >= content.length) {
+                throw new Error(`Unterminated literal on line ${startLine}.`);
+            }
+            const token: ManchesterToken = { kind: 'literal', value: unescapeLiteral(content.substring(index + 1, end)), line: startLine };
+            index = end + 1;
+            if (content[index] === '@') {
+                const match = matchAt(LANGUAGE_TAG, content, index);
+                if (match) {
+                    token.language = match.substring(1);
+                    index += match.length;
+                }
+            } else if (content.startsWith('^^', index)) {
+                index += 2;
+                const match = matchAt(DATATYPE, content, index);
+                if (match) {
+                    token.datatype = match;
+                    index += match.length;
+                }
+            }
+            tokens.push(token);
+            continue;
+        }
+
+        const number = matchAt(NUMBER, content, index);
+        if (number) {
+            tokens.push({ kind: 'number', value: number, line });
+            index += number.length;
+            continue;
+        }
+
+        const word = matchAt(WORD, content, index) ?? char;
+        index += word.length;
+
+        // "Class:" followed by whitespace is a keyword; "ex:Class" or "ex:" are names
+        const keyword = word.endsWith(':') ? word.slice(0, -1) : '';
+        const isKeyword = (FRAME_KEYWORDS.has(keyword) || SECTION_KEYWORDS.has(keyword))
+            && (index >= content.length || /\s/.test(content[index]));
+        tokens.push({ kind: isKeyword ? 'keyword' : 'name', value: isKeyword ? keyword : word, line });
+    }
+
+    return tokens;
+}
@@ -0,0 +1,94 @@
+import type { ImportResolver } from './importResolver';
+import type { OntologyData } from './owlParser';
+
+export interface UpdateOptions {
+    // Live edits and changes on disk update quietly; the visualize command reveals the panel and reports errors
+    isAutoUpdate: boolean;
+    forceReveal?: boolean;
+    shouldSplitRight?: boolean;
+}
+
+// The editor side of an update, supplied by extension.ts so this module runs without VS Code
+export interface OntologyUpdateHost {
+    // The ontology text, unsaved edits included
+    readSource(): string;
+    createImportResolver(): ImportResolver | undefined;
+    parse(text: string, importResolver: ImportResolver | undefined): Promise<OntologyData>;
+    isVisible(): boolean;
+    showGraph(data: OntologyData, text: string, options: UpdateOptions): void;
+    // The panel keeps its last good graph and reports the error next to it
+    showError(error: unknown, text: string, options: UpdateOptions): void;
+    clearDiagnostics(): void;
+}
+
+/**
+ * Parses one visualized ontology file. Bursts of edits are debounced into one parse, a parse
+ * overtaken by a newer one is dropped, and the import resolver with its index of the workspace's
+ * ontology files is reused until the file changes on disk.
+ */
+export class OntologyUpdater {
+    private updateTimer: NodeJS.Timeout | undefined;
+    // Incremented per update so a slow parse of older text cannot overwrite a newer graph
+    private updateGeneration = 0;
+    private importResolver: ImportResolver | undefined;
+    private hasShownGraph = false;
+
+    constructor(private readonly host: OntologyUpdateHost) {}
+
+    // Resolves to whether the graph was shown
+    public async update(options: UpdateOptions): Promise<boolean> {
+        const generation = ++this.updateGeneration;
+        let text = '';
+        try {
+            text = this.host.readSource();
+            if (!this.importResolver) {
+                this.importResolver = this.host.createImportResolver();
+            }
+            const data = await this.host.parse(text, this.importResolver);
+            if (generation !== this.updateGeneration) {
+                return false;
+            }
+            this.host.showGraph(data, text, options);
+            this.hasShownGraph = true;
+            return true;
+        } catch (error) {
+            console.error('Error parsing OWL file:', error);
+            if (generation !== this.updateGeneration) {
+                return false;
+            }
+            this.host.showError(error, text, options);
+            return false;
+        }
+    }
+
+    public scheduleUpdate(delay: number) {
+        this.cancelScheduledUpdate();
+        this.updateTimer = setTimeout(() => {
+            this.updateTimer = undefined;
+            if (this.host.isVisible()) {
+                void this.update({ isAutoUpdate: true });
+            }
+        }, delay);
+    }
+
+    // The next parse indexes the workspace's ontology files again
+    public invalidateImports() {
+        this.importResolver = undefined;
+    }
+
+    // Closing the panel clears the file's diagnostics; when the file never parsed there was no panel
+    // to close, so the parse error stays in the Problems panel until the file is visualized again
+    public dispose() {
+        this.cancelScheduledUpdate();
+        if (this.hasShownGraph) {
+            this.host.clearDiagnostics();
+        }
+    }
+
+    private cancelScheduledUpdate() {
+        if (this.updateTimer) {
+            clearTimeout(this.updateTimer);
+            this.updateTimer = undefined;
+        }
+    }
+}
@@ -1,11 +1,83 @@
-import { Parser, Store, Quad, NamedNode, Term, Literal } from 'n3';
+import { Parser, Store, Quad, NamedNode, BlankNode, Term, Literal, DataFactory } from 'n3';
+import { parseRdfXml } from './rdfXmlParser';
+import { parseJsonLd } from './jsonLdParser';
+import { parseFunctionalSyntax } from './functionalSyntaxParser';
+import { parseManchesterSyntax } from './manchesterSyntaxParser';
+import { RdfFormat, ParsedDocument, detectFormat } from './rdfFormat';
+import { ImportResolver } from './importResolver';
+import { SourcePosition, locateDefinitions } from './sourceLocator';
+import { pathToFileURL } from 'url';
+import { NodeLabels, LABEL_PROPERTIES, DEFAULT_LABEL_PROPERTIES, selectLabel } from './labels';
+
+export { NodeLabels, LABEL_PROPERTIES, DEFAULT_LABEL_PROPERTIES, selectLabel };
+
+// Annotation properties recognised without an owl:AnnotationProperty declaration
+const ANNOTATION_PROPERTIES = new Set([
+    'http://www.w3.org/2000/01/rdf-schema#comment',
+    'http://www.w3.org/2000/01/rdf-schema#seeAlso',
+    'http://www.w3.org/2000/01/rdf-schema#isDefinedBy',
+    'http://www.w3.org/2002/07/owl#deprecated',
+    'http://www.w3.org/2002/07/owl#versionInfo',
+    'http://www.w3.org/2002/07/owl#priorVersion',
+    'http://www.w3.org/2002/07/owl#backwardCompatibleWith',
+    'http://www.w3.org/2002/07/owl#incompatibleWith',
+    'http://www.w3.org/2004/02/skos/core#definition',
+    'http://www.w3.org/2004/02/skos/core#note',
+    'http://www.w3.org/2004/02/skos/core#scopeNote',
+    'http://www.w3.org/2004/02/skos/core#example',
+    'http://www.w3.org/2004/02/skos/core#historyNote',
+    'http://www.w3.org/2004/02/skos/core#editorialNote',
+    'http://www.w3.org/2004/02/skos/core#changeNote',
+    'http://www.w3.org/2004/02/skos/core#hiddenLabel',
+    'http://www.w3.org/2004/02/skos/core#notation'
+]);
+const ANNOTATION_NAMESPACES = ['http://purl.org/dc/terms/', 'http://purl.org/dc/elements/1.1/'];
+
+// Datatypes outside the xsd: namespace that need no rdfs:Datatype declaration
+const BUILT_IN_DATATYPES = new Set([
+    'http://www.w3.org/2000/01/rdf-schema#Literal',
+    'http://www.w3.org/1999/02/22-rdf-syntax-ns#PlainLiteral',
+    'http://www.w3.org/1999/02/22-rdf-syntax-ns#langString',
+    'http://www.w3.org/1999/02/22-rdf-syntax-ns#XMLLiteral',
+    'http://www.w3.org/2002/07/owl#real',
+    'http://www.w3.org/2002/07/owl#rational'
+]);
+
+export interface NodeAnnotation {
+    property: string;
+    // Label or prefixed name of the annotation property
+    propertyLabel: string;
+    value: string;
+    language?: string;
+    // Prefixed datatype, omitted for plain and language-tagged strings
+    datatype?: string;
+    // The value is an IRI rather than a literal
+    isIri?: boolean;
+}
+
+export interface NodeSource extends SourcePosition {
+    // Set when the definition lives in an imported document rather than the parsed one
+    fileName?: string;
+}
+
+export type PropertyCharacteristic = 'Functional' | 'InverseFunctional' | 'Transitive' | 'Symmetric' | 'Asymmetric' | 'Reflexive' | 'Irreflexive';
 
 export interface OntologyNode {
     id: string;
     label: string;
-    type: 'class' | 'property' | 'individual' | 'ontology' | 'skosConcept' | 'skosConceptScheme' | 'literal';
+    type: 'class' | 'property' | 'individual' | 'ontology' | 'skosConcept' | 'skosConceptScheme' | 'skosCollection' | 'literal' | 'datatype' | 'expression' | 'axiomGroup';
     uri?: string;
     bidirectional?: boolean;
+    graphs?: string[];
+    importedFrom?: string;
+    propertyKind?: 'object' | 'data' | 'annotation';
+    characteristics?: PropertyCharacteristic[];
+    // Each chain lists property node ids, e.g. [hasParent, hasBrother] for hasUncle
+    propertyChains?: string[][];
+    ordered?: boolean;
+    labels?: NodeLabels;
+    annotations?: NodeAnnotation[];
+    source?: NodeSource;
 }
 
 export interface OntologyEdge {
@@ -13,8 +85,11 @@ export interface OntologyEdge {
     source: string;
     target: string;
     label: string;
-    type: 'subClassOf' | 'subPropertyOf' | 'type' | 'domain' | 'range' | 'skosInScheme' | 'propertyAssertion' | 'dataAssertion' | 'other';
+    type: 'subClassOf' | 'subPropertyOf' | 'type' | 'domain' | 'range' | 'skosInScheme' | 'propertyAssertion' | 'dataAssertion' | 'restriction' | 'operand'
+        | 'skosBroader' | 'skosRelated' | 'skosTopConcept' | 'skosMapping' | 'skosMember'
+        | 'equivalentClass' | 'disjointWith' | 'equivalentProperty' | 'propertyDisjointWith' | 'sameAs' | 'differentFrom' | 'other';
     bidirectional?: boolean;
+    graph?: string;
 }
 
 export interface OntologyData {
@@ -24,54 +99,270 @@ export interface OntologyData {
         ontologyURI?: string;
         title?: string;
         description?: string;
+        graphs?: string[];
+        imports?: OntologyImport[];
     };
+    prefixes: Record<string, string>;
+    statements: OntologyStatement[];
+}
+
+export interface StatementTerm {
+    // IRI, blank node id (matching the ids of blank-node-derived nodes) or literal value
+    value: string;
+    kind: 'iri' | 'blank' | 'literal';
+    language?: string;
+    // Prefixed datatype, omitted for plain and language-tagged strings
+    datatype?: string;
+}
+
+// A raw triple, so the webview can list what the graph extraction does not model
+export interface OntologyStatement {
+    subject: StatementTerm;
+    predicate: StatementTerm;
+    object: StatementTerm;
+}
+
+export interface OntologyImport {
+    iri: string;
+    ontologyURI?: string;
+    fileName?: string;
+    error?: string;
+}
+
+export interface ParseOptions {
+    baseIRI?: string;
+    fileName?: string;
+    format?: RdfFormat;
+    // When set, owl:imports are followed and merged into the graph
+    importResolver?: ImportResolver;
+    // Preferred label languages, most preferred first; untagged labels come after these
+    labelLanguages?: string[];
+    // Labelling properties from LABEL_PROPERTIES, most preferred first
+    labelProperties?: string[];
+}
+
+/**
+ * A document that could not be parsed. The position is zero-based and only known when the
+ * underlying parser reports it (N3 and the OWL syntaxes: "on line N", RDF/XML: "line:column:").
+ */
+export class OntologyParseError extends Error {
+    readonly line?: number;
+    readonly character?: number;
+
+    constructor(readonly detail: string) {
+        super(`Failed to parse OWL file: ${detail}`);
+        this.name = 'OntologyParseError';
+
+        const lineMatch = /\bon line (\d+)/.exec(detail);
+        const lineColumnMatch = /^(\d+):(\d+):/.exec(detail);
+        if (lineMatch) {
+            this.line = Number(lineMatch[1]) - 1;
+        } else if (lineColumnMatch) {
+            this.line = Number(lineColumnMatch[1]) - 1;
+            this.character = Math.max(Number(lineColumnMatch[2]) - 1, 0);
+        }
+    }
+}
+
+// Shared by the class and the property/individual axiom extraction
+interface AxiomEdgeWriter {
+    addEdge(source: string, target: string, label: string, type: OntologyEdge['type'], graph?: string): void;
+    linkSymmetric(firstId: string | undefined, secondId: string | undefined, type: OntologyEdge['type'], graph?: string): void;
+    // Links the members of an n-ary axiom: a pair gets one symmetric edge, three or more a hub node
+    linkGroup(groupId: string, label: string, memberIds: Array<string | undefined>, type: OntologyEdge['type'], graph?: string): void;
+    nextEdgeId(): number;
 }
 
 export class OWLParser {
     private store: Store;
     private prefixes: Map<string, string>;
+    private importedSubjects = new Map<string, string>();
+    private sources = new Map<string, NodeSource>();
+    private labelLanguages: string[] = [];
+    private labelProperties: string[] = DEFAULT_LABEL_PROPERTIES;
 
     constructor() {
         this.store = new Store();
-        this.prefixes = new Map();
+        this.prefixes = this.createDefaultPrefixes();
+    }
+
+    private createDefaultPrefixes(): Map<string, string> {
+        const prefixes = new Map<string, string>();
         
         // Common OWL/RDF prefixes
-        this.prefixes.set('rdf', 'http://www.w3.org/1999/02/22-rdf-syntax-ns#');
-        this.prefixes.set('rdfs', 'http://www.w3.org/2000/01/rdf-schema#');
-        this.prefixes.set('owl', 'http://www.w3.org/2002/07/owl#');
-        this.prefixes.set('xsd', 'http://www.w3.org/2001/XMLSchema#');
+        prefixes.set('rdf', 'http://www.w3.org/1999/02/22-rdf-syntax-ns#');
+        prefixes.set('rdfs', 'http://www.w3.org/2000/01/rdf-schema#');
+        prefixes.set('owl', 'http://www.w3.org/2002/07/owl#');
+        prefixes.set('xsd', 'http://www.w3.org/2001/XMLSchema#');
+        prefixes.set('xml', 'http://www.w3.org/XML/1998/namespace');
+        return prefixes;
     }
 
-    async parse(owlContent: string): Promise<OntologyData> {
+    async parse(owlContent: string, options: ParseOptions = {}): Promise<OntologyData> {
         try {
             console.log('OWL Parser: Starting to parse content of length:', owlContent.length);
             console.log('OWL Parser: First 200 characters:', owlContent.substring(0, 200));
             
-            // For now, we'll focus on Turtle format since N3 handles it well
-            // If the content looks like RDF/XML, we'll give a helpful error
-            if (owlContent.trim().startsWith('<?xml') || owlContent.includes('<rdf:RDF')) {
-                throw new Error('RDF/XML format detected. Please convert your OWL file to Turtle format (.ttl) for better compatibility. You can use online converters or tools like Protégé to export as Turtle.');
-            }
-            
-            // Parse using N3 (supports Turtle, N-Triples, N-Quads)
-            const parser = new Parser();
-            console.log('OWL Parser: Created N3 parser, attempting to parse...');
-            const quads = parser.parse(owlContent);
+            this.labelLanguages = options.labelLanguages ?? [];
+            this.labelProperties = options.labelProperties ?? DEFAULT_LABEL_PROPERTIES;
+
+            const format = options.format ?? detectFormat(owlContent, options.fileName);
+            console.log('OWL Parser: Using', format, 'format, attempting to parse...');
+            const { quads, prefixes } = await this.parseDocument(owlContent, format, options.baseIRI);
             console.log('OWL Parser: Parsed', quads.length, 'quads');
             
+            // Document prefixes override the defaults so labels follow the author's own naming
+            this.prefixes = this.createDefaultPrefixes();
+            Object.entries(prefixes).forEach(([prefix, namespace]) => {
+                this.prefixes.set(prefix, namespace);
+            });
+            
+            this.sources = locateDefinitions(owlContent, format, Object.fromEntries(this.prefixes), options.baseIRI);
+
             // Clear store and add new quads
             this.store = new Store();
             this.store.addQuads(quads);
             console.log('OWL Parser: Added quads to store, total quads in store:', this.store.size);
             
+            this.importedSubjects = new Map();
+            const imports = options.importResolver
+                ? await this.loadImports(quads, options.importResolver, options.fileName)
+                : [];
+            
             const result = this.extractOntologyData();
+            if (imports.length > 0) {
+                result.metadata.imports = imports;
+            }
             console.log('OWL Parser: Extraction complete. Found', result.nodes.length, 'nodes and', result.edges.length, 'edges');
             
             return result;
         } catch (error) {
             console.error('Error parsing OWL:', error);
-            throw new Error(`Failed to parse OWL file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            throw new OntologyParseError(error instanceof Error ? error.message : 'Unknown error');
+        }
+    }
+
+    private async parseDocument(content: string, format: RdfFormat, baseIRI?: string): Promise<ParsedDocument> {
+        switch (format) {
+            case 'rdfxml':
+                return parseRdfXml(content, baseIRI);
+            case 'jsonld':
+                return parseJsonLd(content, baseIRI);
+            case 'functional':
+                return parseFunctionalSyntax(content, baseIRI);
+            case 'manchester':
+                return parseManchesterSyntax(content, baseIRI);
+            case 'trig':
+                return this.parseWithN3(new Parser({ format: 'TriG', baseIRI }), content);
+            case 'ntriples':
+                return this.parseWithN3(new Parser({ format: 'N-Triples', baseIRI }), content);
+            case 'nquads':
+                return this.parseWithN3(new Parser({ format: 'N-Quads', baseIRI }), content);
+            default:
+                // The permissive N3 parser also accepts N-Triples, N-Quads and TriG content in .ttl files
+                return this.parseWithN3(new Parser({ baseIRI }), content);
+        }
+    }
+
+    private async loadImports(rootQuads: Quad[], resolver: ImportResolver, rootFileName?: string): Promise<OntologyImport[]> {
+        const imports: OntologyImport[] = [];
+        const rootSubjects = new Set(rootQuads.map(quad => quad.subject.value));
+        const visited = new Set(this.getOntologyIris(rootQuads));
+        const pending = this.getImportIris(rootQuads).map(iri => ({ iri, importingFile: rootFileName }));
+
+        while (pending.length > 0) {
+            const { iri, importingFile } = pending.shift()!;
+            if (visited.has(iri)) {
+                continue;
+            }
+            visited.add(iri);
+
+            const document = resolver.resolve(iri, importingFile);
+            if (!document) {
+                console.log('OWL Parser: Could not resolve import', iri);
+                imports.push({ iri, error: 'Not found locally' });
+                continue;
+            }
+            if ('error' in document) {
+                imports.push({ iri, fileName: document.fileName, error: document.error });
+                continue;
+            }
+
+            const baseIRI = pathToFileURL(document.fileName).toString();
+            let parsed: ParsedDocument;
+            let format: RdfFormat;
+            try {
+                format = detectFormat(document.content, document.fileName);
+                parsed = await this.parseDocument(document.content, format, baseIRI);
+            } catch (error) {
+                console.error('OWL Parser: Failed to parse import', iri, error);
+                imports.push({ iri, fileName: document.fileName, error: error instanceof Error ? error.message : String(error) });
+                continue;
+            }
+
+            const ontologyURI = this.getOntologyIris(parsed.quads)[0] ?? iri;
+            visited.add(ontologyURI);
+            const quads = this.relabelBlankNodes(parsed.quads, `import${imports.length + 1}_`);
+            imports.push({ iri, ontologyURI, fileName: document.fileName });
+
+            // Resources the root document talks about stay local even if a module also describes them
+            quads.forEach(quad => {
+                const subject = quad.subject.value;
+                if (!rootSubjects.has(subject) && !this.importedSubjects.has(subject)) {
+                    this.importedSubjects.set(subject, ontologyURI);
+                }
+            });
+            Object.entries(parsed.prefixes).forEach(([prefix, namespace]) => {
+                if (!this.prefixes.has(prefix)) {
+                    this.prefixes.set(prefix, namespace);
+                }
+            });
+            this.store.addQuads(quads);
+
+            const documentPrefixes = { ...Object.fromEntries(this.createDefaultPrefixes()), ...parsed.prefixes };
+            locateDefinitions(document.content, format, documentPrefixes, baseIRI).forEach((position, subject) => {
+                if (!this.sources.has(subject)) {
+                    this.sources.set(subject, { ...position, fileName: document.fileName });
+                }
+            });
+
+            this.getImportIris(parsed.quads).forEach(importIri => {
+                pending.push({ iri: importIri, importingFile: document.fileName });
+            });
         }
+
+        console.log('OWL Parser: Loaded', imports.filter(entry => !entry.error).length, 'of', imports.length, 'imported ontologies');
+        return imports;
+    }
+
+    // Blank node labels are only unique within one document (every writer starts again at _:owl1),
+    // so an import's anonymous expressions must not merge with those of the root or other imports
+    private relabelBlankNodes(quads: Quad[], prefix: string): Quad[] {
+        const relabel = <T extends Term>(term: T): T | BlankNode =>
+            term.termType === 'BlankNode' ? DataFactory.blankNode(`${prefix}${term.value}`) : term;
+        return quads.map(quad => DataFactory.quad(relabel(quad.subject), quad.predicate, relabel(quad.object), relabel(quad.graph)));
+    }
+
+    private getOntologyIris(quads: Quad[]): string[] {
+        return quads
+            .filter(quad => quad.predicate.value === 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type'
+                && quad.object.value === 'http://www.w3.org/2002/07/owl#Ontology'
+                && quad.subject.termType === 'NamedNode')
+            .map(quad => quad.subject.value);
+    }
+
+    private getImportIris(quads: Quad[]): string[] {
+        return quads
+            .filter(quad => quad.predicate.value === 'http://www.w3.org/2002/07/owl#imports' && quad.object.termType === 'NamedNode')
+            .map(quad => quad.object.value);
+    }
+
+    private parseWithN3(parser: Parser, content: string): ParsedDocument {
+        const prefixes: Record<string, string> = {};
+        const quads = parser.parse(content, null, (prefix, namespace) => {
+            prefixes[prefix] = namespace.value;
+        });
+        return { quads, prefixes };
     }
 
     private extractOntologyData(): OntologyData {
@@ -94,7 +385,9 @@ export class OWLParser {
         });
 
         // Extract ontology metadata
-        const ontologyQuads = this.store.getQuads(null, 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type', 'http://www.w3.org/2002/07/owl#Ontology', null);
+        // Imported ontologies are declared in the same store, so keep the root one first
+        const ontologyQuads = this.store.getQuads(null, 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type', 'http://www.w3.org/2002/07/owl#Ontology', null)
+            .sort((a, b) => Number(this.importedSubjects.has(a.subject.value)) - Number(this.importedSubjects.has(b.subject.value)));
         console.log('OWL Parser: Found', ontologyQuads.length, 'ontology declarations');
         
         if (ontologyQuads.length > 0) {
@@ -132,11 +425,11 @@ export class OWLParser {
         subClassQuads.forEach(quad => {
             if (quad.subject.termType === 'NamedNode') {
                 const uri = quad.subject.value;
-                const id = this.getLocalName(uri);
+                const id = uri;
                 if (!nodes.has(id)) {
                     nodes.set(id, {
                         id,
-                        label: this.getLabel(quad.subject) || id,
+                        label: this.getLabel(quad.subject) || this.getPrefixedName(quad.subject.value),
                         type: 'class',
                         uri
                     });
@@ -145,11 +438,11 @@ export class OWLParser {
             
             if (quad.object.termType === 'NamedNode') {
                 const uri = quad.object.value;
-                const id = this.getLocalName(uri);
+                const id = uri;
                 if (!nodes.has(id)) {
                     nodes.set(id, {
                         id,
-                        label: this.getLabel(quad.object) || id,
+                        label: this.getLabel(quad.object) || this.getPrefixedName(quad.object.value),
                         type: 'class',
                         uri
                     });
@@ -164,11 +457,11 @@ export class OWLParser {
             }
             
             const uri = quad.subject.value;
-            const id = this.getLocalName(uri);
+            const id = uri;
             if (!nodes.has(id)) {
                 nodes.set(id, {
                     id,
-                    label: this.getLabel(quad.subject) || id,
+                    label: this.getLabel(quad.subject) || this.getPrefixedName(quad.subject.value),
                     type: 'class',
                     uri
                 });
@@ -196,11 +489,11 @@ export class OWLParser {
                 }
                 
                 const uri = quad.subject.value;
-                const id = this.getLocalName(uri);
+                const id = uri;
                 if (!nodes.has(id)) {
                     nodes.set(id, {
                         id,
-                        label: this.getLabel(quad.subject) || id,
+                        label: this.getLabel(quad.subject) || this.getPrefixedName(quad.subject.value),
                         type: 'property',
                         uri
                     });
@@ -222,11 +515,11 @@ export class OWLParser {
         [...domainQuads, ...rangeQuads].forEach(quad => {
             if (quad.subject.termType === 'NamedNode') {
                 const uri = quad.subject.value;
-                const id = this.getLocalName(uri);
+                const id = uri;
                 if (!nodes.has(id)) {
                     nodes.set(id, {
                         id,
-                        label: this.getLabel(quad.subject) || id,
+                        label: this.getLabel(quad.subject) || this.getPrefixedName(quad.subject.value),
                         type: 'property',
                         uri
                     });
@@ -270,11 +563,11 @@ export class OWLParser {
             }
 
             const canonicalUri = uriList.slice().sort()[0];
-            const canonicalId = this.getLocalName(canonicalUri);
+            const canonicalId = canonicalUri;
             const labelSet = new Set<string>();
 
             uriList.forEach(uri => {
-                const id = this.getLocalName(uri);
+                const id = uri;
                 propertyAliasMap.set(id, canonicalId);
                 propertyUriAliasMap.set(uri, canonicalUri);
 
@@ -282,7 +575,7 @@ export class OWLParser {
                 if (node) {
                     labelSet.add(node.label);
                 } else {
-                    labelSet.add(id);
+                    labelSet.add(this.getPrefixedName(uri));
                 }
             });
 
@@ -317,6 +610,8 @@ export class OWLParser {
         const resolvePropertyId = (id: string) => propertyAliasMap.get(id) || id;
         const resolvePropertyUri = (uri: string) => propertyUriAliasMap.get(uri) || uri;
 
+        this.extractPropertyCharacteristics(nodes, propertyDetails, resolvePropertyId, resolvePropertyUri);
+
         // Extract individuals
         const individualQuads = this.store.getQuads(null, 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type', 'http://www.w3.org/2002/07/owl#NamedIndividual', null);
         console.log('OWL Parser: Found', individualQuads.length, 'named individuals');
@@ -327,11 +622,11 @@ export class OWLParser {
             }
 
             const uri = quad.subject.value;
-            const id = this.getLocalName(uri);
+            const id = uri;
             if (!nodes.has(id)) {
                 nodes.set(id, {
                     id,
-                    label: this.getLabel(quad.subject) || id,
+                    label: this.getLabel(quad.subject) || this.getPrefixedName(quad.subject.value),
                     type: 'individual',
                     uri
                 });
@@ -348,8 +643,8 @@ export class OWLParser {
                 return;
             }
 
-            const sourceId = this.getLocalName(quad.subject.value);
-            const targetId = this.getLocalName(quad.object.value);
+            const sourceId = quad.subject.value;
+            const targetId = quad.object.value;
 
             // Ensure both nodes exist
             this.ensureNode(nodes, sourceId, quad.subject.value, 'class');
@@ -360,7 +655,8 @@ export class OWLParser {
                 source: sourceId,
                 target: targetId,
                 label: 'subClassOf',
-                type: 'subClassOf'
+                type: 'subClassOf',
+                graph: this.getGraphName(quad)
             });
         });
 
@@ -371,8 +667,8 @@ export class OWLParser {
                 return;
             }
 
-            const sourceId = resolvePropertyId(this.getLocalName(quad.subject.value));
-            const targetId = resolvePropertyId(this.getLocalName(quad.object.value));
+            const sourceId = resolvePropertyId(quad.subject.value);
+            const targetId = resolvePropertyId(quad.object.value);
 
             this.ensureNode(nodes, sourceId, resolvePropertyUri(quad.subject.value), 'property');
             this.ensureNode(nodes, targetId, resolvePropertyUri(quad.object.value), 'property');
@@ -382,7 +678,8 @@ export class OWLParser {
                 source: sourceId,
                 target: targetId,
                 label: 'subPropertyOf',
-                type: 'subPropertyOf'
+                type: 'subPropertyOf',
+                graph: this.getGraphName(quad)
             });
         });
 
@@ -392,8 +689,8 @@ export class OWLParser {
                 return;
             }
 
-            const propertyId = resolvePropertyId(this.getLocalName(quad.subject.value));
-            const domainClassId = this.getLocalName(quad.object.value);
+            const propertyId = resolvePropertyId(quad.subject.value);
+            const domainClassId = quad.object.value;
 
             this.ensureNode(nodes, propertyId, resolvePropertyUri(quad.subject.value), 'property');
             this.ensureNode(nodes, domainClassId, quad.object.value, 'class');
@@ -403,7 +700,8 @@ export class OWLParser {
                 source: domainClassId,
                 target: propertyId,
                 label: 'domain',
-                type: 'domain'
+                type: 'domain',
+                graph: this.getGraphName(quad)
             });
         });
 
@@ -414,7 +712,7 @@ export class OWLParser {
                 return;
             }
 
-            const sourceId = resolvePropertyId(this.getLocalName(quad.subject.value));
+            const sourceId = resolvePropertyId(quad.subject.value);
             const targets = this.resolveRangeTargets(quad.object);
 
             if (targets.length === 0 && quad.object.termType === 'NamedNode') {
@@ -422,7 +720,7 @@ export class OWLParser {
             }
 
             targets.forEach(({ node: targetNode, type }) => {
-                const targetId = this.getLocalName(targetNode.value);
+                const targetId = targetNode.value;
                 const edgeKey = `${sourceId}->${targetId}`;
                 if (rangeEdgeKeys.has(edgeKey)) {
                     return;
@@ -437,11 +735,14 @@ export class OWLParser {
                     source: sourceId,
                     target: targetId,
                     label: 'range',
-                    type: 'range'
+                    type: 'range',
+                    graph: this.getGraphName(quad)
                 });
             });
         });
 
+        edgeCounter = this.extractClassAxioms(nodes, edges, edgeCounter, resolvePropertyId);
+        edgeCounter = this.extractPropertyAndIndividualAxioms(nodes, edges, edgeCounter, resolvePropertyId, resolvePropertyUri);
         edgeCounter = this.extractSkosData(nodes, edges, edgeCounter);
 
         // Add connectors from classes to individual instances via rdf:type relationships
@@ -479,8 +780,8 @@ export class OWLParser {
                 return;
             }
 
-            const individualId = this.getLocalName(individualUri);
-            const classId = this.getLocalName(classUri);
+            const individualId = individualUri;
+            const classId = classUri;
 
             const existingNode = nodes.get(individualId);
             if (existingNode && existingNode.type !== 'individual') {
@@ -490,7 +791,7 @@ export class OWLParser {
             if (!nodes.has(individualId)) {
                 nodes.set(individualId, {
                     id: individualId,
-                    label: this.getLabel(quad.subject) || individualId,
+                    label: this.getLabel(quad.subject) || this.getPrefixedName(quad.subject.value),
                     type: 'individual',
                     uri: individualUri
                 });
@@ -499,7 +800,7 @@ export class OWLParser {
                 if (!individualNode.uri) {
                     individualNode.uri = individualUri;
                 }
-                if (!individualNode.label || individualNode.label === individualId) {
+                if (!individualNode.label || individualNode.label === this.getPrefixedName(individualUri)) {
                     const nodeLabel = this.getLabel(quad.subject);
                     if (nodeLabel) {
                         individualNode.label = nodeLabel;
@@ -510,7 +811,7 @@ export class OWLParser {
             if (!nodes.has(classId)) {
                 nodes.set(classId, {
                     id: classId,
-                    label: this.getLabel(quad.object) || classId,
+                    label: this.getLabel(quad.object) || this.getPrefixedName(quad.object.value),
                     type: 'class',
                     uri: classUri
                 });
@@ -529,7 +830,8 @@ export class OWLParser {
                 source: individualId,
                 target: classId,
                 label: 'instanceOf',
-                type: 'type'
+                type: 'type',
+                graph: this.getGraphName(quad)
             });
 
             instanceEdgeCount++;
@@ -556,6 +858,7 @@ export class OWLParser {
             target: string;
             labels: Set<string>;
             bidirectional: boolean;
+            graph?: string;
         }>();
         let objectAssertionCount = 0;
         let dataAssertionCount = 0;
@@ -568,7 +871,7 @@ export class OWLParser {
                     return;
                 }
 
-                const subjectId = this.getLocalName(quad.subject.value);
+                const subjectId = quad.subject.value;
                 if (!individualIds.has(subjectId)) {
                     return;
                 }
@@ -578,7 +881,7 @@ export class OWLParser {
                     return;
                 }
 
-                const propertyId = resolvePropertyId(this.getLocalName(predicateUri));
+                const propertyId = resolvePropertyId(predicateUri);
                 const propertyNode = nodes.get(propertyId);
                 const propertyInfo = propertyDetails.get(predicateUri);
 
@@ -586,7 +889,7 @@ export class OWLParser {
                     return;
                 }
 
-                const edgeLabel = this.getLabel(quad.predicate) || propertyNode?.label || propertyId;
+                const edgeLabel = this.getLabel(quad.predicate) || propertyNode?.label || this.getPrefixedName(predicateUri);
                 const edgeKeyBase = `${subjectId}|${predicateUri}|${quad.object.value}`;
 
                 if (quad.object.termType === 'NamedNode') {
@@ -595,12 +898,12 @@ export class OWLParser {
                     }
                     assertionEdgeKeys.add(edgeKeyBase);
 
-                    const targetId = this.getLocalName(quad.object.value);
+                    const targetId = quad.object.value;
                     if (!nodes.has(targetId)) {
                         const inferredType = this.inferNodeTypeForResource(quad.object as NamedNode);
                         nodes.set(targetId, {
                             id: targetId,
-                            label: this.getLabel(quad.object) || targetId,
+                            label: this.getLabel(quad.object) || this.getPrefixedName(quad.object.value),
                             type: inferredType,
                             uri: quad.object.value
                         });
@@ -623,7 +926,8 @@ export class OWLParser {
                                 source: firstNode,
                                 target: secondNode,
                                 labels: new Set([edgeLabel]),
-                                bidirectional: true
+                                bidirectional: true,
+                                graph: this.getGraphName(quad)
                             };
                             inverseAssertionMap.set(combinedKey, existing);
                         } else {
@@ -637,7 +941,8 @@ export class OWLParser {
                         source: subjectId,
                         target: targetId,
                         label: edgeLabel,
-                        type: 'propertyAssertion'
+                        type: 'propertyAssertion',
+                        graph: this.getGraphName(quad)
                     });
                     objectAssertionCount++;
                 } else if (quad.object.termType === 'Literal') {
@@ -664,7 +969,8 @@ export class OWLParser {
                         source: subjectId,
                         target: literalId,
                         label: edgeLabel,
-                        type: 'dataAssertion'
+                        type: 'dataAssertion',
+                        graph: this.getGraphName(quad)
                     });
                     dataAssertionCount++;
                 }
@@ -678,13 +984,38 @@ export class OWLParser {
                 target: entry.target,
                 label: Array.from(entry.labels).join(' / '),
                 type: 'propertyAssertion',
-                bidirectional: entry.bidirectional
+                bidirectional: entry.bidirectional,
+                graph: entry.graph
             });
             objectAssertionCount++;
         });
 
         console.log('OWL Parser: Added', objectAssertionCount, 'object property assertions and', dataAssertionCount, 'data property assertions for instances');
 
+        this.assignNamedGraphs(nodes, metadata);
+        const annotationProperties = new Set(
+            this.store.getQuads(null, 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type', 'http://www.w3.org/2002/07/owl#AnnotationProperty', null)
+                .map(quad => quad.subject.value)
+        );
+        nodes.forEach(node => {
+            const source = node.uri ? this.importedSubjects.get(node.uri) : undefined;
+            if (source) {
+                node.importedFrom = source;
+            }
+            const labels = node.uri ? this.collectLabels(new NamedNode(node.uri)) : undefined;
+            if (labels) {
+                node.labels = labels;
+            }
+            const nodeSource = node.uri ? this.sources.get(node.uri) : undefined;
+            if (nodeSource) {
+                node.source = nodeSource;
+            }
+            const annotations = node.uri ? this.collectAnnotations(new NamedNode(node.uri), annotationProperties) : [];
+            if (annotations.length > 0) {
+                node.annotations = annotations;
+            }
+        });
+
         console.log('OWL Parser: Final result - nodes:', nodes.size, 'edges:', edges.length);
         console.log('OWL Parser: Node breakdown:', {
             classes: Array.from(nodes.values()).filter(n => n.type === 'class').length,
@@ -698,15 +1029,89 @@ export class OWLParser {
         return {
             nodes: Array.from(nodes.values()),
             edges,
-            metadata
+            metadata,
+            prefixes: Object.fromEntries(this.prefixes),
+            statements: this.collectStatements()
         };
     }
 
+    private collectStatements(): OntologyStatement[] {
+        const statements: OntologyStatement[] = [];
+        // The same triple may sit in several named graphs; list it once
+        const seen = new Set<string>();
+        this.store.getQuads(null, null, null, null).forEach(quad => {
+            const key = `${quad.subject.id} ${quad.predicate.id} ${quad.object.id}`;
+            if (seen.has(key)) {
+                return;
+            }
+            seen.add(key);
+            statements.push({
+                subject: this.toStatementTerm(quad.subject),
+                predicate: this.toStatementTerm(quad.predicate),
+                object: this.toStatementTerm(quad.object)
+            });
+        });
+        return statements;
+    }
+
+    private toStatementTerm(term: Term): StatementTerm {
+        if (term.termType === 'BlankNode') {
+            return { value: `_:${term.value}`, kind: 'blank' };
+        }
+        if (term.termType !== 'Literal') {
+            return { value: term.value, kind: 'iri' };
+        }
+
+        const literal = term as Literal;
+        const statementTerm: StatementTerm = { value: literal.value, kind: 'literal' };
+        if (literal.language) {
+            statementTerm.language = literal.language;
+        } else if (literal.datatype.value !== 'http://www.w3.org/2001/XMLSchema#string'
+            && literal.datatype.value !== 'http://www.w3.org/1999/02/22-rdf-syntax-ns#langString') {
+            statementTerm.datatype = this.getPrefixedName(literal.datatype.value);
+        }
+        return statementTerm;
+    }
+
+    private getGraphName(quad: Quad): string | undefined {
+        return quad.graph.termType === 'DefaultGraph' ? undefined : quad.graph.value;
+    }
+
+    private assignNamedGraphs(nodes: Map<string, OntologyNode>, metadata: OntologyData['metadata']) {
+        // Quad formats (N-Quads, TriG, JSON-LD) may spread a resource over several named graphs
+        const graphsBySubject = new Map<string, Set<string>>();
+        const graphNames = new Set<string>();
+
+        this.store.getQuads(null, null, null, null).forEach(quad => {
+            const graphName = this.getGraphName(quad);
+            if (!graphName) {
+                return;
+            }
+            graphNames.add(graphName);
+            if (!graphsBySubject.has(quad.subject.value)) {
+                graphsBySubject.set(quad.subject.value, new Set());
+            }
+            graphsBySubject.get(quad.subject.value)!.add(graphName);
+        });
+
+        if (graphNames.size === 0) {
+            return;
+        }
+
+        metadata.graphs = Array.from(graphNames).sort();
+        nodes.forEach(node => {
+            const graphs = node.uri ? graphsBySubject.get(node.uri) : undefined;
+            if (graphs) {
+                node.graphs = Array.from(graphs).sort();
+            }
+        });
+    }
+
     private ensureNode(nodes: Map<string, OntologyNode>, id: string, uri: string, type: OntologyNode['type']) {
         if (!nodes.has(id)) {
             nodes.set(id, {
                 id,
-                label: this.getLocalName(uri),
+                label: this.getLabel(new NamedNode(uri)) || this.getPrefixedName(uri),
                 type,
                 uri
             });
@@ -717,7 +1122,7 @@ export class OWLParser {
         const results: Array<{ node: NamedNode; type: OntologyNode['type'] }> = [];
 
         if (term.termType === 'NamedNode') {
-            results.push({ node: term, type: 'class' });
+            results.push({ node: term, type: this.isDatatype(term) ? 'datatype' : 'class' });
             return results;
         }
 
@@ -812,11 +1217,351 @@ export class OWLParser {
         return elements;
     }
 
+    private extractClassAxioms(
+        nodes: Map<string, OntologyNode>,
+        edges: OntologyEdge[],
+        edgeCounter: number,
+        resolvePropertyId: (id: string) => string
+    ): number {
+        const OWL = 'http://www.w3.org/2002/07/owl#';
+        const { addEdge, linkSymmetric, linkGroup, nextEdgeId } = this.createAxiomEdgeWriter(nodes, edges, edgeCounter);
+
+        const resolveNamed = (term: NamedNode, type: OntologyNode['type']): string => {
+            this.ensureNode(nodes, term.value, term.value, type);
+            return term.value;
+        };
+
+        // Returns the node standing for a class expression; blank nodes become compact expression nodes
+        const resolveExpression = (term: Term, graph?: string): string | undefined => {
+            if (term.termType === 'NamedNode') {
+                return resolveNamed(term, this.isDatatype(term) ? 'datatype' : 'class');
+            }
+            if (term.termType !== 'BlankNode') {
+                return undefined;
+            }
+
+            const id = `_:${term.value}`;
+            if (nodes.has(id)) {
+                return id;
+            }
+
+            const addExpressionNode = (label: string) => {
+                nodes.set(id, { id, label, type: 'expression' });
+            };
+
+            const restriction = this.describeRestriction(term);
+            if (restriction) {
+                addExpressionNode(restriction.label);
+                if (restriction.filler) {
+                    const fillerId = resolveFiller(restriction.filler, restriction.fillerType, graph);
+                    if (fillerId) {
+                        addEdge(id, fillerId, '', 'operand', graph);
+                    }
+                }
+                return id;
+            }
+
+            for (const [predicate, operator] of [['intersectionOf', 'and'], ['unionOf', 'or']]) {
+                const listQuad = this.store.getQuads(term, `${OWL}${predicate}`, null, null)[0];
+                if (listQuad) {
+                    addExpressionNode(operator);
+                    this.expandRdfList(listQuad.object).forEach(operand => linkExpression(id, operand, '', 'operand', graph));
+                    return id;
+                }
+            }
+
+            const complement = this.store.getQuads(term, `${OWL}complementOf`, null, null)[0]
+                ?? this.store.getQuads(term, `${OWL}datatypeComplementOf`, null, null)[0];
+            if (complement) {
+                addExpressionNode('not');
+                linkExpression(id, complement.object, '', 'operand', graph);
+                return id;
+            }
+
+            const oneOf = this.store.getQuads(term, `${OWL}oneOf`, null, null)[0];
+            if (oneOf) {
+                const members = this.expandRdfList(oneOf.object);
+                const literals = members.filter(member => member.termType === 'Literal').map(member => this.formatInlineValue(member));
+                addExpressionNode(literals.length > 0 ? `one of {${literals.join(', ')}}` : 'one of');
+                members.forEach(member => {
+                    if (member.termType === 'NamedNode') {
+                        addEdge(id, resolveNamed(member, 'individual'), '', 'operand', graph);
+                    }
+                });
+                return id;
+            }
+
+            const onDatatype = this.store.getQuads(term, `${OWL}onDatatype`, null, null)[0];
+            if (onDatatype) {
+                const facets = this.store.getQuads(term, `${OWL}withRestrictions`, null, null)
+                    .flatMap(quad => this.expandRdfList(quad.object))
+                    .flatMap(facet => this.store.getQuads(facet, null, null, null))
+                    .map(quad => `${this.describeFacet(quad.predicate.value)} ${quad.object.value}`);
+                addExpressionNode(`${this.getPrefixedName(onDatatype.object.value)}[${facets.join(', ')}]`);
+                return id;
+            }
+
+            return undefined;
+        };
+
+        const resolveFiller = (filler: Term, type: OntologyNode['type'], graph?: string): string | undefined => {
+            if (filler.termType === 'NamedNode') {
+                return resolveNamed(filler, nodes.get(filler.value)?.type ?? type);
+            }
+            return resolveExpression(filler, graph);
+        };
+
+        // Restrictions with a filler collapse into one labelled edge, e.g. Pizza --hasTopping some--> Topping
+        const linkExpression = (sourceId: string, term: Term, label: string, type: OntologyEdge['type'], graph?: string) => {
+            const restriction = term.termType === 'BlankNode' ? this.describeRestriction(term) : undefined;
+            if (restriction && restriction.filler) {
+                const fillerId = resolveFiller(restriction.filler, restriction.fillerType, graph);
+                if (fillerId) {
+                    addEdge(sourceId, fillerId, restriction.label, 'restriction', graph);
+                    return;
+                }
+            }
+
+            const targetId = resolveExpression(term, graph);
+            if (targetId) {
+                addEdge(sourceId, targetId, label, type, graph);
+            }
+        };
+
+        this.store.getQuads(null, 'http://www.w3.org/2000/01/rdf-schema#subClassOf', null, null).forEach(quad => {
+            if (quad.subject.termType !== 'NamedNode' || quad.object.termType !== 'BlankNode') {
+                return;
+            }
+            linkExpression(resolveNamed(quad.subject, 'class'), quad.object, 'subClassOf', 'subClassOf', this.getGraphName(quad));
+        });
+
+        [['equivalentClass', 'equivalentClass'], ['disjointWith', 'disjointWith']].forEach(([predicate, type]) => {
+            this.store.getQuads(null, `${OWL}${predicate}`, null, null).forEach(quad => {
+                const graph = this.getGraphName(quad);
+                linkSymmetric(resolveExpression(quad.subject, graph), resolveExpression(quad.object, graph), type as OntologyEdge['type'], graph);
+            });
+        });
+
+        this.store.getQuads(null, 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type', `${OWL}AllDisjointClasses`, null).forEach(quad => {
+            const graph = this.getGraphName(quad);
+            const memberIds = this.store.getQuads(quad.subject, `${OWL}members`, null, null)
+                .flatMap(membersQuad => this.expandRdfList(membersQuad.object))
+                .map(member => resolveExpression(member, graph));
+            linkGroup(`_:${quad.subject.value}`, 'disjoint', memberIds, 'disjointWith', graph);
+        });
+
+        this.store.getQuads(null, 'http://www.w3.org/2000/01/rdf-schema#domain', null, null).forEach(quad => {
+            if (quad.subject.termType !== 'NamedNode' || quad.object.termType !== 'BlankNode') {
+                return;
+            }
+            const domainId = resolveExpression(quad.object, this.getGraphName(quad));
+            if (domainId) {
+                addEdge(domainId, resolvePropertyId(quad.subject.value), 'domain', 'domain', this.getGraphName(quad));
+            }
+        });
+
+        this.store.getQuads(null, 'http://www.w3.org/2000/01/rdf-schema#range', null, null).forEach(quad => {
+            // The SKOS inScheme pattern is already drawn as a range edge to the concept scheme
+            if (quad.subject.termType !== 'NamedNode' || quad.object.termType !== 'BlankNode' || this.resolveRangeTargets(quad.object).length > 0) {
+                return;
+            }
+            const rangeId = resolveExpression(quad.object, this.getGraphName(quad));
+            if (rangeId) {
+                addEdge(resolvePropertyId(quad.subject.value), rangeId, 'range', 'range', this.getGraphName(quad));
+            }
+        });
+
+        console.log('OWL Parser: Added', Array.from(nodes.values()).filter(n => n.type === 'expression').length, 'class expression nodes');
+        return nextEdgeId();
+    }
+
+    private extractPropertyAndIndividualAxioms(
+        nodes: Map<string, OntologyNode>,
+        edges: OntologyEdge[],
+        edgeCounter: number,
+        resolvePropertyId: (id: string) => string,
+        resolvePropertyUri: (uri: string) => string
+    ): number {
+        const OWL = 'http://www.w3.org/2002/07/owl#';
+        const RDF_TYPE = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type';
+        const { linkSymmetric, linkGroup, nextEdgeId } = this.createAxiomEdgeWriter(nodes, edges, edgeCounter);
+
+        const resolveMember = (term: Term, type: OntologyNode['type']): string | undefined => {
+            if (term.termType !== 'NamedNode') {
+                return undefined;
+            }
+            if (type === 'property') {
+                const id = resolvePropertyId(term.value);
+                this.ensureNode(nodes, id, resolvePropertyUri(term.value), 'property');
+                return id;
+            }
+            this.ensureNode(nodes, term.value, term.value, type);
+            return term.value;
+        };
+
+        const pairwiseAxioms: Array<[string, OntologyNode['type'], OntologyEdge['type']]> = [
+            ['equivalentProperty', 'property', 'equivalentProperty'],
+            ['propertyDisjointWith', 'property', 'propertyDisjointWith'],
+            ['sameAs', 'individual', 'sameAs'],
+            ['differentFrom', 'individual', 'differentFrom']
+        ];
+        pairwiseAxioms.forEach(([predicate, memberType, type]) => {
+            this.store.getQuads(null, `${OWL}${predicate}`, null, null).forEach(quad => {
+                linkSymmetric(resolveMember(quad.subject, memberType), resolveMember(quad.object, memberType), type, this.getGraphName(quad));
+            });
+        });
+
+        // n-ary axioms become a hub node linked to every member instead of an O(n^2) clique
+        const groupAxioms: Array<[string, string, OntologyNode['type'], OntologyEdge['type']]> = [
+            ['AllDisjointProperties', 'disjoint properties', 'property', 'propertyDisjointWith'],
+            ['AllDifferent', 'all different', 'individual', 'differentFrom']
+        ];
+        groupAxioms.forEach(([groupType, label, memberType, type]) => {
+            this.store.getQuads(null, RDF_TYPE, `${OWL}${groupType}`, null).forEach(quad => {
+                const memberIds = [
+                    ...this.store.getQuads(quad.subject, `${OWL}members`, null, null),
+                    ...this.store.getQuads(quad.subject, `${OWL}distinctMembers`, null, null)
+                ].flatMap(membersQuad => this.expandRdfList(membersQuad.object))
+                    .map(member => resolveMember(member, memberType));
+                linkGroup(`_:${quad.subject.value}`, label, memberIds, type, this.getGraphName(quad));
+            });
+        });
+
+        return nextEdgeId();
+    }
+
+    // Adds each edge once; symmetric axioms are drawn once per pair, whichever way round they were stated
+    private createAxiomEdgeWriter(nodes: Map<string, OntologyNode>, edges: OntologyEdge[], edgeCounter: number): AxiomEdgeWriter {
+        const edgeKeys = new Set<string>();
+        const symmetricKeys = new Set<string>();
+
+        const addEdge = (source: string, target: string, label: string, type: OntologyEdge['type'], graph?: string) => {
+            const key = `${source}|${type}|${label}|${target}`;
+            if (edgeKeys.has(key)) {
+                return;
+            }
+            edgeKeys.add(key);
+            edges.push({ id: `edge_${edgeCounter++}`, source, target, label, type, graph });
+        };
+
+        const linkSymmetric = (firstId: string | undefined, secondId: string | undefined, type: OntologyEdge['type'], graph?: string) => {
+            if (!firstId || !secondId || firstId === secondId) {
+                return;
+            }
+            const key = `${type}|${[firstId, secondId].sort().join('|')}`;
+            if (symmetricKeys.has(key)) {
+                return;
+            }
+            symmetricKeys.add(key);
+            addEdge(firstId, secondId, type, type, graph);
+        };
+
+        // Members that did not resolve are left out; fewer than two leave nothing to draw
+        const linkGroup = (groupId: string, label: string, memberIds: Array<string | undefined>, type: OntologyEdge['type'], graph?: string) => {
+            const members = Array.from(new Set(memberIds.filter((id): id is string => Boolean(id))));
+            if (members.length === 2) {
+                linkSymmetric(members[0], members[1], type, graph);
+                return;
+            }
+            if (members.length < 3) {
+                return;
+            }
+            nodes.set(groupId, { id: groupId, label, type: 'axiomGroup' });
+            members.forEach(memberId => addEdge(groupId, memberId, '', type, graph));
+        };
+
+        return { addEdge, linkSymmetric, linkGroup, nextEdgeId: () => edgeCounter };
+    }
+
+    private describeRestriction(term: Term): { label: string; filler?: Term; fillerType: OntologyNode['type'] } | undefined {
+        const OWL = 'http://www.w3.org/2002/07/owl#';
+        const valueOf = (localName: string) => this.store.getQuads(term, `${OWL}${localName}`, null, null)[0]?.object;
+
+        const property = valueOf('onProperty');
+        if (!property) {
+            return undefined;
+        }
+        const propertyLabel = this.describeProperty(property);
+        // Data restrictions range over datatypes such as xsd:integer rather than classes
+        const isDataRestriction = this.store.getQuads(property, 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type', `${OWL}DatatypeProperty`, null).length > 0;
+        const fillerType = (filler: Term): OntologyNode['type'] => isDataRestriction || this.isDatatype(filler) ? 'datatype' : 'class';
+
+        const someValues = valueOf('someValuesFrom');
+        if (someValues) {
+            return { label: `${propertyLabel} some`, filler: someValues, fillerType: fillerType(someValues) };
+        }
+        const allValues = valueOf('allValuesFrom');
+        if (allValues) {
+            return { label: `${propertyLabel} only`, filler: allValues, fillerType: fillerType(allValues) };
+        }
+        const hasValue = valueOf('hasValue');
+        if (hasValue) {
+            return hasValue.termType === 'Literal'
+                ? { label: `${propertyLabel} value ${this.formatInlineValue(hasValue)}`, fillerType: 'literal' }
+                : { label: `${propertyLabel} value`, filler: hasValue, fillerType: 'individual' };
+        }
+        if (valueOf('hasSelf')) {
+            return { label: `${propertyLabel} Self`, fillerType: 'class' };
+        }
+
+        const cardinalities: Array<[string, string]> = [
+            ['minCardinality', 'min'],
+            ['maxCardinality', 'max'],
+            ['cardinality', 'exactly'],
+            ['minQualifiedCardinality', 'min'],
+            ['maxQualifiedCardinality', 'max'],
+            ['qualifiedCardinality', 'exactly']
+        ];
+        for (const [localName, keyword] of cardinalities) {
+            const count = valueOf(localName);
+            if (count) {
+                const dataRange = valueOf('onDataRange');
+                const filler = valueOf('onClass') ?? dataRange;
+                return { label: `${propertyLabel} ${keyword} ${count.value}`, filler, fillerType: dataRange ? 'datatype' : 'class' };
+            }
+        }
+
+        return { label: `${propertyLabel} restriction`, fillerType: 'class' };
+    }
+
+    private isDatatype(term: Term): boolean {
+        return term.termType === 'NamedNode' && (
+            term.value.startsWith('http://www.w3.org/2001/XMLSchema#')
+            || BUILT_IN_DATATYPES.has(term.value)
+            || this.store.getQuads(term, 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type', 'http://www.w3.org/2000/01/rdf-schema#Datatype', null).length > 0
+        );
+    }
+
+    private describeProperty(property: Term): string {
+        if (property.termType === 'NamedNode') {
+            return this.getLabel(property) || this.getPrefixedName(property.value);
+        }
+
+        const inverse = this.store.getQuads(property, 'http://www.w3.org/2002/07/owl#inverseOf', null, null)[0];
+        return inverse ? `inverse ${this.describeProperty(inverse.object)}` : property.value;
+    }
+
+    private describeFacet(facetUri: string): string {
+        const symbols: Record<string, string> = {
+            minInclusive: '>=',
+            maxInclusive: '<=',
+            minExclusive: '>',
+            maxExclusive: '<'
+        };
+        const localName = this.getLocalName(facetUri);
+        return symbols[localName] ?? localName;
+    }
+
+    private formatInlineValue(term: Term): string {
+        return term.termType === 'Literal' ? `"${term.value}"` : this.getLabel(term) || this.getPrefixedName(term.value);
+    }
+
     private extractSkosData(nodes: Map<string, OntologyNode>, edges: OntologyEdge[], edgeCounter: number): number {
         const RDF_TYPE = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type';
         const SKOS_CONCEPT = 'http://www.w3.org/2004/02/skos/core#Concept';
         const SKOS_CONCEPT_SCHEME = 'http://www.w3.org/2004/02/skos/core#ConceptScheme';
         const SKOS_IN_SCHEME = 'http://www.w3.org/2004/02/skos/core#inScheme';
+        const SKOS = 'http://www.w3.org/2004/02/skos/core#';
 
         const conceptSchemeQuads = this.store.getQuads(null, RDF_TYPE, SKOS_CONCEPT_SCHEME, null);
         conceptSchemeQuads.forEach(quad => {
@@ -825,11 +1570,11 @@ export class OWLParser {
             }
 
             const uri = quad.subject.value;
-            const id = this.getLocalName(uri);
+            const id = uri;
             if (!nodes.has(id)) {
                 nodes.set(id, {
                     id,
-                    label: this.getLabel(quad.subject) || id,
+                    label: this.getLabel(quad.subject) || this.getPrefixedName(quad.subject.value),
                     type: 'skosConceptScheme',
                     uri
                 });
@@ -843,11 +1588,11 @@ export class OWLParser {
             }
 
             const uri = quad.subject.value;
-            const id = this.getLocalName(uri);
+            const id = uri;
             if (!nodes.has(id)) {
                 nodes.set(id, {
                     id,
-                    label: this.getLabel(quad.subject) || id,
+                    label: this.getLabel(quad.subject) || this.getPrefixedName(quad.subject.value),
                     type: 'skosConcept',
                     uri
                 });
@@ -861,8 +1606,8 @@ export class OWLParser {
                 return;
             }
 
-            const conceptId = this.getLocalName(quad.subject.value);
-            const schemeId = this.getLocalName(quad.object.value);
+            const conceptId = quad.subject.value;
+            const schemeId = quad.object.value;
             const edgeKey = `${conceptId}->${schemeId}`;
             if (inSchemeEdgeKeys.has(edgeKey)) {
                 return;
@@ -877,13 +1622,188 @@ export class OWLParser {
                 source: conceptId,
                 target: schemeId,
                 label: 'inScheme',
-                type: 'skosInScheme'
+                type: 'skosInScheme',
+                graph: this.getGraphName(quad)
             });
         });
 
+        const edgeKeys = new Set<string>();
+        const addSkosEdge = (quad: Quad, source: Term, target: Term, label: string, type: OntologyEdge['type'], undirected: boolean = false) => {
+            if (source.termType !== 'NamedNode' || target.termType !== 'NamedNode' || source.value === target.value) {
+                return;
+            }
+            const endpoints = undirected ? [source.value, target.value].sort() : [source.value, target.value];
+            const edgeKey = `${type}|${label}|${endpoints.join('|')}`;
+            if (edgeKeys.has(edgeKey)) {
+                return;
+            }
+            edgeKeys.add(edgeKey);
+
+            this.ensureNode(nodes, source.value, source.value, 'skosConcept');
+            this.ensureNode(nodes, target.value, target.value, type === 'skosTopConcept' ? 'skosConceptScheme' : 'skosConcept');
+            edges.push({
+                id: `edge_${edgeCounter++}`,
+                source: source.value,
+                target: target.value,
+                label,
+                type,
+                graph: this.getGraphName(quad)
+            });
+        };
+        const quadsFor = (localName: string) => this.store.getQuads(null, `${SKOS}${localName}`, null, null);
+
+        // Hierarchy edges always point upwards: narrower concept to broader concept, top concept to scheme
+        quadsFor('broader').forEach(quad => addSkosEdge(quad, quad.subject, quad.object, 'broader', 'skosBroader'));
+        quadsFor('narrower').forEach(quad => addSkosEdge(quad, quad.object, quad.subject, 'broader', 'skosBroader'));
+        const hasDirectBroader = (narrower: Term, broader: Term) => edgeKeys.has(`skosBroader|broader|${narrower.value}|${broader.value}`);
+        quadsFor('broaderTransitive').forEach(quad => {
+            if (!hasDirectBroader(quad.subject, quad.object)) {
+                addSkosEdge(quad, quad.subject, quad.object, 'broaderTransitive', 'skosBroader');
+            }
+        });
+        quadsFor('narrowerTransitive').forEach(quad => {
+            if (!hasDirectBroader(quad.object, quad.subject)) {
+                addSkosEdge(quad, quad.object, quad.subject, 'broaderTransitive', 'skosBroader');
+            }
+        });
+
+        quadsFor('related').forEach(quad => addSkosEdge(quad, quad.subject, quad.object, 'related', 'skosRelated', true));
+
+        quadsFor('topConceptOf').forEach(quad => addSkosEdge(quad, quad.subject, quad.object, 'topConceptOf', 'skosTopConcept'));
+        quadsFor('hasTopConcept').forEach(quad => addSkosEdge(quad, quad.object, quad.subject, 'topConceptOf', 'skosTopConcept'));
+
+        ['exactMatch', 'closeMatch', 'relatedMatch'].forEach(mapping => {
+            quadsFor(mapping).forEach(quad => addSkosEdge(quad, quad.subject, quad.object, mapping, 'skosMapping', true));
+        });
+        quadsFor('broadMatch').forEach(quad => addSkosEdge(quad, quad.subject, quad.object, 'broadMatch', 'skosMapping'));
+        quadsFor('narrowMatch').forEach(quad => addSkosEdge(quad, quad.object, quad.subject, 'broadMatch', 'skosMapping'));
+
+        edgeCounter = this.extractSkosCollections(nodes, edges, edgeCounter);
+
         return edgeCounter;
     }
 
+    private extractSkosCollections(nodes: Map<string, OntologyNode>, edges: OntologyEdge[], edgeCounter: number): number {
+        const RDF_TYPE = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type';
+        const SKOS = 'http://www.w3.org/2004/02/skos/core#';
+
+        const ensureCollection = (term: NamedNode, ordered: boolean) => {
+            this.ensureNode(nodes, term.value, term.value, 'skosCollection');
+            const node = nodes.get(term.value)!;
+            if (ordered) {
+                node.ordered = true;
+            }
+        };
+
+        ['Collection', 'OrderedCollection'].forEach(typeName => {
+            this.store.getQuads(null, RDF_TYPE, `${SKOS}${typeName}`, null).forEach(quad => {
+                if (quad.subject.termType === 'NamedNode') {
+                    ensureCollection(quad.subject, typeName === 'OrderedCollection');
+                }
+            });
+        });
+
+        const listedMembers = new Set<string>();
+        const addMember = (quad: Quad, member: Term, label: string, ordered: boolean) => {
+            const memberKey = `${quad.subject.value}|${member.value}`;
+            if (quad.subject.termType !== 'NamedNode' || member.termType !== 'NamedNode' || listedMembers.has(memberKey)) {
+                return;
+            }
+            listedMembers.add(memberKey);
+            ensureCollection(quad.subject, ordered);
+            this.ensureNode(nodes, member.value, member.value, 'skosConcept');
+            edges.push({
+                id: `edge_${edgeCounter++}`,
+                source: quad.subject.value,
+                target: member.value,
+                label,
+                type: 'skosMember',
+                graph: this.getGraphName(quad)
+            });
+        };
+
+        // Ordered collections number their members so the order survives the layout; a plain
+        // skos:member statement for an already listed member adds nothing
+        this.store.getQuads(null, `${SKOS}memberList`, null, null).forEach(quad => {
+            this.expandRdfList(quad.object).forEach((member, index) => addMember(quad, member, String(index + 1), true));
+        });
+        this.store.getQuads(null, `${SKOS}member`, null, null).forEach(quad => addMember(quad, quad.object, 'member', false));
+
+        return edgeCounter;
+    }
+
+    private extractPropertyCharacteristics(
+        nodes: Map<string, OntologyNode>,
+        propertyDetails: Map<string, { id: string; kind: 'object' | 'data' | 'annotation' | 'unknown' }>,
+        resolvePropertyId: (id: string) => string,
+        resolvePropertyUri: (uri: string) => string
+    ) {
+        const OWL = 'http://www.w3.org/2002/07/owl#';
+        const characteristicTypes: Array<[string, PropertyCharacteristic]> = [
+            ['FunctionalProperty', 'Functional'],
+            ['InverseFunctionalProperty', 'InverseFunctional'],
+            ['TransitiveProperty', 'Transitive'],
+            ['SymmetricProperty', 'Symmetric'],
+            ['AsymmetricProperty', 'Asymmetric'],
+            ['ReflexiveProperty', 'Reflexive'],
+            ['IrreflexiveProperty', 'Irreflexive']
+        ];
+        // A merged inverse pair is drawn as one node, so state the characteristics of the other direction
+        const inverted: Partial<Record<PropertyCharacteristic, PropertyCharacteristic>> = {
+            Functional: 'InverseFunctional',
+            InverseFunctional: 'Functional'
+        };
+
+        characteristicTypes.forEach(([typeName, characteristic]) => {
+            this.store.getQuads(null, 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type', `${OWL}${typeName}`, null).forEach(quad => {
+                if (quad.subject.termType !== 'NamedNode') {
+                    return;
+                }
+
+                const uri = quad.subject.value;
+                const id = resolvePropertyId(uri);
+                this.ensureNode(nodes, id, resolvePropertyUri(uri), 'property');
+                if (!propertyDetails.has(uri)) {
+                    // Everything except functionality is only defined for object properties
+                    propertyDetails.set(uri, { id, kind: characteristic === 'Functional' ? 'unknown' : 'object' });
+                }
+
+                const node = nodes.get(id)!;
+                const stated = id === uri ? characteristic : (inverted[characteristic] ?? characteristic);
+                node.characteristics = Array.from(new Set([...(node.characteristics ?? []), stated]));
+            });
+        });
+
+        propertyDetails.forEach(detail => {
+            const node = nodes.get(detail.id);
+            if (node && node.type === 'property' && detail.kind !== 'unknown' && !node.propertyKind) {
+                node.propertyKind = detail.kind;
+            }
+        });
+
+        this.store.getQuads(null, `${OWL}propertyChainAxiom`, null, null).forEach(quad => {
+            if (quad.subject.termType !== 'NamedNode') {
+                return;
+            }
+
+            const chain = this.expandRdfList(quad.object)
+                .filter(link => link.termType === 'NamedNode')
+                .map(link => {
+                    const linkId = resolvePropertyId(link.value);
+                    this.ensureNode(nodes, linkId, resolvePropertyUri(link.value), 'property');
+                    return linkId;
+                });
+            if (chain.length === 0) {
+                return;
+            }
+
+            const id = resolvePropertyId(quad.subject.value);
+            this.ensureNode(nodes, id, resolvePropertyUri(quad.subject.value), 'property');
+            const node = nodes.get(id)!;
+            node.propertyChains = [...(node.propertyChains ?? []), chain];
+        });
+    }
+
     private classifyPropertyKind(propertyType: string): 'object' | 'data' | 'annotation' | 'unknown' {
         if (propertyType === 'http://www.w3.org/2002/07/owl#ObjectProperty') {
             return 'object';
@@ -966,16 +1886,95 @@ export class OWLParser {
         return uri;
     }
 
+    private getPrefixedName(uri: string): string {
+        // Prefer the longest matching namespace, but only when the remainder is a plain local name
+        let bestPrefix: string | undefined;
+        let bestNamespace = '';
+        this.prefixes.forEach((namespace, prefix) => {
+            if (!namespace || namespace.length <= bestNamespace.length || !uri.startsWith(namespace)) {
+                return;
+            }
+            const localName = uri.substring(namespace.length);
+            if (localName.length > 0 && !/[/#]/.test(localName)) {
+                bestPrefix = prefix;
+                bestNamespace = namespace;
+            }
+        });
+
+        if (bestPrefix === undefined) {
+            return this.getLocalName(uri);
+        }
+        return `${bestPrefix}:${uri.substring(bestNamespace.length)}`;
+    }
+
     private getLabel(subject: Term): string | null {
         // Only try to get labels for NamedNodes, not BlankNodes
         if (subject.termType !== 'NamedNode') {
             return null;
         }
         
-        const labelQuads = this.store.getQuads(subject as NamedNode, 'http://www.w3.org/2000/01/rdf-schema#label', null, null);
-        if (labelQuads.length > 0) {
-            return labelQuads[0].object.value;
-        }
-        return null;
+        const labels = this.collectLabels(subject as NamedNode);
+        return labels ? selectLabel(labels, this.labelLanguages, this.labelProperties) ?? null : null;
+    }
+
+    private collectAnnotations(subject: NamedNode, declaredProperties: Set<string>): NodeAnnotation[] {
+        const XSD_STRING = 'http://www.w3.org/2001/XMLSchema#string';
+        const RDF_LANG_STRING = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#langString';
+        const labelProperties = new Set(Object.values(LABEL_PROPERTIES));
+        const isAnnotationProperty = (predicate: string) => !labelProperties.has(predicate) && (
+            ANNOTATION_PROPERTIES.has(predicate)
+            || declaredProperties.has(predicate)
+            || ANNOTATION_NAMESPACES.some(namespace => predicate.startsWith(namespace))
+        );
+
+        const annotations: NodeAnnotation[] = [];
+        const seen = new Set<string>();
+        this.store.getQuads(subject, null, null, null).forEach(quad => {
+            const predicate = quad.predicate.value;
+            if (!isAnnotationProperty(predicate) || quad.object.termType === 'BlankNode') {
+                return;
+            }
+
+            const key = `${predicate}|${quad.object.id}`;
+            if (seen.has(key)) {
+                return;
+            }
+            seen.add(key);
+
+            const annotation: NodeAnnotation = {
+                property: predicate,
+                propertyLabel: this.getLabel(quad.predicate) || this.getPrefixedName(predicate),
+                value: quad.object.value
+            };
+            if (quad.object.termType === 'Literal') {
+                const literal = quad.object as Literal;
+                if (literal.language) {
+                    annotation.language = literal.language;
+                } else if (literal.datatype.value !== XSD_STRING && literal.datatype.value !== RDF_LANG_STRING) {
+                    annotation.datatype = this.getPrefixedName(literal.datatype.value);
+                }
+            } else {
+                annotation.isIri = true;
+            }
+            annotations.push(annotation);
+        });
+        return annotations;
+    }
+
+    private collectLabels(subject: NamedNode): NodeLabels | undefined {
+        const labels: NodeLabels = {};
+        Object.entries(LABEL_PROPERTIES).forEach(([property, propertyUri]) => {
+            this.store.getQuads(subject, propertyUri, null, null).forEach(quad => {
+                if (quad.object.termType !== 'Literal') {
+                    return;
+                }
+                const byLanguage = labels[property] ?? (labels[property] = {});
+                const language = (quad.object as Literal).language;
+                if (byLanguage[language] === undefined) {
+                    byLanguage[language] = quad.object.value;
+                }
+            });
+        });
+        return Object.keys(labels).length > 0 ? labels : undefined;
     }
 }
\ No newline at end of file
@@ -0,0 +1,250 @@
+import { DataFactory, Quad, NamedNode, BlankNode, Literal } from 'n3';
+
+const { namedNode, blankNode, literal, quad } = DataFactory;
+
+export const RDF_NS = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#';
+export const RDFS_NS = 'http://www.w3.org/2000/01/rdf-schema#';
+export const OWL_NS = 'http://www.w3.org/2002/07/owl#';
+export const XSD_NS = 'http://www.w3.org/2001/XMLSchema#';
+
+export type OwlResource = NamedNode | BlankNode;
+export type OwlValue = OwlResource | Literal;
+
+export type RestrictionKind = 'some' | 'only' | 'value' | 'self' | 'min' | 'max' | 'exactly';
+
+export type OwlEntityKind = 'Class' | 'ObjectProperty' | 'DataProperty' | 'AnnotationProperty' | 'NamedIndividual' | 'Datatype';
+
+const ENTITY_TYPES: Record<OwlEntityKind, string> = {
+    Class: `${OWL_NS}Class`,
+    ObjectProperty: `${OWL_NS}ObjectProperty`,
+    DataProperty: `${OWL_NS}DatatypeProperty`,
+    AnnotationProperty: `${OWL_NS}AnnotationProperty`,
+    NamedIndividual: `${OWL_NS}NamedIndividual`,
+    Datatype: `${RDFS_NS}Datatype`
+};
+
+export const STANDARD_PREFIXES: Record<string, string> = {
+    rdf: RDF_NS,
+    rdfs: RDFS_NS,
+    owl: OWL_NS,
+    xsd: XSD_NS,
+    xml: 'http://www.w3.org/XML/1998/namespace'
+};
+
+/**
+ * Collects the RDF triples produced by the OWL 2 structural-to-RDF mapping so that
+ * the Functional and Manchester syntax parsers can share the same output rules.
+ */
+export class OwlTripleWriter {
+    readonly quads: Quad[] = [];
+    private blankCounter = 0;
+
+    iri(value: string): NamedNode {
+        return namedNode(value);
+    }
+
+    owl(localName: string): NamedNode {
+        return namedNode(`${OWL_NS}${localName}`);
+    }
+
+    rdf(localName: string): NamedNode {
+        return namedNode(`${RDF_NS}${localName}`);
+    }
+
+    rdfs(localName: string): NamedNode {
+        return namedNode(`${RDFS_NS}${localName}`);
+    }
+
+    blank(label?: string): BlankNode {
+        return blankNode(label ?? `owl${++this.blankCounter}`);
+    }
+
+    literal(value: string, languageOrDatatype?: string | NamedNode): Literal {
+        return literal(value, languageOrDatatype);
+    }
+
+    nonNegativeInteger(value: number | string): Literal {
+        return literal(String(value), namedNode(`${XSD_NS}nonNegativeInteger`));
+    }
+
+    add(subject: OwlResource, predicate: NamedNode, object: OwlValue) {
+        this.quads.push(quad(subject, predicate, object));
+    }
+
+    declare(kind: OwlEntityKind, entity: NamedNode) {
+        this.add(entity, this.rdf('type'), namedNode(ENTITY_TYPES[kind]));
+    }
+
+    list(items: OwlValue[]): OwlResource {
+        if (items.length === 0) {
+            return this.rdf('nil');
+        }
+
+        const head = this.blank();
+        let current = head;
+        items.forEach((item, index) => {
+            this.add(current, this.rdf('first'), item);
+            if (index === items.length - 1) {
+                this.add(current, this.rdf('rest'), this.rdf('nil'));
+            } else {
+                const next = this.blank();
+                this.add(current, this.rdf('rest'), next);
+                current = next;
+            }
+        });
+
+        return head;
+    }
+
+    booleanClass(operator: 'intersectionOf' | 'unionOf', operands: OwlValue[], isDataRange: boolean = false): BlankNode {
+        const node = this.blank();
+        this.add(node, this.rdf('type'), isDataRange ? this.rdfs('Datatype') : this.owl('Class'));
+        this.add(node, this.owl(operator), this.list(operands));
+        return node;
+    }
+
+    complementOf(operand: OwlValue, isDataRange: boolean = false): BlankNode {
+        const node = this.blank();
+        if (isDataRange) {
+            this.add(node, this.rdf('type'), this.rdfs('Datatype'));
+            this.add(node, this.owl('datatypeComplementOf'), operand);
+        } else {
+            this.add(node, this.rdf('type'), this.owl('Class'));
+            this.add(node, this.owl('complementOf'), operand);
+        }
+        return node;
+    }
+
+    oneOf(members: OwlValue[], isDataRange: boolean = false): BlankNode {
+        const node = this.blank();
+        this.add(node, this.rdf('type'), isDataRange ? this.rdfs('Datatype') : this.owl('Class'));
+        this.add(node, this.owl('oneOf'), this.list(members));
+        return node;
+    }
+
+    datatypeRestriction(datatype: OwlResource, facets: Array<{ facet: NamedNode; value: Literal }>): BlankNode {
+        const node = this.blank();
+        this.add(node, this.rdf('type'), this.rdfs('Datatype'));
+        this.add(node, this.owl('onDatatype'), datatype);
+        const facetNodes = facets.map(({ facet, value }) => {
+            const facetNode = this.blank();
+            this.add(facetNode, facet, value);
+            return facetNode;
+        });
+        this.add(node, this.owl('withRestrictions'), this.list(facetNodes));
+        return node;
+    }
+
+    inverseOf(property: OwlResource): BlankNode {
+        const node = this.blank();
+        this.add(node, this.owl('inverseOf'), property);
+        return node;
+    }
+
+    restriction(
+        kind: RestrictionKind,
+        property: OwlResource,
+        filler?: OwlValue,
+        cardinality?: number,
+        isDataProperty: boolean = false
+    ): BlankNode {
+        const node = this.blank();
+        this.add(node, this.rdf('type'), this.owl('Restriction'));
+        this.add(node, this.owl('onProperty'), property);
+
+        switch (kind) {
+            case 'some':
+                this.add(node, this.owl('someValuesFrom'), filler ?? this.owl('Thing'));
+                break;
+            case 'only':
+                this.add(node, this.owl('allValuesFrom'), filler ?? this.owl('Thing'));
+                break;
+            case 'value':
+                if (filler) {
+                    this.add(node, this.owl('hasValue'), filler);
+                }
+                break;
+            case 'self':
+                this.add(node, this.owl('hasSelf'), this.literal('true', this.iri(`${XSD_NS}boolean`)));
+                break;
+            case 'min':
+            case 'max':
+            case 'exactly': {
+                const base = kind === 'min' ? 'minCardinality' : kind === 'max' ? 'maxCardinality' : 'cardinality';
+                const count = this.nonNegativeInteger(cardinality ?? 0);
+                const isUnqualified = !filler
+                    || (filler.termType === 'NamedNode' && (filler.value === `${OWL_NS}Thing` || filler.value === `${RDFS_NS}Literal`));
+                if (isUnqualified) {
+                    this.add(node, this.owl(base), count);
+                } else {
+                    const qualified = kind === 'exactly' ? 'qualifiedCardinality' : base.replace('Cardinality', 'QualifiedCardinality');
+                    this.add(node, this.owl(qualified), count);
+                    this.add(node, this.owl(isDataProperty ? 'onDataRange' : 'onClass'), filler);
+                }
+                break;
+            }
+        }
+
+        return node;
+    }
+
+    /**
+     * Writes an n-ary axiom either as pairwise triples (two operands) or as an
+     * owl:AllDisjointClasses / owl:AllDisjointProperties / owl:AllDifferent group.
+     */
+    naryAxiom(pairwisePredicate: NamedNode, groupType: NamedNode, operands: OwlValue[]) {
+        if (operands.length < 2) {
+            return;
+        }
+
+        if (operands.length === 2) {
+            this.add(operands[0] as OwlResource, pairwisePredicate, operands[1]);
+            return;
+        }
+
+        const group = this.blank();
+        this.add(group, this.rdf('type'), groupType);
+        this.add(group, this.owl('members'), this.list(operands));
+    }
+
+    chainedAxiom(predicate: NamedNode, operands: OwlValue[]) {
+        for (let i = 0; i < operands.length - 1; i++) {
+            this.add(operands[i] as OwlResource, predicate, operands[i + 1]);
+        }
+    }
+
+    negativeAssertion(property: OwlResource, source: OwlResource, target: OwlValue) {
+        const node = this.blank();
+        this.add(node, this.rdf('type'), this.owl('NegativePropertyAssertion'));
+        this.add(node, this.owl('sourceIndividual'), source);
+        this.add(node, this.owl('assertionProperty'), property);
+        this.add(node, this.owl(target.termType === 'Literal' ? 'targetValue' : 'targetIndividual'), target);
+    }
+}
+
+export function resolveIri(value: string, baseIRI?: string): string {
+    if (/^[a-zA-Z][a-zA-Z0-9+.-]*:/.test(value) || !baseIRI) {
+        return value;
+    }
+
+    try {
+        return new URL(value, baseIRI).toString();
+    } catch (error) {
+        return value;
+    }
+}
+
+export function unescapeLiteral(value: string): string {
+    return value.replace(/\\(["\\nrt])/g, (_match, escaped: string) => {
+        switch (escaped) {
+            case 'n':
+                return '\n';
+            case 'r':
+                return '\r';
+            case 't':
+                return '\t';
+            default:
+                return escaped;
+        }
+    });
+}
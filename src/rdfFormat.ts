@@ -0,0 +1,53 @@
+import * as path from 'path';
+import { Quad } from 'n3';
+import { looksLikeRdfXml } from './rdfXmlParser';
+import { looksLikeJsonLd } from './jsonLdParser';
+import { looksLikeFunctionalSyntax } from './functionalSyntaxParser';
+import { looksLikeManchesterSyntax } from './manchesterSyntaxParser';
+
+export type RdfFormat = 'turtle' | 'trig' | 'ntriples' | 'nquads' | 'rdfxml' | 'jsonld' | 'functional' | 'manchester';
+
+export interface ParsedDocument {
+    quads: Quad[];
+    // Prefix declarations of the source document, keyed by prefix (empty string for the default prefix)
+    prefixes: Record<string, string>;
+}
+
+// .owl is deliberately absent: Protégé writes RDF/XML, Turtle or Functional Syntax under that name
+const EXTENSION_FORMATS: Record<string, RdfFormat | undefined> = {
+    '.owl': undefined,
+    '.rdf': 'rdfxml',
+    '.ttl': 'turtle',
+    '.trig': 'trig',
+    '.nt': 'ntriples',
+    '.nq': 'nquads',
+    '.jsonld': 'jsonld',
+    '.ofn': 'functional',
+    '.omn': 'manchester'
+};
+
+export const SUPPORTED_EXTENSIONS = Object.keys(EXTENSION_FORMATS);
+
+export function formatFromFileName(fileName: string): RdfFormat | undefined {
+    return EXTENSION_FORMATS[path.extname(fileName).toLowerCase()];
+}
+
+export function sniffFormat(content: string): RdfFormat {
+    if (looksLikeRdfXml(content)) {
+        return 'rdfxml';
+    }
+    if (looksLikeJsonLd(content)) {
+        return 'jsonld';
+    }
+    if (looksLikeFunctionalSyntax(content)) {
+        return 'functional';
+    }
+    if (looksLikeManchesterSyntax(content)) {
+        return 'manchester';
+    }
+    return 'turtle';
+}
+
+export function detectFormat(content: string, fileName?: string): RdfFormat {
+    return (fileName && formatFromFileName(fileName)) || sniffFormat(content);
+}
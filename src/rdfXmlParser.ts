@@ -0,0 +1,46 @@
+import { DataFactory, Quad } from 'n3';
+import { RdfXmlParser } from 'rdfxml-streaming-parser';
+import { ParsedDocument } from './rdfFormat';
+
+export function looksLikeRdfXml(content: string): boolean {
+    const trimmed = content.trim();
+    return trimmed.startsWith('<?xml') || trimmed.includes('<rdf:RDF');
+}
+
+export function parseRdfXml(content: string, baseIRI?: string): Promise<ParsedDocument> {
+    return new Promise((resolve, reject) => {
+        // Build terms with the N3 factory so the quads behave exactly like the Turtle path
+        const parser = new RdfXmlParser({
+            dataFactory: DataFactory,
+            baseIRI
+        });
+        const quads: Quad[] = [];
+
+        parser.on('data', (quad: Quad) => {
+            quads.push(quad);
+        });
+        parser.on('error', error => {
+            reject(error);
+        });
+        parser.on('end', () => {
+            resolve({ quads, prefixes: extractNamespaceDeclarations(content) });
+        });
+
+        parser.write(content);
+        parser.end();
+    });
+}
+
+// The streaming parser does not report namespace declarations, so read them off the markup
+function extractNamespaceDeclarations(content: string): Record<string, string> {
+    const prefixes: Record<string, string> = {};
+    const declaration = /\sxmlns(?::([\w.-]+))?\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+    let match: RegExpExecArray | null;
+    while ((match = declaration.exec(content)) !== null) {
+        const prefix = match[1] ?? '';
+        if (!(prefix in prefixes)) {
+            prefixes[prefix] = match[2] ?? match[3];
+        }
+    }
+    return prefixes;
+}
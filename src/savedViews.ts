@@ -0,0 +1,77 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { SavedView } from './webviewProtocol';
+
+const VIEWS_DIRECTORY = '.owlviz';
+const VIEWS_FILE_NAME = 'views.json';
+
+// One file per directory; each ontology's views are listed under its file name, so the
+// file stays valid wherever the repository is checked out
+interface SavedViewsFile {
+    version: number;
+    views: Record<string, SavedView[]>;
+}
+
+export function savedViewsPath(ontologyFile: string): string {
+    return path.join(path.dirname(ontologyFile), VIEWS_DIRECTORY, VIEWS_FILE_NAME);
+}
+
+// Throws on a file that is not valid JSON (e.g. after a merge conflict), so it is never overwritten
+function readViewsFile(fileName: string): SavedViewsFile {
+    if (!fs.existsSync(fileName)) {
+        return { version: 1, views: {} };
+    }
+
+    const parsed = JSON.parse(fs.readFileSync(fileName, 'utf8'));
+    if (typeof parsed !== 'object' || parsed === null || typeof parsed.views !== 'object' || parsed.views === null) {
+        throw new Error(`${fileName} has no "views" object`);
+    }
+    return { version: typeof parsed.version === 'number' ? parsed.version : 1, views: parsed.views };
+}
+
+function writeViewsFile(fileName: string, contents: SavedViewsFile) {
+    fs.mkdirSync(path.dirname(fileName), { recursive: true });
+    fs.writeFileSync(fileName, JSON.stringify(contents, null, 2) + '\n', 'utf8');
+}
+
+// Views are edited by hand and merged by git; entries without a name are skipped and the
+// webview checks the rest before using it
+function viewsOf(contents: SavedViewsFile, ontologyFile: string): SavedView[] {
+    const views = contents.views[path.basename(ontologyFile)];
+    return Array.isArray(views)
+        ? views.filter(view => typeof view === 'object' && view !== null && typeof view.name === 'string' && view.name.trim() !== '')
+        : [];
+}
+
+export function loadSavedViews(ontologyFile: string): SavedView[] {
+    return viewsOf(readViewsFile(savedViewsPath(ontologyFile)), ontologyFile);
+}
+
+// Replaces the view with the same name in place, otherwise appends it; returns the new list
+export function storeSavedView(ontologyFile: string, view: SavedView): SavedView[] {
+    const fileName = savedViewsPath(ontologyFile);
+    const contents = readViewsFile(fileName);
+    const views = viewsOf(contents, ontologyFile);
+    const index = views.findIndex(candidate => candidate.name === view.name);
+    if (index >= 0) {
+        views[index] = view;
+    } else {
+        views.push(view);
+    }
+    contents.views[path.basename(ontologyFile)] = views;
+    writeViewsFile(fileName, contents);
+    return views;
+}
+
+export function deleteSavedView(ontologyFile: string, name: string): SavedView[] {
+    const fileName = savedViewsPath(ontologyFile);
+    const contents = readViewsFile(fileName);
+    const views = viewsOf(contents, ontologyFile).filter(view => view.name !== name);
+    if (views.length > 0) {
+        contents.views[path.basename(ontologyFile)] = views;
+    } else {
+        delete contents.views[path.basename(ontologyFile)];
+    }
+    writeViewsFile(fileName, contents);
+    return views;
+}
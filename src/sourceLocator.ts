@@ -0,0 +1,260 @@
+import { RdfFormat } from './rdfFormat';
+import { resolveIri } from './owlTripleWriter';
+
+export interface SourcePosition {
+    // Zero-based, like vscode.Position
+    line: number;
+    character: number;
+}
+
+const RDF_TYPE = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type';
+const TURTLE_SUBJECT = /^(\s*)(<[^>\s]*>|(?:[A-Za-z][\w.-]*)?:(?:[\w%:-]|\\.|\.(?=[\w%:-]))*)/;
+const FRAME_KEYWORDS = 'Class|ObjectProperty|DataProperty|AnnotationProperty|Individual|Datatype|Ontology';
+const DECLARATION_KINDS = 'Class|ObjectProperty|DataProperty|AnnotationProperty|NamedIndividual|Datatype';
+
+/**
+ * Finds where each subject is defined in the source text: its first typed description
+ * (`:Cat a owl:Class`, `<owl:Class rdf:about=...>`, `Declaration(Class(:Cat))`, `Class: Cat`),
+ * otherwise the first statement it is the subject of. This is a text scan, not a parse, so
+ * unusual layouts may go unmatched.
+ */
+export function locateDefinitions(
+    content: string,
+    format: RdfFormat,
+    prefixes: Record<string, string>,
+    baseIRI?: string
+): Map<string, SourcePosition> {
+    const locator = new DefinitionLocator(content, prefixes, baseIRI);
+    switch (format) {
+        case 'rdfxml':
+            locator.scanRdfXml();
+            break;
+        case 'jsonld':
+            locator.scanJsonLd();
+            break;
+        case 'functional':
+            locator.scanFunctionalSyntax();
+            break;
+        case 'manchester':
+            locator.scanManchesterSyntax();
+            break;
+        default:
+            locator.scanTurtle();
+    }
+    return locator.positions;
+}
+
+/**
+ * Returns the IRI written at a character of a line: an <IRI>, a quoted IRI or compact IRI
+ * (RDF/XML attributes, JSON-LD), a prefixed name or a bare Manchester Syntax name.
+ */
+export function iriAtPosition(
+    lineText: string,
+    character: number,
+    prefixes: Record<string, string>,
+    baseIRI?: string
+): string | undefined {
+    const tokenAt = (pattern: RegExp) => {
+        let match: RegExpExecArray | null;
+        while ((match = pattern.exec(lineText)) !== null) {
+            if (match.index <= character && character <= match.index + match[0].length) {
+                return match;
+            }
+        }
+        return null;
+    };
+
+    const bracketed = tokenAt(/<([^<>\s"]*)>/g);
+    if (bracketed) {
+        return resolveIri(bracketed[1], baseIRI);
+    }
+
+    const quoted = tokenAt(/"([a-zA-Z][\w+.-]*:[^"\s]*|#[^"\s]*)"/g);
+    if (quoted) {
+        const separator = quoted[1].indexOf(':');
+        const prefix = separator > 0 ? quoted[1].substring(0, separator) : undefined;
+        return prefix !== undefined && prefixes[prefix] !== undefined && !quoted[1].startsWith(prefix + '://')
+            ? prefixes[prefix] + quoted[1].substring(separator + 1)
+            : resolveIri(quoted[1], baseIRI);
+    }
+
+    const name = tokenAt(/(?:[A-Za-z][\w.-]*)?:(?:[\w%:-]|\.(?=[\w%:-]))*|[A-Za-z_][\w-]*/g);
+    return name ? expandName(name[0], prefixes, baseIRI) : undefined;
+}
+
+function expandName(name: string, prefixes: Record<string, string>, baseIRI?: string): string | undefined {
+    if (name.startsWith('<') && name.endsWith('>')) {
+        return resolveIri(name.slice(1, -1), baseIRI);
+    }
+    const separator = name.indexOf(':');
+    const prefix = separator < 0 ? '' : name.substring(0, separator);
+    const namespace = prefixes[prefix];
+    if (namespace === undefined) {
+        return undefined;
+    }
+    return namespace + name.substring(separator + 1).replace(/\\(.)/g, '$1');
+}
+
+class DefinitionLocator {
+    readonly positions = new Map<string, SourcePosition>();
+    private readonly typed = new Set<string>();
+    private lineStarts: number[] | undefined;
+
+    constructor(
+        private readonly content: string,
+        private readonly prefixes: Record<string, string>,
+        private readonly baseIRI?: string
+    ) {}
+
+    scanTurtle() {
+        let statementStart = true;
+        this.content.split(/\r?\n/).forEach((rawLine, line) => {
+            const text = this.stripTurtleComment(rawLine);
+            const trimmed = text.trim();
+            if (!trimmed) {
+                return;
+            }
+
+            if (/^(PREFIX|BASE|@prefix|@base)\b/i.test(trimmed)) {
+                statementStart = true;
+                return;
+            }
+
+            // Lines after ';' or ',' continue a statement, so their first token is a predicate or object
+            const match = statementStart ? TURTLE_SUBJECT.exec(text) : null;
+            if (match) {
+                const iri = this.expandName(match[2]);
+                const rest = text.substring(match[0].length);
+                const typeMatch = /^\s+(a|[\w.-]*:type|<[^>]*>)(?=\s|$)/.exec(rest);
+                const isTyped = typeMatch !== null && (typeMatch[1] === 'a' || this.expandName(typeMatch[1]) === RDF_TYPE);
+                if (iri) {
+                    this.record(iri, { line, character: match[1].length }, isTyped);
+                }
+            }
+            statementStart = /[.{}]$/.test(trimmed);
+        });
+    }
+
+    scanRdfXml() {
+        const entities = new Map<string, string>();
+        const entityPattern = /<!ENTITY\s+([\w.-]+)\s+(["'])(.*?)\2\s*>/g;
+        let entity: RegExpExecArray | null;
+        while ((entity = entityPattern.exec(this.content)) !== null) {
+            entities.set(entity[1], entity[3]);
+        }
+
+        const decode = (value: string) => value
+            .replace(/&([\w.-]+);/g, (whole, name: string) => entities.get(name) ?? ({ amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" } as Record<string, string>)[name] ?? whole);
+
+        const elementPattern = /<([A-Za-z_][\w.-]*:)?([A-Za-z_][\w.-]*)\b[^>]*?\brdf:(about|ID)\s*=\s*(["'])(.*?)\4/g;
+        let match: RegExpExecArray | null;
+        while ((match = elementPattern.exec(this.content)) !== null) {
+            const value = decode(match[5]);
+            const iri = match[3] === 'ID' ? resolveIri('#' + value, this.baseIRI) : resolveIri(value, this.baseIRI);
+            const isTyped = (match[1] ?? '') + match[2] !== 'rdf:Description';
+            this.record(iri, this.positionAt(match.index), isTyped);
+        }
+    }
+
+    scanJsonLd() {
+        const idPattern = /"@id"\s*:\s*"([^"]*)"/g;
+        let match: RegExpExecArray | null;
+        while ((match = idPattern.exec(this.content)) !== null) {
+            const separator = match[1].indexOf(':');
+            const prefix = separator > 0 ? match[1].substring(0, separator) : undefined;
+            const iri = prefix !== undefined && this.prefixes[prefix] !== undefined && !match[1].startsWith(prefix + '://')
+                ? this.prefixes[prefix] + match[1].substring(separator + 1)
+                : resolveIri(match[1], this.baseIRI);
+            this.record(iri, this.positionAt(match.index), false);
+        }
+    }
+
+    scanFunctionalSyntax() {
+        const patterns = [
+            new RegExp(`Declaration\\(\\s*(?:${DECLARATION_KINDS})\\(\\s*(<[^>]*>|[^\\s()]+)\\s*\\)`, 'g'),
+            /Ontology\(\s*(<[^>]*>)/g
+        ];
+        patterns.forEach(pattern => {
+            let match: RegExpExecArray | null;
+            while ((match = pattern.exec(this.content)) !== null) {
+                const iri = this.expandName(match[1]);
+                if (iri) {
+                    this.record(iri, this.positionAt(match.index), true);
+                }
+            }
+        });
+    }
+
+    scanManchesterSyntax() {
+        const framePattern = new RegExp(`^([ \\t]*)(?:${FRAME_KEYWORDS}):[ \\t]*(<[^>]*>|[^\\s<]+)`, 'gm');
+        let match: RegExpExecArray | null;
+        while ((match = framePattern.exec(this.content)) !== null) {
+            const iri = this.expandName(match[2]);
+            if (iri) {
+                this.record(iri, this.positionAt(match.index + match[1].length), true);
+            }
+        }
+    }
+
+    private record(iri: string, position: SourcePosition, isTyped: boolean) {
+        if (this.typed.has(iri) || (this.positions.has(iri) && !isTyped)) {
+            return;
+        }
+        this.positions.set(iri, position);
+        if (isTyped) {
+            this.typed.add(iri);
+        }
+    }
+
+    private expandName(name: string): string | undefined {
+        return expandName(name, this.prefixes, this.baseIRI);
+    }
+
+    // Drops a trailing # comment, leaving # inside IRIs and strings alone
+    private stripTurtleComment(line: string): string {
+        let quote: string | undefined;
+        let inIri = false;
+        for (let index = 0; index < line.length; index++) {
+            const character = line[index];
+            if (quote) {
+                if (character === '\\') {
+                    index++;
+                } else if (character === quote) {
+                    quote = undefined;
+                }
+            } else if (inIri) {
+                inIri = character !== '>';
+            } else if (character === '"' || character === "'") {
+                quote = character;
+            } else if (character === '<') {
+                inIri = true;
+            } else if (character === '#') {
+                return line.substring(0, index);
+            }
+        }
+        return line;
+    }
+
+    private positionAt(offset: number): SourcePosition {
+        if (!this.lineStarts) {
+            this.lineStarts = [0];
+            for (let index = 0; index < this.content.length; index++) {
+                if (this.content[index] === '\n') {
+                    this.lineStarts.push(index + 1);
+                }
+            }
+        }
+
+        let low = 0;
+        let high = this.lineStarts.length - 1;
+        while (low < high) {
+            const middle = Math.ceil((low + high) / 2);
+            if (this.lineStarts[middle] <= offset) {
+                low = middle;
+            } else {
+                high = middle - 1;
+            }
+        }
+        return { line: low, character: offset - this.lineStarts[low] };
+    }
+}
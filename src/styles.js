@@ -45,6 +45,24 @@ const OWL_VISUALIZATION_STYLES = [
         }
     },
     
+    // Datatype properties (teal round diamonds)
+    {
+        selector: 'node[type = "property"][propertyKind = "data"]',
+        style: {
+            'background-color': '#16A085',
+            'shape': 'round-diamond'
+        }
+    },
+
+    // Annotation properties (lavender tags)
+    {
+        selector: 'node[type = "property"][propertyKind = "annotation"]',
+        style: {
+            'background-color': '#8E7CC3',
+            'shape': 'round-tag'
+        }
+    },
+    
     // OWL Individual nodes (orange ellipses)
     {
         selector: 'node[type = "individual"]',
@@ -75,6 +93,16 @@ const OWL_VISUALIZATION_STYLES = [
         }
     },
 
+    // SKOS Collection nodes (lilac barrels)
+    {
+        selector: 'node[type = "skosCollection"]',
+        style: {
+            'background-color': '#A29BFE',
+            'color': 'white',
+            'shape': 'barrel'
+        }
+    },
+
     // Literal value nodes (gray rounded rectangles)
     {
         selector: 'node[type = "literal"]',
@@ -88,6 +116,43 @@ const OWL_VISUALIZATION_STYLES = [
         }
     },
     
+    // Datatypes such as xsd:integer, the fillers of data restrictions (olive cut rectangles)
+    {
+        selector: 'node[type = "datatype"]',
+        style: {
+            'background-color': '#7D8B3A',
+            'color': 'white',
+            'shape': 'cut-rectangle',
+            'font-size': '10px'
+        }
+    },
+    
+    // Anonymous class expressions: and / or / not / one of / filler-less restrictions (small slate tags)
+    {
+        selector: 'node[type = "expression"]',
+        style: {
+            'background-color': '#636E72',
+            'color': 'white',
+            'shape': 'tag',
+            'font-size': '10px',
+            'font-style': 'italic',
+            'height': '24px'
+        }
+    },
+    
+    // Hubs for n-ary axioms such as AllDisjointClasses and AllDifferent (small red circles)
+    {
+        selector: 'node[type = "axiomGroup"]',
+        style: {
+            'background-color': '#C0392B',
+            'color': 'white',
+            'shape': 'ellipse',
+            'font-size': '10px',
+            'width': '60px',
+            'height': '24px'
+        }
+    },
+    
     // Ontology declaration nodes (purple rectangles)
     {
         selector: 'node[type = "ontology"]',
@@ -100,7 +165,7 @@ const OWL_VISUALIZATION_STYLES = [
     
     // Default/unknown type nodes (gray rectangles)
     {
-        selector: 'node[type != "class"][type != "property"][type != "individual"][type != "ontology"][type != "skosConcept"][type != "skosConceptScheme"]',
+        selector: 'node[type != "class"][type != "property"][type != "individual"][type != "ontology"][type != "skosConcept"][type != "skosConceptScheme"][type != "skosCollection"][type != "datatype"][type != "expression"][type != "axiomGroup"]',
         style: {
             'background-color': '#666666',
             'color': 'white',
@@ -216,16 +281,201 @@ const OWL_VISUALIZATION_STYLES = [
             'line-style': 'solid'
         }
     },
+
+    // SKOS hierarchy: narrower concept to broader concept (purple)
+    {
+        selector: 'edge[type = "skosBroader"]',
+        style: {
+            'line-color': '#6C5CE7',
+            'target-arrow-color': '#6C5CE7',
+            'width': 3
+        }
+    },
+
+    // Top concepts to their scheme (teal)
+    {
+        selector: 'edge[type = "skosTopConcept"]',
+        style: {
+            'line-color': '#00B894',
+            'target-arrow-color': '#00B894',
+            'width': 3
+        }
+    },
+
+    // Associative relations are symmetric (lilac dashed, no arrowheads)
+    {
+        selector: 'edge[type = "skosRelated"]',
+        style: {
+            'line-color': '#A29BFE',
+            'target-arrow-shape': 'none',
+            'line-style': 'dashed'
+        }
+    },
+
+    // Mapping relations (pink dotted); only broadMatch has a direction
+    {
+        selector: 'edge[type = "skosMapping"]',
+        style: {
+            'line-color': '#FD79A8',
+            'target-arrow-color': '#FD79A8',
+            'line-style': 'dotted'
+        }
+    },
+
+    {
+        selector: 'edge[type = "skosMapping"][label != "broadMatch"]',
+        style: {
+            'target-arrow-shape': 'none'
+        }
+    },
+
+    // Collection membership (thin gray dashed)
+    {
+        selector: 'edge[type = "skosMember"]',
+        style: {
+            'line-color': '#B2BEC3',
+            'target-arrow-color': '#B2BEC3',
+            'line-style': 'dashed',
+            'width': 1.5
+        }
+    },
+    
+    // Restrictions folded into a labelled edge, e.g. "hasTopping some" (magenta, dashed)
+    {
+        selector: 'edge[type = "restriction"]',
+        style: {
+            'line-color': '#E84393',
+            'target-arrow-color': '#E84393',
+            'line-style': 'dashed'
+        }
+    },
+
+    // Operands of class expressions (thin slate, open arrow)
+    {
+        selector: 'edge[type = "operand"]',
+        style: {
+            'line-color': '#95A5A6',
+            'target-arrow-color': '#95A5A6',
+            'target-arrow-shape': 'vee',
+            'width': 1.5
+        }
+    },
+    
+    // Equivalence axioms are symmetric, so they carry no arrowheads (blue for classes, light blue for properties)
+    {
+        selector: 'edge[type = "equivalentClass"]',
+        style: {
+            'line-color': '#0097E6',
+            'target-arrow-shape': 'none',
+            'width': 4
+        }
+    },
+
+    {
+        selector: 'edge[type = "equivalentProperty"]',
+        style: {
+            'line-color': '#74B9FF',
+            'target-arrow-shape': 'none',
+            'width': 4
+        }
+    },
+
+    // Disjointness axioms (red dotted, no arrowheads)
+    {
+        selector: 'edge[type = "disjointWith"], edge[type = "propertyDisjointWith"]',
+        style: {
+            'line-color': '#D63031',
+            'target-arrow-shape': 'none',
+            'line-style': 'dotted',
+            'width': 3
+        }
+    },
+
+    // Individual identity (green for sameAs, red dashed for differentFrom)
+    {
+        selector: 'edge[type = "sameAs"]',
+        style: {
+            'line-color': '#6AB04C',
+            'target-arrow-shape': 'none',
+            'width': 4
+        }
+    },
+
+    {
+        selector: 'edge[type = "differentFrom"]',
+        style: {
+            'line-color': '#EB4D4B',
+            'target-arrow-shape': 'none',
+            'line-style': 'dashed'
+        }
+    },
     
     // Default/unknown relationship types (gray)
     {
-        selector: 'edge[type != "subClassOf"][type != "subPropertyOf"][type != "domain"][type != "range"][type != "type"][type != "skosInScheme"]',
+        selector: 'edge[type != "subClassOf"][type != "subPropertyOf"][type != "domain"][type != "range"][type != "type"][type != "skosInScheme"][type != "restriction"][type != "operand"]'
+            + '[type != "equivalentClass"][type != "equivalentProperty"][type != "disjointWith"][type != "propertyDisjointWith"][type != "sameAs"][type != "differentFrom"]'
+            + '[type != "skosBroader"][type != "skosTopConcept"][type != "skosRelated"][type != "skosMapping"][type != "skosMember"]',
         style: {
             'line-color': '#888888',
             'target-arrow-color': '#888888'
         }
     },
     
+    // Nodes pulled in through owl:imports (dashed border in the colour of their source ontology)
+    {
+        selector: 'node[importedFrom]',
+        style: {
+            'border-style': 'dashed',
+            'border-width': 3,
+            'background-opacity': 0.7
+        }
+    },
+
+    {
+        selector: 'node[originColor]',
+        style: {
+            'border-color': 'data(originColor)'
+        }
+    },
+
+    // Collapsed subtree, drawn as a stack behind the node
+    {
+        selector: 'node[collapsedCount > 0]',
+        style: {
+            'underlay-color': '#888888',
+            'underlay-padding': 6,
+            'underlay-opacity': 0.4,
+            'underlay-shape': 'round-rectangle'
+        }
+    },
+
+    // The node a neighbourhood focus is centred on
+    {
+        selector: 'node.focus-root',
+        style: {
+            'border-width': 5,
+            'border-style': 'double',
+            'border-color': '#FFFFFF'
+        }
+    },
+
+    // Search: matches stand out, everything else fades
+    {
+        selector: '.search-faded',
+        style: {
+            'opacity': 0.25
+        }
+    },
+
+    {
+        selector: 'node.search-match',
+        style: {
+            'border-width': 4,
+            'border-style': 'solid',
+            'border-color': '#FFD700'
+        }
+    },
+
     // Selected node styling
     {
         selector: 'node:selected',
@@ -1,17 +1,67 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as os from 'os';
-import { OntologyData } from './owlParser';
+import * as crypto from 'crypto';
+import { OntologyData, NodeSource, DEFAULT_LABEL_PROPERTIES } from './owlParser';
+import { deleteSavedView, loadSavedViews, savedViewsPath, storeSavedView } from './savedViews';
+import { iriAtPosition } from './sourceLocator';
+import { HierarchySettings, HostMessage, LabelSettings, SavedView, ViewFilters, ViewSnapshot, WebviewBootstrap, WebviewMessage } from './webviewProtocol';
+
+export { LabelSettings, PersistedViewState } from './webviewProtocol';
+
+export function getLabelSettings(): LabelSettings {
+    const config = vscode.workspace.getConfiguration('owlVisualizer');
+    const languages = config.get<string[]>('labels.languages', []);
+    const properties = config.get<string[]>('labels.properties', DEFAULT_LABEL_PROPERTIES);
+    return {
+        languages: languages.length > 0 ? languages : [vscode.env.language],
+        properties: properties.length > 0 ? properties : DEFAULT_LABEL_PROPERTIES
+    };
+}
+
+export function getHierarchySettings(): HierarchySettings {
+    const config = vscode.workspace.getConfiguration('owlVisualizer');
+    return {
+        collapseThreshold: Math.max(0, config.get<number>('hierarchy.collapseThreshold', 500)),
+        initialLevels: Math.max(1, config.get<number>('hierarchy.initialLevels', 3))
+    };
+}
+
+export const VIEW_TYPE = 'owlVisualization';
+
+// Workspace state entry holding each file's filter panel choices, keyed by file URI
+const VIEW_FILTERS_KEY = 'owlVisualizer.viewFilters';
+
+// Loaded in order from the extension's node_modules; the webview has no network access under the CSP
+const WEBVIEW_LIBRARIES = [
+    ['cytoscape', 'dist', 'cytoscape.min.js'],
+    ['dagre', 'dist', 'dagre.min.js'],
+    ['cytoscape-dagre', 'cytoscape-dagre.js'],
+    ['klayjs', 'klay.js'],
+    ['cytoscape-klay', 'cytoscape-klay.js'],
+    ['cytoscape-svg', 'cytoscape-svg.js']
+];
 
 export class VisualizationPanel {
     private panel: vscode.WebviewPanel | undefined;
     private readonly extensionUri: vscode.Uri;
+    private filePath: string | undefined;
+    private prefixes: Record<string, string> = {};
+    // Files of the imports loaded by the last parse; node sources may point into them
+    private importFiles: string[] = [];
 
-    constructor(extensionUri: vscode.Uri) {
+    constructor(extensionUri: vscode.Uri, private readonly workspaceState?: vscode.Memento, private readonly onDidDispose?: () => void) {
         this.extensionUri = extensionUri;
     }
 
-    public show(ontologyData: OntologyData, fileName: string, forceReveal: boolean = true, isAutoUpdate: boolean = false, shouldSplitRight: boolean = false) {
+    public show(ontologyData: OntologyData, filePath: string, forceReveal: boolean = true, isAutoUpdate: boolean = false, shouldSplitRight: boolean = false) {
+        this.filePath = filePath;
+        this.prefixes = ontologyData.prefixes;
+        this.importFiles = (ontologyData.metadata.imports ?? [])
+            .filter(entry => entry.fileName && !entry.error)
+            .map(entry => entry.fileName!);
+        const fileName = path.basename(filePath);
+
         // Determine column placement
         let columnToShowIn: vscode.ViewColumn;
         
@@ -48,8 +98,8 @@ export class VisualizationPanel {
             }
         } else {
             // Create new panel
-            this.panel = vscode.window.createWebviewPanel(
-                'owlVisualization',
+            this.attachPanel(vscode.window.createWebviewPanel(
+                VIEW_TYPE,
                 `OWL Visualization - ${fileName}`,
                 columnToShowIn,
                 {
@@ -57,22 +107,63 @@ export class VisualizationPanel {
                     retainContextWhenHidden: true,
                     localResourceRoots: [this.extensionUri]
                 }
-            );
+            ));
+
+            this.panel!.webview.html = this.getWebviewContent(ontologyData, fileName, isAutoUpdate);
+        }
+    }
+
+    // Takes over a panel that VS Code recreated after a reload; show() then fills it in place
+    public restore(panel: vscode.WebviewPanel, filePath: string) {
+        this.filePath = filePath;
+        panel.webview.options = {
+            enableScripts: true,
+            localResourceRoots: [this.extensionUri]
+        };
+        panel.title = `OWL Visualization - ${path.basename(filePath)}`;
+        this.attachPanel(panel);
+    }
 
-            this.panel.onDidDispose(() => {
-                this.panel = undefined;
-            }, null);
+    private attachPanel(panel: vscode.WebviewPanel) {
+        this.panel = panel;
 
-            this.panel.webview.onDidReceiveMessage(async (message) => {
-                if (message?.command === 'exportSvg') {
+        panel.onDidDispose(() => {
+            this.panel = undefined;
+            this.onDidDispose?.();
+        }, null);
+
+        panel.webview.onDidReceiveMessage(async (message: WebviewMessage) => {
+            switch (message?.command) {
+                case 'exportSvg':
                     await this.handleSvgExport(message);
-                } else if (message?.command === 'exportMermaid') {
+                    break;
+                case 'exportMermaid':
                     await this.handleMermaidExport(message);
-                }
-            });
+                    break;
+                case 'openLink':
+                    await this.handleOpenLink(message);
+                    break;
+                case 'revealDefinition':
+                    await this.handleRevealDefinition(message);
+                    break;
+                case 'nodeSelected':
+                    this.handleNodeSelected(message);
+                    break;
+                case 'saveFilters':
+                    await this.handleSaveFilters(message);
+                    break;
+                case 'saveView':
+                    await this.handleSaveView(message);
+                    break;
+                case 'deleteView':
+                    await this.handleDeleteView(message);
+                    break;
+            }
+        });
+    }
 
-            this.panel.webview.html = this.getWebviewContent(ontologyData, fileName, isAutoUpdate);
-        }
+    private postMessage(message: HostMessage) {
+        this.panel?.webview.postMessage(message);
     }
 
     private async handleSvgExport(message: { svgContent: string; fileName?: string; }) {
@@ -94,7 +185,7 @@ export class VisualizationPanel {
             });
 
             if (!targetUri) {
-                this.panel.webview.postMessage({
+                this.postMessage({
                     command: 'exportResult',
                     status: 'cancelled',
                     format: 'svg'
@@ -105,7 +196,7 @@ export class VisualizationPanel {
             const data = Buffer.from(message.svgContent, 'utf8');
             await vscode.workspace.fs.writeFile(targetUri, data);
 
-            this.panel.webview.postMessage({
+            this.postMessage({
                 command: 'exportResult',
                 status: 'success',
                 format: 'svg',
@@ -113,7 +204,7 @@ export class VisualizationPanel {
             });
         } catch (error) {
             console.error('Failed to export SVG:', error);
-            this.panel.webview.postMessage({
+            this.postMessage({
                 command: 'exportResult',
                 status: 'error',
                 format: 'svg',
@@ -144,7 +235,7 @@ export class VisualizationPanel {
             });
 
             if (!targetUri) {
-                this.panel.webview.postMessage({
+                this.postMessage({
                     command: 'exportResult',
                     status: 'cancelled',
                     format: 'mermaid'
@@ -155,7 +246,7 @@ export class VisualizationPanel {
             const data = Buffer.from(message.mermaidContent ?? '', 'utf8');
             await vscode.workspace.fs.writeFile(targetUri, data);
 
-            this.panel.webview.postMessage({
+            this.postMessage({
                 command: 'exportResult',
                 status: 'success',
                 format: 'mermaid',
@@ -163,7 +254,7 @@ export class VisualizationPanel {
             });
         } catch (error) {
             console.error('Failed to export Mermaid definition:', error);
-            this.panel.webview.postMessage({
+            this.postMessage({
                 command: 'exportResult',
                 status: 'error',
                 format: 'mermaid',
@@ -174,6 +265,217 @@ export class VisualizationPanel {
         }
     }
 
+    private async handleOpenLink(message: { url?: string; }) {
+        // Only web links; annotation values are untrusted input from the ontology
+        if (typeof message.url === 'string' && /^(https?|mailto):/i.test(message.url)) {
+            await vscode.env.openExternal(vscode.Uri.parse(message.url));
+        }
+    }
+
+    // Node sources come from the webview, which renders untrusted ontology content, so only the
+    // visualized file and the imports it loaded may be opened
+    private sourceFilePath(source: NodeSource): string | undefined {
+        if (!this.filePath) {
+            return undefined;
+        }
+        const requested = path.resolve(source.fileName ?? this.filePath);
+        return [this.filePath, ...this.importFiles].find(candidate => path.resolve(candidate) === requested);
+    }
+
+    private async handleRevealDefinition(message: { label?: string; source?: NodeSource; }) {
+        if (!message.source) {
+            vscode.window.showInformationMessage(`No definition of ${message.label ?? 'this node'} found in the source file`);
+            return;
+        }
+        const filePath = this.sourceFilePath(message.source);
+        if (!filePath) {
+            return;
+        }
+
+        try {
+            const document = await vscode.workspace.openTextDocument(filePath);
+            const position = new vscode.Position(message.source.line, message.source.character);
+            // Reuse the editor column the file is already shown in, if any
+            const visibleEditor = vscode.window.visibleTextEditors.find(editor => editor.document.uri.fsPath === document.uri.fsPath);
+            const editor = await vscode.window.showTextDocument(document, {
+                viewColumn: visibleEditor?.viewColumn ?? vscode.ViewColumn.One,
+                selection: new vscode.Range(position, position)
+            });
+            editor.revealRange(new vscode.Range(position, position), vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+        } catch (error) {
+            console.error('Failed to reveal definition:', error);
+            vscode.window.showErrorMessage(`Failed to open ${path.basename(filePath)}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    // Mirrors a node selected in the graph into an already visible editor, without stealing focus
+    private handleNodeSelected(message: { source?: NodeSource; }) {
+        const filePath = message.source ? this.sourceFilePath(message.source) : undefined;
+        if (!message.source || !filePath) {
+            return;
+        }
+
+        const editor = vscode.window.visibleTextEditors.find(candidate => candidate.document.uri.fsPath === vscode.Uri.file(filePath).fsPath);
+        if (!editor) {
+            return;
+        }
+
+        const position = new vscode.Position(message.source.line, message.source.character);
+        const range = editor.document.getWordRangeAtPosition(position, /<[^>\s]*>|[^\s;,()\[\]]+/) ?? new vscode.Range(position, position);
+        editor.selection = new vscode.Selection(range.start, range.end);
+        editor.revealRange(range, vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+    }
+
+    private getStoredFilters(): ViewFilters | undefined {
+        if (!this.workspaceState || !this.filePath) {
+            return undefined;
+        }
+        return this.workspaceState.get<Record<string, ViewFilters>>(VIEW_FILTERS_KEY, {})[vscode.Uri.file(this.filePath).toString()];
+    }
+
+    private async handleSaveFilters(message: { filters: ViewFilters; }) {
+        if (!this.workspaceState || !this.filePath) {
+            return;
+        }
+
+        const key = vscode.Uri.file(this.filePath).toString();
+        const stored = { ...this.workspaceState.get<Record<string, ViewFilters>>(VIEW_FILTERS_KEY, {}) };
+        const { hiddenNodeTypes, hiddenEdgeTypes, shownNodeTypes, shownEdgeTypes, hiddenNamespaces } = message.filters;
+        const filters = { hiddenNodeTypes, hiddenEdgeTypes, shownNodeTypes, shownEdgeTypes, hiddenNamespaces };
+        if (Object.values(filters).every(list => list.length === 0)) {
+            delete stored[key];
+        } else {
+            stored[key] = filters;
+        }
+        await this.workspaceState.update(VIEW_FILTERS_KEY, stored);
+    }
+
+    private getSavedViews(): SavedView[] {
+        if (!this.filePath) {
+            return [];
+        }
+        try {
+            return loadSavedViews(this.filePath);
+        } catch (error) {
+            console.error('Failed to read saved views:', error);
+            vscode.window.showWarningMessage(`Could not read saved views from ${savedViewsPath(this.filePath)}: ${error instanceof Error ? error.message : String(error)}`);
+            return [];
+        }
+    }
+
+    private async handleSaveView(message: { view: ViewSnapshot; name?: string; }) {
+        if (!this.filePath) {
+            return;
+        }
+
+        const existing = this.getSavedViews().map(view => view.name);
+        const name = (await vscode.window.showInputBox({
+            prompt: `Save the current view of ${path.basename(this.filePath)} to ${path.relative(path.dirname(this.filePath), savedViewsPath(this.filePath))}`,
+            placeHolder: 'View name, e.g. Pizza toppings',
+            value: message.name,
+            validateInput: value => value.trim() ? undefined : 'Enter a name for the view'
+        }))?.trim();
+        if (!name) {
+            return;
+        }
+        // Saving again under the name of the opened view updates it without asking
+        if (existing.includes(name) && name !== message.name) {
+            const choice = await vscode.window.showWarningMessage(`A saved view named "${name}" already exists.`, { modal: true }, 'Replace');
+            if (choice !== 'Replace') {
+                return;
+            }
+        }
+
+        try {
+            const views = storeSavedView(this.filePath, { name, ...message.view });
+            this.postMessage({ command: 'savedViews', views, active: name });
+            vscode.window.showInformationMessage(`Saved view "${name}"`);
+        } catch (error) {
+            console.error('Failed to save view:', error);
+            vscode.window.showErrorMessage(`Failed to save view: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    private async handleDeleteView(message: { name: string; }) {
+        if (!this.filePath) {
+            return;
+        }
+
+        const choice = await vscode.window.showWarningMessage(`Delete the saved view "${message.name}"?`, { modal: true }, 'Delete');
+        if (choice !== 'Delete') {
+            return;
+        }
+
+        try {
+            this.postMessage({ command: 'savedViews', views: deleteSavedView(this.filePath, message.name) });
+        } catch (error) {
+            console.error('Failed to delete view:', error);
+            vscode.window.showErrorMessage(`Failed to delete view: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    // The views file changed on disk, e.g. after a git pull
+    public refreshSavedViews() {
+        if (this.panel) {
+            this.postMessage({ command: 'savedViews', views: this.getSavedViews() });
+        }
+    }
+
+    // The webview answers with a saveView message carrying its current state
+    public saveView() {
+        if (!this.panel) {
+            return;
+        }
+        this.panel.reveal(undefined, false);
+        this.postMessage({ command: 'captureView' });
+    }
+
+    public async openView() {
+        if (!this.panel || !this.filePath) {
+            return;
+        }
+
+        const views = this.getSavedViews();
+        if (views.length === 0) {
+            vscode.window.showInformationMessage(`No saved views for ${path.basename(this.filePath)}`);
+            return;
+        }
+        const picked = await vscode.window.showQuickPick(
+            views.map(view => ({ label: view.name, description: view.focus ? `${view.viewMode} view, focused` : `${view.viewMode} view`, view })),
+            { placeHolder: 'Open which saved view?' }
+        );
+        if (picked) {
+            this.panel.reveal(undefined, false);
+            this.postMessage({ command: 'openView', view: picked.view });
+        }
+    }
+
+    public syncEditorSelection(editor: vscode.TextEditor) {
+        if (!this.panel || !this.filePath || editor.document.uri.fsPath !== vscode.Uri.file(this.filePath).fsPath) {
+            return;
+        }
+
+        const position = editor.selection.active;
+        const iri = iriAtPosition(
+            editor.document.lineAt(position.line).text,
+            position.character,
+            this.prefixes,
+            editor.document.uri.toString()
+        );
+        if (iri) {
+            this.postMessage({ command: 'selectNode', id: iri });
+        }
+    }
+
+    // Brings the panel forward and hands the query to the webview's search field
+    public search(query: string) {
+        if (!this.panel) {
+            return;
+        }
+        this.panel.reveal(undefined, false);
+        this.postMessage({ command: 'search', query });
+    }
+
     private async getDefaultDownloadUri(fileName: string): Promise<vscode.Uri> {
         const downloadsPath = path.join(os.homedir(), 'Downloads');
         const directory = await this.getExistingDirectory(downloadsPath);
@@ -195,7 +497,7 @@ export class VisualizationPanel {
 
     private updateVisualizationData(ontologyData: OntologyData) {
         if (this.panel) {
-            this.panel.webview.postMessage({
+            this.postMessage({
                 command: 'updateData',
                 data: ontologyData
             });
@@ -204,10 +506,24 @@ export class VisualizationPanel {
         }
     }
 
+    // The webview keeps the current graph and shows a banner until the next successful update
+    public showSourceError(message: string) {
+        if (this.panel) {
+            this.postMessage({
+                command: 'sourceError',
+                message
+            });
+        }
+    }
+
     public isVisible(): boolean {
         return this.panel !== undefined;
     }
 
+    public isActive(): boolean {
+        return this.panel?.active === true;
+    }
+
     public dispose() {
         if (this.panel) {
             this.panel.dispose();
@@ -249,23 +565,36 @@ export class VisualizationPanel {
         const stylesUri = this.panel?.webview.asWebviewUri(
             vscode.Uri.joinPath(this.extensionUri, 'out', 'styles.js')  // Changed from 'src' to 'out'
         );
-                        
-        // Escape the data to prevent template literal issues
-        const dataStr = Buffer.from(JSON.stringify(ontologyData), 'utf8').toString('base64');
+        const libraryUris = WEBVIEW_LIBRARIES.map(segments =>
+            this.panel?.webview.asWebviewUri(vscode.Uri.joinPath(this.extensionUri, 'node_modules', ...segments))
+        );
+        const webviewScriptUri = this.panel?.webview.asWebviewUri(
+            vscode.Uri.joinPath(this.extensionUri, 'out', 'webview.js')
+        );
+        const cspSource = this.panel?.webview.cspSource ?? '';
+        const nonce = crypto.randomBytes(16).toString('base64');
+
+        // Read by src/webview/main.ts; escaping '<' keeps the JSON from closing its script element
+        const bootstrapData: WebviewBootstrap = {
+            data: ontologyData,
+            labelSettings: getLabelSettings(),
+            hierarchySettings: getHierarchySettings(),
+            filters: this.getStoredFilters(),
+            savedViews: this.getSavedViews(),
+            sourceFile: this.filePath ?? '',
+            showUpdateIndicator: isAutoUpdate
+        };
+        const bootstrap = JSON.stringify(bootstrapData).replace(/</g, '\\u003c');
         
         const htmlContent = `<!DOCTYPE html>
 <html lang="en">
 <head>
     <meta charset="UTF-8">
     <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src ${cspSource} data:; style-src ${cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
     <title>OWL Ontology Visualization</title>
-    <script src="https://unpkg.com/cytoscape@3.26.0/dist/cytoscape.min.js"></script>
-    <script src="https://unpkg.com/dagre@0.8.5/dist/dagre.min.js"></script>
-    <script src="https://unpkg.com/cytoscape-dagre@2.5.0/cytoscape-dagre.js"></script>
-    <script src="https://unpkg.com/klayjs@0.4.1/klay.js"></script>
-    <script src="https://unpkg.com/cytoscape-klay@3.1.4/cytoscape-klay.js"></script>
-    <script src="https://unpkg.com/cytoscape-svg@0.4.0/cytoscape-svg.js"></script>
-    <script src="${stylesUri}"></script>
+    ${libraryUris.map(uri => `<script nonce="${nonce}" src="${uri}"></script>`).join('\n    ')}
+    <script nonce="${nonce}" src="${stylesUri}"></script>
     <style>
         body {
             font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif;
@@ -302,7 +631,7 @@ export class VisualizationPanel {
             align-items: center;
         }
         
-        #layoutSelect, #exportFormat {
+        #layoutSelect, #exportFormat, #graphSelect, #importSelect, #languageSelect, #focusDirection, #focusEdgeType {
             background-color: #3C3C3C;
             color: #CCCCCC;
             border: 1px solid #3C3C3C;
@@ -310,7 +639,67 @@ export class VisualizationPanel {
             padding: 4px 8px;
         }
 
-        .export-controls {
+        .search-controls {
+            position: relative;
+            display: flex;
+            gap: 6px;
+            align-items: center;
+        }
+
+        #searchInput {
+            width: 180px;
+            background-color: #3C3C3C;
+            color: #CCCCCC;
+            border: 1px solid #3C3C3C;
+            border-radius: 3px;
+            padding: 4px 8px;
+        }
+
+        #searchInput:focus {
+            outline: 1px solid #0E639C;
+        }
+
+        #searchCount {
+            font-size: 11px;
+            color: #999999;
+            white-space: nowrap;
+        }
+
+        #searchResults {
+            position: absolute;
+            top: 100%;
+            left: 0;
+            margin-top: 4px;
+            width: 320px;
+            max-height: 300px;
+            overflow-y: auto;
+            background-color: #252526;
+            border: 1px solid #3C3C3C;
+            border-radius: 3px;
+            box-shadow: 0 4px 12px rgba(0, 0, 0, 0.3);
+            display: none;
+            z-index: 20;
+        }
+
+        .search-result {
+            padding: 4px 8px;
+            cursor: pointer;
+        }
+
+        .search-result:hover, .search-result.active {
+            background-color: #094771;
+        }
+
+        .search-result small {
+            display: block;
+            color: #999999;
+            overflow: hidden;
+            text-overflow: ellipsis;
+            white-space: nowrap;
+        }
+
+        .export-controls,
+        .view-controls {
             display: flex;
             gap: 6px;
             align-items: center;
@@ -330,6 +719,41 @@ export class VisualizationPanel {
             background-color: #1177BB;
         }
         
+        #focus-bar {
+            padding: 6px 20px;
+            background-color: ${themeColors.panelBackground};
+            border-bottom: 1px solid ${isDarkTheme ? '#3C3C3C' : '#E1E1E1'};
+            display: none;
+            gap: 8px;
+            align-items: center;
+            font-size: 12px;
+        }
+
+        #focus-bar button {
+            padding: 3px 10px;
+        }
+
+        .focus-trail {
+            flex: 1;
+            overflow: hidden;
+            text-overflow: ellipsis;
+            white-space: nowrap;
+        }
+
+        .focus-trail a {
+            color: #3794FF;
+            cursor: pointer;
+        }
+
+        .focus-trail .separator {
+            margin: 0 6px;
+            color: #999999;
+        }
+
+        .info-actions {
+            margin-top: 10px;
+        }
+
         #cy {
             flex: 1;
             background-color: #1E1E1E;
@@ -344,10 +768,63 @@ export class VisualizationPanel {
             border-radius: 5px;
             padding: 15px;
             max-width: 300px;
+            max-height: calc(100% - 140px);
+            overflow-y: auto;
             box-shadow: 0 4px 12px rgba(0, 0, 0, 0.3);
             display: none;
         }
         
+        #filter-panel {
+            position: absolute;
+            top: 60px;
+            left: 20px;
+            width: 240px;
+            max-height: calc(100% - 220px);
+            overflow-y: auto;
+            background-color: #252526;
+            border: 1px solid #3C3C3C;
+            border-radius: 5px;
+            padding: 10px 12px;
+            font-size: 12px;
+            box-shadow: 0 4px 12px rgba(0, 0, 0, 0.3);
+            display: none;
+            z-index: 5;
+        }
+
+        .filter-header {
+            display: flex;
+            justify-content: space-between;
+            align-items: center;
+        }
+
+        .filter-header button {
+            padding: 2px 8px;
+        }
+
+        .filter-section h4 {
+            margin: 10px 0 4px 0;
+            font-size: 12px;
+        }
+
+        .filter-option {
+            display: flex;
+            gap: 6px;
+            align-items: center;
+            padding: 1px 0;
+            cursor: pointer;
+        }
+
+        .filter-option .filter-name {
+            flex: 1;
+            overflow: hidden;
+            text-overflow: ellipsis;
+            white-space: nowrap;
+        }
+
+        .filter-option .filter-count {
+            color: #999999;
+        }
+
         #stats {
             position: absolute;
             bottom: 20px;
@@ -359,6 +836,48 @@ export class VisualizationPanel {
             font-size: 12px;
         }
         
+        .fatal-error {
+            padding: 20px;
+            margin: 20px;
+            color: #ff6b6b;
+            background: #2d2d2d;
+            border: 2px solid #ff6b6b;
+            border-radius: 5px;
+            font-family: monospace;
+        }
+
+        .fatal-error h3 {
+            margin-top: 0;
+        }
+
+        .fatal-error pre {
+            background: #1e1e1e;
+            padding: 10px;
+            border-radius: 3px;
+            overflow: auto;
+        }
+
+        #source-error {
+            position: absolute;
+            top: 60px;
+            left: 50%;
+            transform: translateX(-50%);
+            max-width: 60%;
+            background-color: #5A1D1D;
+            border: 1px solid #BE1100;
+            border-radius: 5px;
+            padding: 6px 12px;
+            font-size: 12px;
+            color: #FFFFFF;
+            display: none;
+            z-index: 10;
+        }
+        
+        #source-error button {
+            margin-left: 8px;
+            padding: 0 6px;
+        }
+        
         #file-status {
             position: absolute;
             bottom: 20px;
@@ -401,6 +920,36 @@ export class VisualizationPanel {
             margin: 4px 0;
             font-size: 12px;
         }
+        
+        .node-info .annotation-value {
+            white-space: pre-wrap;
+        }
+        
+        .node-info a {
+            color: #3794FF;
+            cursor: pointer;
+        }
+        
+        .node-info .statements summary {
+            margin: 8px 0 4px 0;
+            font-size: 12px;
+            font-weight: bold;
+            cursor: pointer;
+        }
+        
+        .badge.deprecated {
+            background-color: #A1260D;
+        }
+        
+        .badge {
+            display: inline-block;
+            margin: 2px 4px 2px 0;
+            padding: 1px 6px;
+            border-radius: 8px;
+            background-color: #0E639C;
+            color: white;
+            font-size: 11px;
+        }
     </style>
 </head>
 <body>
@@ -408,6 +957,11 @@ export class VisualizationPanel {
         <div id="header">
             <div id="title">OWL Ontology: ${fileName}</div>
             <div id="controls">
+                <div class="search-controls">
+                    <input id="searchInput" type="search" placeholder="Search nodes" title="Labels, local names, IRIs and comments. Enter steps through the matches, Shift+Enter goes back, Escape clears" autocomplete="off" spellcheck="false">
+                    <span id="searchCount"></span>
+                    <div id="searchResults"></div>
+                </div>
                 <select id="layoutSelect">
                     <option value="dagre">Hierarchical (Dagre)</option>
                     <option value="klay">Hierarchical (Klay)</option>
@@ -416,10 +970,22 @@ export class VisualizationPanel {
                     <option value="cose">Force-directed (CoSE)</option>
                     <option value="breadthfirst">Breadth-first</option>
                 </select>
+                <select id="graphSelect" title="Named graph" style="display: none;"></select>
+                <select id="importSelect" title="Imported ontologies" style="display: none;"></select>
+                <select id="languageSelect" title="Label language" style="display: none;"></select>
+                <button id="labelModeToggle">Show IRIs</button>
                 <button id="viewToggle">Switch to Instance View</button>
-                <button onclick="fitGraph()">Fit to View</button>
-                <button onclick="resetZoom()">Reset Zoom</button>
-                <button onclick="redrawDiagram()">Redraw</button>
+                <button id="taxonomyToggle">Taxonomy View</button>
+                <button id="filterToggle" title="Show or hide node types, relations and namespaces">Filters</button>
+                <div class="view-controls">
+                    <select id="savedViewSelect" title="Saved views"></select>
+                    <button id="saveViewButton" title="Save filters, focus, collapsed nodes, layout and viewport as a named view">Save View</button>
+                    <button id="deleteViewButton" title="Delete this saved view" style="display: none;">×</button>
+                </div>
+                <button id="fitButton">Fit to View</button>
+                <button id="resetZoomButton">Reset Zoom</button>
+                <button id="redrawButton">Redraw</button>
+                <button id="expandAllButton" title="Expand every collapsed subtree" style="display: none;">Expand All</button>
                 <div class="export-controls">
                     <select id="exportFormat">
                         <option value="svg">Export as SVG</option>
@@ -430,10 +996,47 @@ export class VisualizationPanel {
             </div>
         </div>
         
+        <div id="focus-bar">
+            <span id="focusTrail" class="focus-trail"></span>
+            <button id="focusNarrow" title="One hop less">−</button>
+            <span id="focusDepth"></span>
+            <button id="focusWiden" title="One hop more">+</button>
+            <select id="focusDirection" title="Follow relations">
+                <option value="both">Both directions</option>
+                <option value="outgoing">Outgoing</option>
+                <option value="incoming">Incoming</option>
+            </select>
+            <select id="focusEdgeType" title="Relation type"></select>
+            <button id="focusExit">Exit Focus</button>
+        </div>
+        
         <div id="cy"></div>
         
+        <div id="filter-panel">
+            <div class="filter-header">
+                <strong>Filters</strong>
+                <button id="filterReset" title="Back to the view's default node and relation types">Reset</button>
+            </div>
+            <div class="filter-section">
+                <h4>Node types</h4>
+                <div id="nodeTypeFilters" data-group="nodeType"></div>
+            </div>
+            <div class="filter-section">
+                <h4>Relations</h4>
+                <div id="edgeTypeFilters" data-group="edgeType"></div>
+            </div>
+            <div class="filter-section">
+                <h4>Namespaces</h4>
+                <div id="namespaceFilters" data-group="namespace"></div>
+            </div>
+        </div>
+        
         <div id="info">
             <div id="nodeInfo" class="node-info"></div>
+            <div class="info-actions">
+                <button id="focusButton" title="Show only this node and its neighbours">Focus</button>
+                <button id="collapseButton" title="Hide or show the subclasses and narrower concepts of this node">Collapse</button>
+            </div>
         </div>
         
         <div id="stats">
@@ -445,792 +1048,20 @@ export class VisualizationPanel {
             <div>Relations: <span id="edgeCount">0</span></div>
         </div>
         
+        <div id="source-error">
+            <strong>Source has errors, showing last valid graph.</strong>
+            <span id="sourceErrorMessage"></span>
+            <button id="sourceErrorDismiss" title="Dismiss">×</button>
+        </div>
+        
         <div id="file-status">
             <span class="status-indicator" id="statusDot"></span>
             <span id="statusText">Auto-updating</span>
         </div>
     </div>
 
-    <script>
-        (function() {
-            const vscodeApi = typeof acquireVsCodeApi === 'function' ? acquireVsCodeApi() : null;
-            
-            // Enhanced error display function
-            function showError(message, error) {
-                console.error(message, error);
-                const cyContainer = document.getElementById('cy');
-                if (cyContainer) {
-                    cyContainer.innerHTML = '<div style="padding: 20px; color: #ff6b6b; background: #2d2d2d; border: 2px solid #ff6b6b; border-radius: 5px; margin: 20px; font-family: monospace;"><h3 style="margin-top: 0;">Error</h3><p><strong>' + message + '</strong></p><pre style="background: #1e1e1e; padding: 10px; border-radius: 3px; overflow: auto;">' + (error ? String(error.stack || error) : 'No additional details') + '</pre></div>';
-                }
-            }
-            
-            try {
-                const dataStringBase64 = '${dataStr}';
-
-                function decodeBase64ToJsonString(base64Data) {
-                    if (!base64Data) {
-                        throw new Error('No data payload provided');
-                    }
-
-                    try {
-                        const binary = atob(base64Data);
-                        const len = binary.length;
-                        const bytes = new Uint8Array(len);
-                        for (let i = 0; i < len; i++) {
-                            bytes[i] = binary.charCodeAt(i);
-                        }
-                        if (typeof TextDecoder !== 'undefined') {
-                            return new TextDecoder('utf-8').decode(bytes);
-                        }
-
-                        // Fallback if TextDecoder is unavailable
-                        let result = '';
-                        const chunkSize = 0x8000;
-                        for (let i = 0; i < len; i += chunkSize) {
-                            result += String.fromCharCode.apply(null, bytes.subarray(i, i + chunkSize));
-                        }
-                        return decodeURIComponent(escape(result));
-                    } catch (error) {
-                        console.error('Failed to decode base64 payload', error);
-                        showError('Failed to decode ontology data payload', error);
-                        throw error;
-                    }
-                }
-
-                const dataString = decodeBase64ToJsonString(dataStringBase64);
-
-                const ontologyData = JSON.parse(dataString);
-                console.log('Ontology payload decoded (nodes: ' + ontologyData.nodes.length + ', edges: ' + ontologyData.edges.length + ')');
-                
-                if (typeof cytoscape === 'undefined') {
-                    showError('Cytoscape library not loaded', new Error('cytoscape global is undefined'));
-                    return;
-                }
-                
-                let dagreAvailable = false;
-                let klayAvailable = false;
-
-                if (typeof cytoscapeSvg !== 'undefined') {
-                    try {
-                        cytoscape.use(cytoscapeSvg);
-                    } catch (error) {
-                        console.warn('Failed to register cytoscape-svg extension:', error);
-                    }
-                } else {
-                    console.warn('cytoscape-svg extension not detected; SVG export will be disabled');
-                }
-
-                if (typeof cytoscapeDagre !== 'undefined') {
-                    try {
-                        cytoscape.use(cytoscapeDagre);
-                        dagreAvailable = true;
-                    } catch (error) {
-                        console.warn('Failed to register cytoscape-dagre extension via use call:', error);
-                    }
-                } else {
-                    console.warn('cytoscape-dagre global not detected; dagre registration skipped');
-                }
-
-                if (typeof cytoscapeKlay !== 'undefined') {
-                    try {
-                        cytoscape.use(cytoscapeKlay);
-                        klayAvailable = true;
-                    } catch (error) {
-                        console.warn('Failed to register cytoscape-klay extension via use call:', error);
-                    }
-                } else {
-                    console.warn('cytoscape-klay global not detected; klay registration skipped');
-                }
-
-                if (typeof cytoscape.extension === 'function') {
-                    dagreAvailable = dagreAvailable || Boolean(cytoscape.extension('layout', 'dagre'));
-                    klayAvailable = klayAvailable || Boolean(cytoscape.extension('layout', 'klay'));
-                }
-
-                if (!dagreAvailable) {
-                    console.warn('cytoscape-dagre layout extension not detected; dagre layout may be unavailable');
-                }
-                if (!klayAvailable) {
-                    console.warn('cytoscape-klay layout extension not detected; klay layout will fallback to dagre');
-                }
-
-                function buildLayoutOptions(layoutName, nodeCount) {
-                    switch (layoutName) {
-                        case 'dagre':
-                            return {
-                                name: 'dagre',
-                                directed: true,
-                                padding: 30,
-                                spacingFactor: 1.2,
-                                rankDir: 'TB'
-                            };
-                        case 'klay':
-                            if (!klayAvailable) {
-                                console.warn('Klay layout requested but unavailable; falling back to dagre');
-                                return buildLayoutOptions('dagre', nodeCount);
-                            }
-                            return {
-                                name: 'klay',
-                                nodeDimensionsIncludeLabels: true,
-                                padding: 40,
-                                animate: false,
-                                klay: {
-                                    direction: 'DOWN',
-                                    spacing: 80,
-                                    borderSpacing: 25,
-                                    inLayerSpacingFactor: 1.2,
-                                    edgeRouting: 'ORTHOGONAL'
-                                }
-                            };
-                        case 'circle':
-                            return {
-                                name: 'circle',
-                                padding: 30,
-                                radius: 200
-                            };
-                        case 'grid':
-                            return {
-                                name: 'grid',
-                                padding: 30,
-                                rows: Math.ceil(Math.sqrt(nodeCount))
-                            };
-                        case 'cose':
-                            return {
-                                name: 'cose',
-                                padding: 30,
-                                nodeRepulsion: 400000,
-                                idealEdgeLength: 100,
-                                edgeElasticity: 100
-                            };
-                        case 'breadthfirst':
-                            return {
-                                name: 'breadthfirst',
-                                padding: 30,
-                                directed: true,
-                                spacingFactor: 1.5
-                            };
-                        default:
-                            return {
-                                name: layoutName,
-                                padding: 30
-                            };
-                    }
-                }
-
-                const layoutSelect = document.getElementById('layoutSelect');
-                if (layoutSelect) {
-                    const klayOption = layoutSelect.querySelector('option[value="klay"]');
-                    if (klayOption) {
-                        klayOption.disabled = !klayAvailable;
-                        klayOption.textContent = klayAvailable ? 'Hierarchical (Klay)' : 'Hierarchical (Klay unavailable)';
-                    }
-                }
-
-                const viewToggleButton = document.getElementById('viewToggle');
-                const exportButton = document.getElementById('exportButton');
-                const exportFormatSelect = document.getElementById('exportFormat');
-
-                let baseData = ontologyData;
-                let currentViewMode = 'ontology';
-                let activeViewData = null;
-                window.currentLayout = 'dagre';
-
-                function buildViewData(data, mode) {
-                    const nodesById = new Map(data.nodes.map(node => [node.id, node]));
-                    const includedNodes = new Map();
-                    const allowedEdgeTypesOntology = new Set(['subClassOf', 'subPropertyOf', 'type', 'domain', 'range', 'skosInScheme', 'other']);
-                    const allowedEdgeTypesInstance = new Set(['type', 'propertyAssertion', 'dataAssertion', 'skosInScheme']);
-                    const allowedNodeTypesInstance = new Set(['individual', 'class', 'literal', 'skosConcept', 'skosConceptScheme']);
-                    const allowedEdgeTypes = mode === 'ontology' ? allowedEdgeTypesOntology : allowedEdgeTypesInstance;
-                    const allowedNodeTypes = mode === 'ontology' ? null : allowedNodeTypesInstance;
-
-                    data.nodes.forEach(node => {
-                        if (!allowedNodeTypes && node.type === 'literal') {
-                            return;
-                        }
-                        if (allowedNodeTypes && !allowedNodeTypes.has(node.type)) {
-                            return;
-                        }
-                        if (mode === 'instance' && node.type === 'class') {
-                            return;
-                        }
-                        includedNodes.set(node.id, node);
-                    });
-
-                    const ensureNodeIncluded = (id) => {
-                        if (includedNodes.has(id)) {
-                            return;
-                        }
-                        const candidate = nodesById.get(id);
-                        if (!candidate) {
-                            return;
-                        }
-                        if (!allowedNodeTypes && candidate.type === 'literal') {
-                            return;
-                        }
-                        if (allowedNodeTypes && !allowedNodeTypes.has(candidate.type)) {
-                            return;
-                        }
-                        includedNodes.set(id, candidate);
-                    };
-
-                    const filteredEdges = data.edges.filter(edge => {
-                        if (!allowedEdgeTypes.has(edge.type)) {
-                            return false;
-                        }
-                        ensureNodeIncluded(edge.source);
-                        ensureNodeIncluded(edge.target);
-                        return includedNodes.has(edge.source) && includedNodes.has(edge.target);
-                    });
-
-                    const nodes = Array.from(includedNodes.values()).map(node => ({ ...node }));
-                    const nodeIdSet = new Set(nodes.map(node => node.id));
-                    let edges = filteredEdges
-                        .filter(edge => nodeIdSet.has(edge.source) && nodeIdSet.has(edge.target))
-                        .map(edge => ({ ...edge }));
-
-                    if (mode === 'instance') {
-                        const nodeLookup = new Map(nodes.map(node => [node.id, node]));
-                        const classDecorators = new Map();
-                        const classUsage = new Set();
-                        const retainedEdges = [];
-
-                        edges.forEach(edge => {
-                            if (edge.type === 'type') {
-                                const individualNode = nodeLookup.get(edge.source);
-                                const classNodeOriginal = nodesById.get(edge.target);
-                                if (individualNode && individualNode.type === 'individual' && classNodeOriginal && classNodeOriginal.type === 'class') {
-                                    const decoratorLabel = classNodeOriginal.label || classNodeOriginal.id;
-                                    if (!classDecorators.has(edge.source)) {
-                                        classDecorators.set(edge.source, new Set());
-                                    }
-                                    classDecorators.get(edge.source).add(decoratorLabel);
-                                }
-                                return;
-                            }
-
-                            retainedEdges.push(edge);
-
-                            const sourceNode = nodeLookup.get(edge.source);
-                            const targetNode = nodeLookup.get(edge.target);
-                            if (sourceNode && sourceNode.type === 'class') {
-                                classUsage.add(sourceNode.id);
-                            }
-                            if (targetNode && targetNode.type === 'class') {
-                                classUsage.add(targetNode.id);
-                            }
-                        });
-
-                        edges = retainedEdges;
-
-                        const decoratedNodes = [];
-                        nodes.forEach(node => {
-                            if (node.type === 'class' && !classUsage.has(node.id)) {
-                                return;
-                            }
-
-                            if (node.type === 'individual') {
-                                const decorators = classDecorators.get(node.id);
-                                if (decorators && decorators.size > 0) {
-                                    const sortedDecorators = Array.from(decorators).sort((a, b) => a.localeCompare(b));
-                                    const decoratorText = sortedDecorators.join(', ');
-                                    const baseLabel = node.label || node.id;
-                                    decoratedNodes.push({
-                                        ...node,
-                                        label: '<<' + decoratorText + '>>' + String.fromCharCode(10) + baseLabel
-                                    });
-                                    return;
-                                }
-                            }
-
-                            decoratedNodes.push(node);
-                        });
-
-                        return { nodes: decoratedNodes, edges };
-                    }
-
-                    return { nodes, edges };
-                }
-
-                function createElements(viewData) {
-                    return [
-                        ...viewData.nodes.map(node => ({
-                            data: {
-                                id: node.id,
-                                label: node.label,
-                                type: node.type,
-                                uri: node.uri
-                            }
-                        })),
-                        ...viewData.edges.map(edge => ({
-                            data: {
-                                id: edge.id,
-                                source: edge.source,
-                                target: edge.target,
-                                label: edge.label,
-                                type: edge.type,
-                                bidirectional: edge.bidirectional ? 'true' : undefined
-                            }
-                        }))
-                    ];
-                }
-
-                function updateStats(dataForStats) {
-                    const stats = dataForStats.nodes.reduce((acc, node) => {
-                        acc[node.type] = (acc[node.type] || 0) + 1;
-                        return acc;
-                    }, {});
-
-                    document.getElementById('classCount').textContent = stats.class || 0;
-                    document.getElementById('propertyCount').textContent = stats.property || 0;
-                    document.getElementById('individualCount').textContent = stats.individual || 0;
-                    document.getElementById('skosConceptCount').textContent = stats.skosConcept || 0;
-                    document.getElementById('skosConceptSchemeCount').textContent = stats.skosConceptScheme || 0;
-                    document.getElementById('edgeCount').textContent = dataForStats.edges.length;
-                }
-
-                function updateViewToggleButton() {
-                    if (!viewToggleButton) {
-                        return;
-                    }
-                    viewToggleButton.textContent = currentViewMode === 'ontology' ? 'Switch to Instance View' : 'Switch to Ontology View';
-                }
-
-                activeViewData = buildViewData(baseData, currentViewMode);
-
-                const elements = createElements(activeViewData);
-                if (typeof OWL_VISUALIZATION_STYLES === 'undefined') {
-                    showError('OWL_VISUALIZATION_STYLES not loaded', new Error('styles.js may not be loaded'));
-                    return;
-                }
-                const layoutOptions = buildLayoutOptions(window.currentLayout, activeViewData.nodes.length);
-                const cy = cytoscape({
-                    container: document.getElementById('cy'),
-                    elements: elements,
-                    style: OWL_VISUALIZATION_STYLES,
-                    layout: layoutOptions
-                });
-                console.log('Cytoscape initialized (nodes: ' + cy.nodes().length + ', edges: ' + cy.edges().length + ', layout: ' + layoutOptions.name + ')');
-                
-                window.cy = cy;
-                updateStats(activeViewData);
-                updateViewToggleButton();
-                
-                cy.on('tap', 'node', function(evt) {
-                    const node = evt.target;
-                    const nodeData = node.data();
-                    
-                    const infoPanel = document.getElementById('info');
-                    const nodeInfo = document.getElementById('nodeInfo');
-                    
-                    let html = '<h3>' + nodeData.label + '</h3>';
-                    html += '<p><strong>Type:</strong> ' + nodeData.type + '</p>';
-                    html += '<p><strong>ID:</strong> ' + nodeData.id + '</p>';
-                    if (nodeData.uri) {
-                        html += '<p><strong>URI:</strong> <small>' + nodeData.uri + '</small></p>';
-                    }
-                    
-                    nodeInfo.innerHTML = html;
-                    infoPanel.style.display = 'block';
-                });
-                
-                cy.on('tap', function(evt) {
-                    if (evt.target === cy) {
-                        document.getElementById('info').style.display = 'none';
-                    }
-                });
-                
-                if (layoutSelect) {
-                    layoutSelect.addEventListener('change', function() {
-                        const requestedLayout = this.value;
-                        const layoutOptions = buildLayoutOptions(requestedLayout, cy.nodes().length);
-                        window.currentLayout = layoutOptions.name;
-                        if (layoutSelect.value !== layoutOptions.name) {
-                            layoutSelect.value = layoutOptions.name;
-                        }
-                        const layout = cy.layout(layoutOptions);
-                        layout.run();
-                        layout.once('layoutstop', () => {
-                            setTimeout(() => {
-                                cy.fit();
-                            }, 50);
-                        });
-                    });
-                    
-                    layoutSelect.value = window.currentLayout || 'dagre';
-                }
-
-                if (exportButton && exportFormatSelect) {
-                    exportButton.addEventListener('click', () => {
-                        const format = exportFormatSelect.value;
-                        if (format === 'mermaid') {
-                            window.exportMermaid();
-                        } else {
-                            window.exportSvg();
-                        }
-                    });
-                }
-
-                if (viewToggleButton) {
-                    viewToggleButton.addEventListener('click', () => {
-                        const nextMode = currentViewMode === 'ontology' ? 'instance' : 'ontology';
-                        applyView(nextMode, { preserveViewport: false });
-                    });
-                }
-                
-                window.fitGraph = function() {
-                    cy.fit();
-                };
-                
-                window.resetZoom = function() {
-                    cy.zoom(1);
-                    cy.center();
-                };
-                
-                window.redrawDiagram = function() {
-                    // Get current layout
-                    const currentLayout = window.currentLayout || 'dagre';
-                    const layoutOptions = buildLayoutOptions(currentLayout, cy.nodes().length);
-                    window.currentLayout = layoutOptions.name;
-                    if (layoutSelect && layoutSelect.value !== window.currentLayout) {
-                        layoutSelect.value = window.currentLayout;
-                    }
-
-                    const layout = cy.layout(layoutOptions);
-                    layout.run();
-                    layout.once('layoutstop', () => {
-                        setTimeout(() => {
-                            cy.fit();
-                        }, 100);
-                    });
-                    console.log('Diagram redraw triggered with layout: ' + window.currentLayout);
-                };
-
-                function sanitizeMermaidText(text, options = {}) {
-                    const allowLineBreaks = Boolean(options && options.allowLineBreaks);
-                    let value = String(text ?? '').trim();
-                    if (allowLineBreaks) {
-                        value = value.replace(/\\r?\\n+/g, '<br/>');
-                    } else {
-                        value = value.replace(/\\r?\\n+/g, ' ');
-                    }
-                    const backtickChar = String.fromCharCode(96);
-                    value = value.split(backtickChar).join("'");
-                    value = value.replace(/'/g, '&#39;');
-                    value = value.replace(/"/g, '&quot;');
-                    value = value.replace(/\\\|/g, '/');
-                    return value;
-                }
-
-                function sanitizeMermaidIdentifier(text, fallback) {
-                    const primary = String(text ?? '').trim();
-                    const secondary = String(fallback ?? '').trim() || 'node';
-                    const base = primary || secondary;
-                    let identifier = typeof base.normalize === 'function' ? base.normalize('NFKD') : base;
-                    identifier = identifier.replace(/[^A-Za-z0-9_\\s-]/g, '_');
-                    identifier = identifier.replace(/[\\s-]+/g, '_');
-                    identifier = identifier.replace(/_+/g, '_');
-                    identifier = identifier.replace(/^_+/, '').replace(/_+$/, '');
-                    if (!identifier) {
-                        let fallbackIdentifier = secondary.replace(/[^A-Za-z0-9_\\s-]/g, '_');
-                        fallbackIdentifier = fallbackIdentifier.replace(/[\\s-]+/g, '_');
-                        fallbackIdentifier = fallbackIdentifier.replace(/_+/g, '_');
-                        fallbackIdentifier = fallbackIdentifier.replace(/^_+/, '').replace(/_+$/, '');
-                        identifier = fallbackIdentifier || 'node';
-                    }
-                    if (/^[0-9]/.test(identifier)) {
-                        identifier = '_' + identifier;
-                    }
-                    return identifier;
-                }
-
-                function buildMermaidDefinition(viewData) {
-                    if (!viewData) {
-                        return 'graph TD';
-                    }
-
-                    const usedMermaidIds = new Set();
-
-                    const reserveMermaidId = (preferred, fallback) => {
-                        const baseId = sanitizeMermaidIdentifier(preferred, fallback);
-                        let candidate = baseId;
-                        let index = 2;
-                        while (usedMermaidIds.has(candidate)) {
-                            candidate = baseId + '_' + index;
-                            index++;
-                        }
-                        usedMermaidIds.add(candidate);
-                        return candidate;
-                    };
-
-                    const lines = [
-                        '%% Auto-generated by OWL Ontology Visualizer',
-                        'graph TD'
-                    ];
-
-                    const nodeAliasMap = new Map();
-
-                    viewData.nodes.forEach((node, index) => {
-                        const preferredLabel = node.label || node.id;
-                        const alias = reserveMermaidId(preferredLabel, node.id || ('node_' + index));
-                        nodeAliasMap.set(node.id, alias);
-
-                        const labelParts = [];
-                        if (node.label) {
-                            labelParts.push(sanitizeMermaidText(node.label, { allowLineBreaks: true }));
-                        } else {
-                            labelParts.push(sanitizeMermaidText(node.id, { allowLineBreaks: true }));
-                        }
-
-                        if (node.type) {
-                            labelParts.push(sanitizeMermaidText(node.type));
-                        }
-
-                        const combinedLabel = labelParts.join('<br/>') || sanitizeMermaidText(node.id);
-                        lines.push('    ' + alias + '["' + combinedLabel + '"]');
-                    });
-
-                    const seenEdges = new Set();
-
-                    viewData.edges.forEach(edge => {
-                        const sourceAlias = nodeAliasMap.get(edge.source);
-                        const targetAlias = nodeAliasMap.get(edge.target);
-                        if (!sourceAlias || !targetAlias) {
-                            return;
-                        }
-
-                        const label = sanitizeMermaidText(edge.label || '');
-                        const connector = label ? '-->|' + label + '|' : '-->';
-                        const edgeLine = sourceAlias + connector + targetAlias;
-
-                        if (!seenEdges.has(edgeLine)) {
-                            lines.push('    ' + edgeLine);
-                            seenEdges.add(edgeLine);
-                        }
-
-                        if (edge.bidirectional === 'true' || edge.bidirectional === true) {
-                            const reverseLine = targetAlias + connector + sourceAlias;
-                            if (!seenEdges.has(reverseLine)) {
-                                lines.push('    ' + reverseLine);
-                                seenEdges.add(reverseLine);
-                            }
-                        }
-                    });
-
-                    return lines.join('\\n');
-                }
-
-                window.exportSvg = function() {
-                    if (!window.cy) {
-                        console.error('Cannot export SVG: cytoscape instance not initialized');
-                        return;
-                    }
-
-                    if (typeof window.cy.svg !== 'function') {
-                        console.error('cytoscape-svg extension is unavailable; export cancelled');
-                        const statusText = document.getElementById('statusText');
-                        if (statusText) {
-                            statusText.textContent = 'SVG export unavailable';
-                            setTimeout(() => {
-                                statusText.textContent = 'Auto-updating';
-                            }, 2000);
-                        }
-                        return;
-                    }
-
-                    try {
-                        const svgContent = window.cy.svg({
-                            full: true,
-                            scale: 1,
-                            bg: getComputedStyle(document.body).backgroundColor
-                        });
-
-                        const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-                        const statusText = document.getElementById('statusText');
-                        if (statusText) {
-                            statusText.textContent = 'Preparing SVG...';
-                        }
-
-                        if (vscodeApi) {
-                            vscodeApi.postMessage({
-                                command: 'exportSvg',
-                                svgContent,
-                                fileName: 'owl-visualization-' + timestamp + '.svg'
-                            });
-                        } else {
-                            console.warn('VS Code API unavailable in webview; cannot trigger export');
-                            if (statusText) {
-                                statusText.textContent = 'SVG export unavailable';
-                                setTimeout(() => {
-                                    statusText.textContent = 'Auto-updating';
-                                }, 2000);
-                            }
-                        }
-                    } catch (error) {
-                        console.error('Failed to export SVG:', error);
-                        const statusText = document.getElementById('statusText');
-                        if (statusText) {
-                            statusText.textContent = 'SVG export failed';
-                            setTimeout(() => {
-                                statusText.textContent = 'Auto-updating';
-                            }, 2000);
-                        }
-                    }
-                };
-
-                window.exportMermaid = function() {
-                    const statusText = document.getElementById('statusText');
-                    if (statusText) {
-                        statusText.textContent = 'Preparing Mermaid...';
-                    }
-
-                    try {
-                        const exportData = activeViewData || buildViewData(baseData, currentViewMode) || baseData;
-                        const mermaidContent = buildMermaidDefinition(exportData);
-                        const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-
-                        if (vscodeApi) {
-                            vscodeApi.postMessage({
-                                command: 'exportMermaid',
-                                mermaidContent,
-                                fileName: 'owl-visualization-' + timestamp + '.mmd'
-                            });
-                        } else {
-                            console.warn('VS Code API unavailable in webview; cannot trigger export');
-                            if (statusText) {
-                                statusText.textContent = 'Mermaid export unavailable';
-                                setTimeout(() => {
-                                    statusText.textContent = 'Auto-updating';
-                                }, 2000);
-                            }
-                        }
-                    } catch (error) {
-                        console.error('Failed to export Mermaid definition:', error);
-                        if (statusText) {
-                            statusText.textContent = 'Mermaid export failed';
-                            setTimeout(() => {
-                                statusText.textContent = 'Auto-updating';
-                            }, 2000);
-                        }
-                    }
-                };
-
-                function rebuildGraph(options = {}) {
-                    const { preserveViewport = false } = options;
-                    const previousZoom = cy.zoom();
-                    const previousPan = cy.pan();
-
-                    activeViewData = buildViewData(baseData, currentViewMode);
-                    cy.elements().remove();
-                    cy.add(createElements(activeViewData));
-
-                    updateStats(activeViewData);
-
-                    const layoutOptions = buildLayoutOptions(window.currentLayout || 'dagre', cy.nodes().length);
-                    window.currentLayout = layoutOptions.name;
-                    layoutOptions.animate = false;
-                    const layout = cy.layout(layoutOptions);
-                    layout.once('layoutstop', () => {
-                        if (preserveViewport) {
-                            cy.zoom(previousZoom);
-                            cy.pan(previousPan);
-                        } else {
-                            cy.fit();
-                        }
-                    });
-                    layout.run();
-
-                    if (layoutSelect && layoutSelect.value !== window.currentLayout) {
-                        layoutSelect.value = window.currentLayout;
-                    }
-                }
-
-                function applyView(mode, options = {}) {
-                    if (currentViewMode === mode && options.preserveViewport) {
-                        rebuildGraph(options);
-                        return;
-                    }
-                    currentViewMode = mode;
-                    updateViewToggleButton();
-                    rebuildGraph(options);
-                }
-                
-                window.showUpdateIndicator = function() {
-                    const statusDot = document.getElementById('statusDot');
-                    const statusText = document.getElementById('statusText');
-                    if (statusDot && statusText) {
-                        statusDot.classList.add('updating');
-                        statusText.textContent = 'Updating...';
-                        
-                        setTimeout(() => {
-                            statusDot.classList.remove('updating');
-                            statusText.textContent = 'Auto-updating';
-                        }, 1500);
-                    }
-                };
-                
-                window.updateVisualizationData = function(newOntologyData) {
-                    const nodeCount = Array.isArray(newOntologyData?.nodes) ? newOntologyData.nodes.length : 0;
-                    const edgeCount = Array.isArray(newOntologyData?.edges) ? newOntologyData.edges.length : 0;
-                    console.log('Applying ontology update (nodes: ' + nodeCount + ', edges: ' + edgeCount + ')');
-                    window.showUpdateIndicator();
-                    baseData = newOntologyData;
-                    rebuildGraph({ preserveViewport: true });
-                    updateViewToggleButton();
-                };
-                
-                window.addEventListener('message', event => {
-                    const message = event.data;
-                    if (message.command === 'updateData') {
-                        window.updateVisualizationData(message.data);
-                    } else if (message.command === 'exportResult') {
-                        const statusText = document.getElementById('statusText');
-                        if (!statusText) {
-                            return;
-                        }
-
-                        const formatLabel = message.format === 'mermaid'
-                            ? 'Mermaid'
-                            : 'SVG';
-
-                        if (message.status === 'success') {
-                            statusText.textContent = formatLabel + ' saved';
-                            setTimeout(() => {
-                                statusText.textContent = 'Auto-updating';
-                            }, 2000);
-                        } else if (message.status === 'cancelled') {
-                            statusText.textContent = formatLabel + ' export cancelled';
-                            setTimeout(() => {
-                                statusText.textContent = 'Auto-updating';
-                            }, 2000);
-                        } else {
-                            statusText.textContent = formatLabel + ' export failed';
-                            setTimeout(() => {
-                                statusText.textContent = 'Auto-updating';
-                            }, 2000);
-                        }
-                    }
-                });
-                
-                setTimeout(() => {
-                    try {
-                        cy.fit();
-                    } catch (error) {
-                        console.error('Error fitting graph:', error);
-                    }
-                }, 100);
-                
-                ${isAutoUpdate ? 'window.showUpdateIndicator();' : ''}
-                
-            } catch (error) {
-                console.error('=== FATAL ERROR in webview script ===');
-                console.error('Error type:', error.constructor.name);
-                console.error('Error message:', error.message);
-                console.error('Error stack:', error.stack);
-                showError('Fatal error in webview script: ' + error.message, error);
-            }
-        })();
-    </script>
+    <script id="owl-bootstrap" type="application/json">${bootstrap}</script>
+    <script nonce="${nonce}" src="${webviewScriptUri}"></script>
 </body>
 </html>`;
 
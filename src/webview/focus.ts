@@ -0,0 +1,62 @@
+import type { OntologyEdge } from '../owlParser';
+import type { FocusDirection } from '../webviewProtocol';
+import type { ViewData } from './viewData';
+
+export const DEFAULT_FOCUS_DEPTH = 1;
+export const MAX_FOCUS_DEPTH = 6;
+
+export interface NeighbourhoodOptions {
+    nodeId: string;
+    depth: number;
+    direction: FocusDirection;
+    // '' follows every relation
+    edgeType: string;
+}
+
+// Nodes within `depth` hops of the focused node along the chosen relations, and the
+// relations of that type among them. Symmetric relations are followed both ways.
+export function focusNeighbourhood(viewData: ViewData, options: NeighbourhoodOptions): ViewData {
+    const edges = options.edgeType ? viewData.edges.filter(edge => edge.type === options.edgeType) : viewData.edges;
+    const neighbours = new Map<string, string[]>();
+    const link = (from: string, to: string) => {
+        const list = neighbours.get(from);
+        if (list) {
+            list.push(to);
+        } else {
+            neighbours.set(from, [to]);
+        }
+    };
+    edges.forEach(edge => {
+        if (options.direction !== 'incoming' || edge.bidirectional) {
+            link(edge.source, edge.target);
+        }
+        if (options.direction !== 'outgoing' || edge.bidirectional) {
+            link(edge.target, edge.source);
+        }
+    });
+
+    const kept = new Set<string>([options.nodeId]);
+    let frontier = [options.nodeId];
+    for (let hop = 0; hop < options.depth && frontier.length > 0; hop++) {
+        const next: string[] = [];
+        frontier.forEach(id => {
+            (neighbours.get(id) || []).forEach(neighbour => {
+                if (!kept.has(neighbour)) {
+                    kept.add(neighbour);
+                    next.push(neighbour);
+                }
+            });
+        });
+        frontier = next;
+    }
+
+    return {
+        nodes: viewData.nodes.filter(node => kept.has(node.id)),
+        edges: edges.filter(edge => kept.has(edge.source) && kept.has(edge.target))
+    };
+}
+
+// Relation types drawn in a view, for the focus bar's relation filter
+export function edgeTypesOf(viewData: ViewData): OntologyEdge['type'][] {
+    return Array.from(new Set(viewData.edges.map(edge => edge.type))).sort();
+}
@@ -0,0 +1,141 @@
+import type { OntologyEdge } from '../owlParser';
+import type { ViewData } from './viewData';
+
+// Edges that point from a child to its parent; hasTopConcept is stored as topConceptOf
+const HIERARCHY_EDGE_TYPES = new Set<OntologyEdge['type']>(['subClassOf', 'skosBroader', 'skosTopConcept']);
+
+export interface Hierarchy {
+    children: Map<string, string[]>;
+    parents: Map<string, string[]>;
+}
+
+export interface CollapsedView {
+    viewData: ViewData;
+    // Number of hidden nodes under each collapsed node that is still shown
+    hiddenCounts: Map<string, number>;
+}
+
+function append(map: Map<string, string[]>, key: string, value: string) {
+    const list = map.get(key);
+    if (!list) {
+        map.set(key, [value]);
+    } else if (!list.includes(value)) {
+        list.push(value);
+    }
+}
+
+export function buildHierarchy(viewData: ViewData): Hierarchy {
+    const nodeIds = new Set(viewData.nodes.map(node => node.id));
+    const hierarchy: Hierarchy = { children: new Map(), parents: new Map() };
+    viewData.edges.forEach(edge => {
+        if (HIERARCHY_EDGE_TYPES.has(edge.type) && edge.source !== edge.target && nodeIds.has(edge.source) && nodeIds.has(edge.target)) {
+            append(hierarchy.children, edge.target, edge.source);
+            append(hierarchy.parents, edge.source, edge.target);
+        }
+    });
+    return hierarchy;
+}
+
+function walk(start: string[], next: (id: string) => string[] | undefined): Set<string> {
+    const seen = new Set<string>();
+    const queue = [...start];
+    for (let index = 0; index < queue.length; index++) {
+        (next(queue[index]) || []).forEach(neighbour => {
+            if (!seen.has(neighbour)) {
+                seen.add(neighbour);
+                queue.push(neighbour);
+            }
+        });
+    }
+    return seen;
+}
+
+export function descendantsOf(hierarchy: Hierarchy, id: string): Set<string> {
+    const descendants = walk([id], current => hierarchy.children.get(current));
+    descendants.delete(id);
+    return descendants;
+}
+
+export function ancestorsOf(hierarchy: Hierarchy, id: string): Set<string> {
+    const ancestors = walk([id], current => hierarchy.parents.get(current));
+    ancestors.delete(id);
+    return ancestors;
+}
+
+// Hides everything below the collapsed nodes, except nodes that another, expanded
+// parent still leads to (multiple inheritance)
+export function collapseSubtrees(viewData: ViewData, hierarchy: Hierarchy, collapsed: Iterable<string>): CollapsedView {
+    const collapsedIds = new Set(Array.from(collapsed).filter(id => hierarchy.children.has(id)));
+    if (collapsedIds.size === 0) {
+        return { viewData, hiddenCounts: new Map() };
+    }
+
+    const candidates = walk(Array.from(collapsedIds), id => hierarchy.children.get(id));
+    const open = viewData.nodes
+        .map(node => node.id)
+        .filter(id => !candidates.has(id) && !collapsedIds.has(id));
+    const rescued = walk(open, id => collapsedIds.has(id) ? undefined : hierarchy.children.get(id));
+    const hidden = new Set(Array.from(candidates).filter(id => !rescued.has(id)));
+
+    const hiddenCounts = new Map<string, number>();
+    collapsedIds.forEach(id => {
+        if (!hidden.has(id)) {
+            hiddenCounts.set(id, Array.from(descendantsOf(hierarchy, id)).filter(descendant => hidden.has(descendant)).length);
+        }
+    });
+
+    return {
+        viewData: {
+            nodes: viewData.nodes.filter(node => !hidden.has(node.id)),
+            edges: viewData.edges.filter(edge => !hidden.has(edge.source) && !hidden.has(edge.target))
+        },
+        hiddenCounts
+    };
+}
+
+// Nodes not reached from a root only have parents that were not reached either, so following
+// the first parent ends in a cycle such as A subClassOf B, B subClassOf A
+function cycleAbove(hierarchy: Hierarchy, id: string, reached: Map<string, number>): string {
+    const climbed = new Set<string>();
+    let current = id;
+    while (!climbed.has(current)) {
+        climbed.add(current);
+        const parent = hierarchy.parents.get(current)?.[0];
+        if (parent === undefined || reached.has(parent)) {
+            break;
+        }
+        current = parent;
+    }
+    return current;
+}
+
+// The nodes to collapse so that only `levels` levels below the roots stay open; a cycle
+// without a root above it counts as a root of its own
+export function collapseBelowLevel(viewData: ViewData, hierarchy: Hierarchy, levels: number): string[] {
+    const depth = new Map<string, number>();
+    const descend = (roots: string[]) => {
+        roots.forEach(id => depth.set(id, 0));
+        const queue = [...roots];
+        for (let index = 0; index < queue.length; index++) {
+            const level = depth.get(queue[index])! + 1;
+            (hierarchy.children.get(queue[index]) || []).forEach(child => {
+                if (!depth.has(child)) {
+                    depth.set(child, level);
+                    queue.push(child);
+                }
+            });
+        }
+    };
+
+    const nodeIds = viewData.nodes.map(node => node.id);
+    descend(nodeIds.filter(id => !hierarchy.parents.has(id)));
+    nodeIds.forEach(id => {
+        if (!depth.has(id)) {
+            descend([cycleAbove(hierarchy, id, depth)]);
+        }
+    });
+
+    return Array.from(depth.entries())
+        .filter(([id, level]) => level === levels - 1 && hierarchy.children.has(id))
+        .map(([id]) => id);
+}
@@ -0,0 +1,46 @@
+import { NodeLabels, selectLabel } from '../labels';
+import type { LabelSettings } from '../webviewProtocol';
+
+export interface LabelOptions {
+    settings: LabelSettings;
+    prefixes: Record<string, string>;
+    // A language picked in the toolbar, '' for the configured order
+    language: string;
+    showIris: boolean;
+}
+
+// Shortest prefixed name from the document's own prefixes, or the IRI itself
+export function compactIri(uri: string, prefixes: Record<string, string>): string {
+    let bestPrefix: string | undefined;
+    let bestNamespace = '';
+    Object.entries(prefixes || {}).forEach(([prefix, namespace]) => {
+        if (uri.startsWith(namespace) && namespace.length > bestNamespace.length && !/[/#]/.test(uri.substring(namespace.length))) {
+            bestPrefix = prefix;
+            bestNamespace = namespace;
+        }
+    });
+    return bestPrefix === undefined ? uri : bestPrefix + ':' + uri.substring(bestNamespace.length);
+}
+
+// The parser's label already follows the configured fallback order; only an explicit
+// language choice or the IRI switch needs another pick
+export function displayLabel(defaultLabel: string, uri: string | undefined, labels: NodeLabels | undefined, options: LabelOptions): string {
+    if (options.showIris) {
+        return uri ? compactIri(uri, options.prefixes) : defaultLabel;
+    }
+    if (!options.language || !labels) {
+        return defaultLabel;
+    }
+    return selectLabel(labels, [options.language, ...options.settings.languages], options.settings.properties) || defaultLabel;
+}
+
+// Language tags used by any label, for the toolbar's language picker
+export function collectLanguages(nodes: Array<{ labels?: NodeLabels }>): string[] {
+    const languages = new Set<string>();
+    nodes.forEach(node => {
+        Object.values(node.labels || {}).forEach(byLanguage => {
+            Object.keys(byLanguage).filter(Boolean).forEach(language => languages.add(language));
+        });
+    });
+    return Array.from(languages).sort();
+}
@@ -0,0 +1,78 @@
+import type { ViewMode } from '../webviewProtocol';
+
+export const DEFAULT_LAYOUT = 'dagre';
+
+export interface LayoutOptions {
+    name: string;
+    [option: string]: unknown;
+}
+
+export interface LayoutContext {
+    viewMode: ViewMode;
+    klayAvailable: boolean;
+}
+
+// Options for a Cytoscape layout; the returned name may differ when an extension is missing
+export function buildLayoutOptions(layoutName: string, nodeCount: number, context: LayoutContext): LayoutOptions {
+    switch (layoutName) {
+        case 'dagre':
+            return {
+                name: 'dagre',
+                directed: true,
+                padding: 30,
+                spacingFactor: 1.2,
+                // SKOS hierarchy edges point upwards, so grow the taxonomy from the bottom
+                rankDir: context.viewMode === 'taxonomy' ? 'BT' : 'TB'
+            };
+        case 'klay':
+            if (!context.klayAvailable) {
+                console.warn('Klay layout requested but unavailable; falling back to dagre');
+                return buildLayoutOptions('dagre', nodeCount, context);
+            }
+            return {
+                name: 'klay',
+                nodeDimensionsIncludeLabels: true,
+                padding: 40,
+                animate: false,
+                klay: {
+                    direction: context.viewMode === 'taxonomy' ? 'UP' : 'DOWN',
+                    spacing: 80,
+                    borderSpacing: 25,
+                    inLayerSpacingFactor: 1.2,
+                    edgeRouting: 'ORTHOGONAL'
+                }
+            };
+        case 'circle':
+            return {
+                name: 'circle',
+                padding: 30,
+                radius: 200
+            };
+        case 'grid':
+            return {
+                name: 'grid',
+                padding: 30,
+                rows: Math.ceil(Math.sqrt(nodeCount))
+            };
+        case 'cose':
+            return {
+                name: 'cose',
+                padding: 30,
+                nodeRepulsion: 400000,
+                idealEdgeLength: 100,
+                edgeElasticity: 100
+            };
+        case 'breadthfirst':
+            return {
+                name: 'breadthfirst',
+                padding: 30,
+                directed: true,
+                spacingFactor: 1.5
+            };
+        default:
+            return {
+                name: layoutName,
+                padding: 30
+            };
+    }
+}
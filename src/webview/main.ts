@@ -0,0 +1,1315 @@
+import type { Core, ElementDefinition as CytoscapeElementDefinition, Ext, LayoutOptions as CytoscapeLayoutOptions, NodeSingular, StylesheetJson } from 'cytoscape';
+import type { OntologyData, OntologyNode } from '../owlParser';
+import type {
+    ExportFormat, FocusDirection, FocusState, HostMessage, PersistedViewState, SavedView, ViewFilters, ViewMode, ViewSnapshot, WebviewBootstrap, WebviewMessage
+} from '../webviewProtocol';
+import { DEFAULT_FOCUS_DEPTH, MAX_FOCUS_DEPTH, edgeTypesOf, focusNeighbourhood } from './focus';
+import { Hierarchy, ancestorsOf, buildHierarchy, collapseBelowLevel, collapseSubtrees } from './hierarchy';
+import { DEFAULT_LAYOUT, LayoutOptions, buildLayoutOptions } from './layouts';
+import { collectLanguages, compactIri, displayLabel } from './labels';
+import { buildMermaidDefinition } from './mermaid';
+import { describeNode, indexStatements, StatementIndex } from './nodeInfo';
+import { SearchEntry, SearchResult, buildSearchIndex, searchNodes } from './search';
+import {
+    DEFAULT_GRAPH, Decorator, FilterOptions, LOCAL_ONLY, NO_FILTERS, NodeElementData, ViewData,
+    buildViewData, countFilterOptions, countNodeTypes, createElements, decoratedLabel, filterByGraph, filterByOrigin, setTypeShown, showsType
+} from './viewData';
+
+// Globals from the library scripts and styles.js loaded ahead of this bundle
+declare const cytoscape: typeof import('cytoscape');
+declare const cytoscapeDagre: Ext | undefined;
+declare const cytoscapeKlay: Ext | undefined;
+declare const cytoscapeSvg: Ext | undefined;
+declare const OWL_VISUALIZATION_STYLES: StylesheetJson | undefined;
+
+interface VsCodeApi {
+    postMessage(message: WebviewMessage): void;
+    getState(): PersistedViewState | undefined;
+    setState(state: PersistedViewState): void;
+}
+
+declare function acquireVsCodeApi(): VsCodeApi;
+
+const ORIGIN_COLORS = ['#E17055', '#0984E3', '#FDCB6E', '#00CEC9', '#E84393', '#A29BFE', '#55EFC4', '#FAB1A0'];
+const STATUS_MESSAGE_DURATION_MS = 2000;
+const SEARCH_DELAY_MS = 150;
+const MAX_SEARCH_RESULTS = 20;
+// Search hits are brought at least this close, so one can be found in a zoomed-out large graph
+const SEARCH_MIN_ZOOM = 1;
+
+const vscodeApi = typeof acquireVsCodeApi === 'function' ? acquireVsCodeApi() : null;
+
+function element<T extends HTMLElement = HTMLElement>(id: string): T | null {
+    return document.getElementById(id) as T | null;
+}
+
+function showError(message: string, error?: unknown) {
+    console.error(message, error);
+    const cyContainer = element('cy');
+    if (cyContainer) {
+        const details = error instanceof Error ? error.stack || error.message : error ? String(error) : 'No additional details';
+        cyContainer.innerHTML = '<div class="fatal-error"><h3>Error</h3><p><strong></strong></p><pre></pre></div>';
+        cyContainer.querySelector('strong')!.textContent = message;
+        cyContainer.querySelector('pre')!.textContent = details;
+    }
+}
+
+// Saved state comes from an earlier version of the page and is checked before use
+function isFocusState(value: unknown): value is FocusState {
+    const focus = value as FocusState | undefined;
+    return typeof focus === 'object' && focus !== null
+        && Array.isArray(focus.nodeIds) && focus.nodeIds.length > 0 && focus.nodeIds.every(id => typeof id === 'string')
+        && typeof focus.depth === 'number' && focus.depth >= 1 && focus.depth <= MAX_FOCUS_DEPTH
+        && ['outgoing', 'incoming', 'both'].includes(focus.direction)
+        && typeof focus.edgeType === 'string';
+}
+
+function isViewFilters(value: unknown): value is ViewFilters {
+    const filters = value as ViewFilters | undefined;
+    const isStringArray = (list: unknown) => Array.isArray(list) && list.every(item => typeof item === 'string');
+    return typeof filters === 'object' && filters !== null
+        && isStringArray(filters.hiddenNodeTypes) && isStringArray(filters.hiddenEdgeTypes)
+        && isStringArray(filters.shownNodeTypes) && isStringArray(filters.shownEdgeTypes) && isStringArray(filters.hiddenNamespaces);
+}
+
+function isPoint(value: unknown): value is { x: number; y: number } {
+    const point = value as { x: number; y: number } | undefined;
+    return typeof point === 'object' && point !== null && Number.isFinite(point.x) && Number.isFinite(point.y);
+}
+
+function readBootstrap(): WebviewBootstrap {
+    const script = element('owl-bootstrap');
+    if (!script || !script.textContent) {
+        throw new Error('No data payload provided');
+    }
+    return JSON.parse(script.textContent) as WebviewBootstrap;
+}
+
+function registerExtensions(): { klayAvailable: boolean } {
+    let dagreAvailable = false;
+    let klayAvailable = false;
+    const register = (extension: Ext | undefined, name: string) => {
+        if (typeof extension === 'undefined') {
+            console.warn(name + ' global not detected; registration skipped');
+            return false;
+        }
+        try {
+            cytoscape.use(extension);
+            return true;
+        } catch (error) {
+            console.warn('Failed to register ' + name + ' extension:', error);
+            return false;
+        }
+    };
+
+    register(typeof cytoscapeSvg === 'undefined' ? undefined : cytoscapeSvg, 'cytoscape-svg');
+    dagreAvailable = register(typeof cytoscapeDagre === 'undefined' ? undefined : cytoscapeDagre, 'cytoscape-dagre');
+    klayAvailable = register(typeof cytoscapeKlay === 'undefined' ? undefined : cytoscapeKlay, 'cytoscape-klay');
+
+    // Extensions registered by an earlier page load of the same webview count too
+    const lookup = (cytoscape as unknown as { extension?: (type: string, name: string) => unknown }).extension;
+    if (typeof lookup === 'function') {
+        dagreAvailable = dagreAvailable || Boolean(lookup('layout', 'dagre'));
+        klayAvailable = klayAvailable || Boolean(lookup('layout', 'klay'));
+    }
+
+    if (!dagreAvailable) {
+        console.warn('cytoscape-dagre layout extension not detected; dagre layout may be unavailable');
+    }
+    if (!klayAvailable) {
+        console.warn('cytoscape-klay layout extension not detected; klay layout will fallback to dagre');
+    }
+    return { klayAvailable };
+}
+
+function start() {
+    const bootstrap = readBootstrap();
+    console.log('Ontology payload decoded (nodes: ' + bootstrap.data.nodes.length + ', edges: ' + bootstrap.data.edges.length + ')');
+
+    if (typeof cytoscape === 'undefined') {
+        showError('Cytoscape library not loaded', new Error('cytoscape global is undefined'));
+        return;
+    }
+    if (typeof OWL_VISUALIZATION_STYLES === 'undefined') {
+        showError('OWL_VISUALIZATION_STYLES not loaded', new Error('styles.js may not be loaded'));
+        return;
+    }
+
+    const { klayAvailable } = registerExtensions();
+
+    const layoutSelect = element<HTMLSelectElement>('layoutSelect');
+    const viewToggleButton = element('viewToggle');
+    const taxonomyToggleButton = element('taxonomyToggle');
+    const exportButton = element('exportButton');
+    const exportFormatSelect = element<HTMLSelectElement>('exportFormat');
+    const graphSelect = element<HTMLSelectElement>('graphSelect');
+    const importSelect = element<HTMLSelectElement>('importSelect');
+    const languageSelect = element<HTMLSelectElement>('languageSelect');
+    const labelModeToggleButton = element('labelModeToggle');
+    const statusText = element('statusText');
+    const searchInput = element<HTMLInputElement>('searchInput');
+    const searchCount = element('searchCount');
+    const searchResults = element('searchResults');
+    const focusBar = element('focus-bar');
+    const focusTrail = element('focusTrail');
+    const focusDepth = element('focusDepth');
+    const focusNarrowButton = element<HTMLButtonElement>('focusNarrow');
+    const focusWidenButton = element<HTMLButtonElement>('focusWiden');
+    const focusDirectionSelect = element<HTMLSelectElement>('focusDirection');
+    const focusEdgeTypeSelect = element<HTMLSelectElement>('focusEdgeType');
+    const focusButton = element<HTMLButtonElement>('focusButton');
+    const collapseButton = element<HTMLButtonElement>('collapseButton');
+    const expandAllButton = element('expandAllButton');
+    const filterToggleButton = element('filterToggle');
+    const filterPanel = element('filter-panel');
+    const savedViewSelect = element<HTMLSelectElement>('savedViewSelect');
+    const deleteViewButton = element('deleteViewButton');
+
+    if (layoutSelect) {
+        const klayOption = layoutSelect.querySelector<HTMLOptionElement>('option[value="klay"]');
+        if (klayOption) {
+            klayOption.disabled = !klayAvailable;
+            klayOption.textContent = klayAvailable ? 'Hierarchical (Klay)' : 'Hierarchical (Klay unavailable)';
+        }
+    }
+
+    let baseData: OntologyData = bootstrap.data;
+    let currentViewMode: ViewMode = 'ontology';
+    let currentLayout = DEFAULT_LAYOUT;
+    let currentGraph = '';
+    let currentImportFilter = '';
+    let originColors = new Map<string, string>();
+    let currentLanguage = '';
+    let showIris = false;
+    let activeViewData: ViewData;
+    let currentFocus: FocusState | undefined;
+    // Relation types of the view before focusing, offered by the focus bar's relation filter
+    let focusEdgeTypes: string[] = [];
+    // The view before collapsing, and its class and SKOS hierarchy
+    let expandedViewData: ViewData = { nodes: [], edges: [] };
+    let hierarchy: Hierarchy = { children: new Map(), parents: new Map() };
+    let collapsedIds = new Set<string>();
+    let hiddenCounts = new Map<string, number>();
+    // Stored per file by the extension; counts are of the data before the view mode and filters
+    let currentFilters: ViewFilters = isViewFilters(bootstrap.filters) ? bootstrap.filters : NO_FILTERS;
+    let filterOptions: FilterOptions = { nodeTypes: {}, edgeTypes: {}, namespaces: {} };
+    // Read from the shared views file by the extension; the name is the view last opened
+    let savedViews: SavedView[] = Array.isArray(bootstrap.savedViews) ? bootstrap.savedViews : [];
+    let activeViewName = '';
+    // Dragged since the last layout run; only these positions are stored in a saved view
+    const movedNodeIds = new Set<string>();
+    let statementIndex: { data: OntologyData; index: StatementIndex } | undefined;
+    // Built from the rendered nodes on the first search after each rebuild or label change
+    let searchIndex: SearchEntry[] | undefined;
+    let searchHits: SearchResult[] = [];
+    let searchHitIndex = -1;
+    let searchTimer: ReturnType<typeof setTimeout> | undefined;
+
+    // View state from before a reload (or a regenerated page); stale filters are
+    // dropped by the update*Options functions below
+    const savedState = vscodeApi ? vscodeApi.getState() : undefined;
+    const hasSavedState = savedState !== undefined && savedState !== null && savedState.filePath === bootstrap.sourceFile;
+    if (hasSavedState) {
+        currentLayout = savedState.layout || currentLayout;
+        currentViewMode = savedState.viewMode || currentViewMode;
+        currentGraph = savedState.graph || '';
+        currentImportFilter = savedState.importFilter || '';
+        currentLanguage = savedState.language || '';
+        showIris = Boolean(savedState.showIris);
+        currentFocus = isFocusState(savedState.focus) ? savedState.focus : undefined;
+        if (Array.isArray(savedState.collapsed)) {
+            collapsedIds = new Set(savedState.collapsed.filter(id => typeof id === 'string'));
+        }
+    }
+    const hasSavedCollapse = hasSavedState && Array.isArray(savedState.collapsed);
+    const savedViewport = hasSavedState && typeof savedState.zoom === 'number' && savedState.pan
+        ? { zoom: savedState.zoom, pan: savedState.pan }
+        : null;
+
+    const layoutOptionsFor = (layoutName: string, nodeCount: number): LayoutOptions =>
+        buildLayoutOptions(layoutName, nodeCount, { viewMode: currentViewMode, klayAvailable });
+
+    function labelFor(defaultLabel: string, uri: string | undefined, labels: OntologyNode['labels']): string {
+        return displayLabel(defaultLabel, uri, labels, {
+            settings: bootstrap.labelSettings,
+            prefixes: baseData.prefixes || {},
+            language: currentLanguage,
+            showIris
+        });
+    }
+
+    // Instance view individuals list their classes, looked up in the same language, as <<Dog, Pet>>
+    function nodeLabel(defaultLabel: string, uri: string | undefined, labels: OntologyNode['labels'], decorators: Decorator[] | undefined): string {
+        return decoratedLabel(
+            labelFor(defaultLabel, uri, labels),
+            (decorators ?? []).map(decorator => labelFor(decorator.label, decorator.uri, decorator.labels))
+        );
+    }
+
+    function fillSelect(select: HTMLSelectElement, options: Array<[string, string]>, value: string, colors?: Map<string, string>) {
+        select.innerHTML = '';
+        options.forEach(([optionValue, label]) => {
+            const option = document.createElement('option');
+            option.value = optionValue;
+            option.textContent = label;
+            if (colors && colors.has(optionValue)) {
+                option.style.color = colors.get(optionValue)!;
+            }
+            select.appendChild(option);
+        });
+        select.value = value;
+        select.style.display = '';
+    }
+
+    function updateGraphOptions(data: OntologyData) {
+        if (!graphSelect) {
+            return;
+        }
+
+        const graphs = data.metadata && Array.isArray(data.metadata.graphs) ? data.metadata.graphs : [];
+        if (graphs.length === 0) {
+            graphSelect.style.display = 'none';
+            currentGraph = '';
+            return;
+        }
+
+        if (currentGraph && currentGraph !== DEFAULT_GRAPH && !graphs.includes(currentGraph)) {
+            currentGraph = '';
+        }
+        fillSelect(graphSelect, [['', 'All graphs'], [DEFAULT_GRAPH, 'Default graph'], ...graphs.map(graph => [graph, graph] as [string, string])], currentGraph);
+    }
+
+    function updateImportOptions(data: OntologyData) {
+        const sources = Array.from(new Set(data.nodes.map(node => node.importedFrom).filter((source): source is string => Boolean(source)))).sort();
+        originColors = new Map(sources.map((source, index) => [source, ORIGIN_COLORS[index % ORIGIN_COLORS.length]]));
+
+        if (!importSelect) {
+            return;
+        }
+
+        if (sources.length === 0) {
+            importSelect.style.display = 'none';
+            currentImportFilter = '';
+            return;
+        }
+
+        if (currentImportFilter && currentImportFilter !== LOCAL_ONLY && !sources.includes(currentImportFilter)) {
+            currentImportFilter = '';
+        }
+        fillSelect(importSelect, [['', 'All ontologies'], [LOCAL_ONLY, 'Hide imported'], ...sources.map(source => [source, 'Hide ' + source] as [string, string])], currentImportFilter, originColors);
+    }
+
+    function updateLanguageOptions(data: OntologyData) {
+        const languages = collectLanguages(data.nodes);
+        if (!languageSelect) {
+            return;
+        }
+
+        if (languages.length === 0) {
+            languageSelect.style.display = 'none';
+            currentLanguage = '';
+            return;
+        }
+
+        if (currentLanguage && !languages.includes(currentLanguage)) {
+            currentLanguage = '';
+        }
+        fillSelect(languageSelect, [['', 'Default language'], ...languages.map(language => [language, 'Labels: ' + language] as [string, string])], currentLanguage);
+    }
+
+    function buildActiveViewData(): ViewData {
+        const scopedData = filterByOrigin(filterByGraph(baseData, currentGraph), currentImportFilter);
+        filterOptions = countFilterOptions(scopedData);
+        const viewData = buildViewData(scopedData, currentViewMode, currentFilters);
+        focusEdgeTypes = edgeTypesOf(viewData);
+
+        const focusedId = currentFocus ? focusedNodeId(currentFocus) : undefined;
+        if (currentFocus && !viewData.nodes.some(node => node.id === focusedId)) {
+            // The focused node was edited away or is outside this view
+            currentFocus = undefined;
+        }
+        expandedViewData = currentFocus ? focusNeighbourhood(viewData, {
+            nodeId: focusedNodeId(currentFocus),
+            depth: currentFocus.depth,
+            direction: currentFocus.direction,
+            edgeType: currentFocus.edgeType
+        }) : viewData;
+
+        hierarchy = buildHierarchy(expandedViewData);
+        const collapsedView = collapseSubtrees(expandedViewData, hierarchy, collapsedIds);
+        hiddenCounts = collapsedView.hiddenCounts;
+        return collapsedView.viewData;
+    }
+
+    function withCollapsedCount(label: string, collapsedCount: number | undefined): string {
+        return collapsedCount ? label + '\n(+' + collapsedCount + ')' : label;
+    }
+
+    function createCytoscapeElements(viewData: ViewData): CytoscapeElementDefinition[] {
+        return createElements(viewData, {
+            displayLabel: node => withCollapsedCount(nodeLabel(node.label, node.uri, node.labels, node.decorators), hiddenCounts.get(node.id)),
+            originColors,
+            collapsedCounts: hiddenCounts
+        }) as CytoscapeElementDefinition[];
+    }
+
+    function namespaceLabel(namespace: string): string {
+        const prefix = Object.keys(baseData.prefixes || {}).find(candidate => baseData.prefixes[candidate] === namespace);
+        return prefix === undefined ? namespace : prefix + ':';
+    }
+
+    function renderFilterPanel() {
+        if (!filterPanel || filterPanel.style.display !== 'block') {
+            return;
+        }
+
+        const renderGroup = (containerId: string, counts: Record<string, number>, changed: string[], isShown: (value: string) => boolean, label: (value: string) => string) => {
+            const container = element(containerId);
+            if (!container) {
+                return;
+            }
+            container.innerHTML = '';
+            // Changed entries stay listed when the data no longer has them, so they can be reset
+            const values = Array.from(new Set([...Object.keys(counts), ...changed])).sort((a, b) => label(a).localeCompare(label(b)));
+            values.forEach(value => {
+                const option = document.createElement('label');
+                option.className = 'filter-option';
+                option.title = value;
+                const checkbox = document.createElement('input');
+                checkbox.type = 'checkbox';
+                checkbox.value = value;
+                checkbox.checked = isShown(value);
+                const name = document.createElement('span');
+                name.className = 'filter-name';
+                name.textContent = label(value);
+                const count = document.createElement('span');
+                count.className = 'filter-count';
+                count.textContent = String(counts[value] || 0);
+                option.append(checkbox, name, count);
+                container.appendChild(option);
+            });
+        };
+
+        renderGroup('nodeTypeFilters', filterOptions.nodeTypes, [...currentFilters.hiddenNodeTypes, ...currentFilters.shownNodeTypes],
+            value => showsType(currentViewMode, currentFilters, 'node', value), value => value);
+        renderGroup('edgeTypeFilters', filterOptions.edgeTypes, [...currentFilters.hiddenEdgeTypes, ...currentFilters.shownEdgeTypes],
+            value => showsType(currentViewMode, currentFilters, 'edge', value), value => value);
+        renderGroup('namespaceFilters', filterOptions.namespaces, currentFilters.hiddenNamespaces,
+            value => !currentFilters.hiddenNamespaces.includes(value), namespaceLabel);
+    }
+
+    function updateFilterToggleButton() {
+        if (filterToggleButton) {
+            const changedCount = currentFilters.hiddenNodeTypes.length + currentFilters.hiddenEdgeTypes.length
+                + currentFilters.shownNodeTypes.length + currentFilters.shownEdgeTypes.length + currentFilters.hiddenNamespaces.length;
+            filterToggleButton.textContent = changedCount > 0 ? 'Filters (' + changedCount + ')' : 'Filters';
+        }
+    }
+
+    function setFilters(filters: ViewFilters) {
+        currentFilters = filters;
+        rebuildGraph({ preserveViewport: false });
+        vscodeApi?.postMessage({ command: 'saveFilters', filters: currentFilters });
+    }
+
+    function renderSavedViews() {
+        if (activeViewName && !savedViews.some(view => view.name === activeViewName)) {
+            activeViewName = '';
+        }
+        if (savedViewSelect) {
+            fillSelect(savedViewSelect, [
+                ['', savedViews.length > 0 ? 'Saved views' : 'No saved views'],
+                ...savedViews.map(view => [view.name, view.name] as [string, string])
+            ], activeViewName);
+        }
+        if (deleteViewButton) {
+            deleteViewButton.style.display = activeViewName ? '' : 'none';
+        }
+    }
+
+    function captureView(): ViewSnapshot {
+        const positions: ViewSnapshot['positions'] = {};
+        movedNodeIds.forEach(id => {
+            const node = cy.getElementById(id);
+            if (node.length > 0) {
+                const position = node.position();
+                positions[id] = { x: Math.round(position.x), y: Math.round(position.y) };
+            }
+        });
+        const pan = cy.pan();
+        return {
+            viewMode: currentViewMode,
+            layout: currentLayout,
+            filters: currentFilters,
+            focus: currentFocus,
+            collapsed: Array.from(collapsedIds),
+            positions,
+            zoom: Math.round(cy.zoom() * 1000) / 1000,
+            pan: { x: Math.round(pan.x), y: Math.round(pan.y) }
+        };
+    }
+
+    // Views come from a file the team edits and merges, so every part is checked before use
+    function openSavedView(view: SavedView) {
+        activeViewName = view.name;
+        if (['ontology', 'instance', 'taxonomy'].includes(view.viewMode)) {
+            currentViewMode = view.viewMode;
+        }
+        if (layoutSelect && Array.from(layoutSelect.options).some(option => option.value === view.layout && !option.disabled)) {
+            currentLayout = view.layout;
+        }
+        currentFilters = isViewFilters(view.filters) ? view.filters : NO_FILTERS;
+        currentFocus = isFocusState(view.focus) ? view.focus : undefined;
+        collapsedIds = new Set(Array.isArray(view.collapsed) ? view.collapsed.filter(id => typeof id === 'string') : []);
+        updateViewToggleButton();
+        renderSavedViews();
+
+        rebuildGraph({
+            onLayoutStop: () => {
+                const positions = typeof view.positions === 'object' && view.positions !== null ? view.positions : {};
+                Object.keys(positions).forEach(id => {
+                    const node = cy.getElementById(id);
+                    if (node.length > 0 && isPoint(positions[id])) {
+                        node.position(positions[id]);
+                        movedNodeIds.add(id);
+                    }
+                });
+                if (typeof view.zoom === 'number' && view.zoom > 0 && isPoint(view.pan)) {
+                    cy.zoom(view.zoom);
+                    cy.pan(view.pan);
+                }
+            }
+        });
+        vscodeApi?.postMessage({ command: 'saveFilters', filters: currentFilters });
+        saveViewState();
+    }
+
+    function updateExpandAllButton() {
+        if (expandAllButton) {
+            expandAllButton.style.display = hiddenCounts.size > 0 ? '' : 'none';
+        }
+    }
+
+    function updateStats(viewData: ViewData) {
+        const stats = countNodeTypes(viewData);
+        const setCount = (id: string, count: number) => {
+            const target = element(id);
+            if (target) {
+                target.textContent = String(count);
+            }
+        };
+        setCount('classCount', stats.class || 0);
+        setCount('propertyCount', stats.property || 0);
+        setCount('individualCount', stats.individual || 0);
+        setCount('skosConceptCount', stats.skosConcept || 0);
+        setCount('skosConceptSchemeCount', stats.skosConceptScheme || 0);
+        setCount('edgeCount', viewData.edges.length);
+    }
+
+    function updateViewToggleButton() {
+        if (viewToggleButton) {
+            viewToggleButton.textContent = currentViewMode === 'ontology' ? 'Switch to Instance View' : 'Switch to Ontology View';
+        }
+        if (taxonomyToggleButton) {
+            taxonomyToggleButton.textContent = currentViewMode === 'taxonomy' ? 'Exit Taxonomy View' : 'Taxonomy View';
+        }
+    }
+
+    function showStatus(message: string) {
+        if (!statusText) {
+            return;
+        }
+        statusText.textContent = message;
+        setTimeout(() => {
+            statusText.textContent = 'Auto-updating';
+        }, STATUS_MESSAGE_DURATION_MS);
+    }
+
+    updateGraphOptions(baseData);
+    updateImportOptions(baseData);
+    updateLanguageOptions(baseData);
+    activeViewData = buildActiveViewData();
+    const { collapseThreshold, initialLevels } = bootstrap.hierarchySettings;
+    if (!hasSavedCollapse && collapseThreshold > 0 && expandedViewData.nodes.length > collapseThreshold) {
+        // Large graphs open with only the top of their hierarchies
+        collapsedIds = new Set(collapseBelowLevel(expandedViewData, hierarchy, initialLevels));
+        activeViewData = buildActiveViewData();
+        console.log('Collapsed ' + collapsedIds.size + ' subtrees below level ' + initialLevels + ' (' + expandedViewData.nodes.length + ' nodes)');
+    }
+
+    const initialLayout = layoutOptionsFor(currentLayout, activeViewData.nodes.length);
+    currentLayout = initialLayout.name;
+    function focusedNodeId(focus: FocusState): string {
+        return focus.nodeIds[focus.nodeIds.length - 1];
+    }
+
+    const cy: Core = cytoscape({
+        container: element('cy'),
+        elements: createCytoscapeElements(activeViewData),
+        style: OWL_VISUALIZATION_STYLES,
+        layout: savedViewport ? undefined : initialLayout as CytoscapeLayoutOptions
+    });
+    console.log('Cytoscape initialized (nodes: ' + cy.nodes().length + ', edges: ' + cy.edges().length + ', layout: ' + initialLayout.name + ')');
+
+    updateStats(activeViewData);
+    updateViewToggleButton();
+    markFocusRoot();
+    updateFocusBar();
+    updateExpandAllButton();
+    updateFilterToggleButton();
+    renderSavedViews();
+
+    let viewStateTimer: ReturnType<typeof setTimeout> | undefined;
+    function saveViewState() {
+        if (!vscodeApi) {
+            return;
+        }
+        clearTimeout(viewStateTimer);
+        viewStateTimer = setTimeout(() => {
+            vscodeApi.setState({
+                filePath: bootstrap.sourceFile,
+                layout: currentLayout,
+                viewMode: currentViewMode,
+                graph: currentGraph,
+                importFilter: currentImportFilter,
+                language: currentLanguage,
+                showIris,
+                focus: currentFocus,
+                collapsed: Array.from(collapsedIds),
+                zoom: cy.zoom(),
+                pan: cy.pan()
+            });
+        }, 200);
+    }
+
+    function runLayout(layoutName: string, onStop: () => void, overrides: Partial<LayoutOptions> = {}) {
+        movedNodeIds.clear();
+        const layoutOptions = { ...layoutOptionsFor(layoutName, cy.nodes().length), ...overrides };
+        currentLayout = layoutOptions.name;
+        if (layoutSelect && layoutSelect.value !== currentLayout) {
+            layoutSelect.value = currentLayout;
+        }
+        const layout = cy.layout(layoutOptions as CytoscapeLayoutOptions);
+        layout.one('layoutstop', onStop);
+        layout.run();
+    }
+
+    function refreshLabels() {
+        cy.nodes().forEach(node => {
+            node.data('label', withCollapsedCount(
+                nodeLabel(node.data('defaultLabel'), node.data('uri'), node.data('labels'), node.data('decorators')),
+                node.data('collapsedCount')
+            ));
+        });
+        if (labelModeToggleButton) {
+            labelModeToggleButton.textContent = showIris ? 'Show Labels' : 'Show IRIs';
+        }
+        if (languageSelect) {
+            languageSelect.disabled = showIris;
+        }
+        refreshSearch();
+    }
+
+    function labelForId(id: string): string {
+        const target = cy.getElementById(id);
+        if (target && target.length > 0) {
+            return target.data('label');
+        }
+        const node = baseData.nodes.find(candidate => candidate.id === id);
+        return node ? labelFor(node.label, node.uri, node.labels) : id;
+    }
+
+    function getStatementIndex(): StatementIndex {
+        if (!statementIndex || statementIndex.data !== baseData) {
+            statementIndex = { data: baseData, index: indexStatements(baseData.statements) };
+        }
+        return statementIndex.index;
+    }
+
+    function showNodeInfo(node: NodeSingular) {
+        const nodeInfo = element('nodeInfo');
+        const infoPanel = element('info');
+        if (!nodeInfo || !infoPanel) {
+            return;
+        }
+        nodeInfo.innerHTML = describeNode(node.data() as NodeElementData, {
+            hasNode: id => cy.getElementById(id).length > 0,
+            labelForId,
+            compactIri: iri => compactIri(iri, baseData.prefixes || {}),
+            statements: getStatementIndex()
+        });
+        if (focusButton) {
+            focusButton.dataset.nodeId = node.id();
+            focusButton.disabled = currentFocus !== undefined && focusedNodeId(currentFocus) === node.id();
+        }
+        if (collapseButton) {
+            collapseButton.dataset.nodeId = node.id();
+            collapseButton.textContent = collapsedIds.has(node.id()) ? 'Expand' : 'Collapse';
+            collapseButton.style.display = hierarchy.children.has(node.id()) ? '' : 'none';
+        }
+        infoPanel.style.display = 'block';
+    }
+
+    function focusNode(id: string, minZoom?: number) {
+        const target = cy.getElementById(id);
+        if (!target || target.length === 0) {
+            return;
+        }
+        cy.elements().unselect();
+        target.select();
+        cy.animate({
+            center: { eles: target },
+            zoom: minZoom === undefined ? cy.zoom() : Math.max(cy.zoom(), minZoom)
+        }, { duration: 300 });
+        showNodeInfo(target as NodeSingular);
+    }
+
+    function runSearch() {
+        clearTimeout(searchTimer);
+        searchTimer = undefined;
+        const query = searchInput ? searchInput.value.trim() : '';
+        if (query && !searchIndex) {
+            // Nodes in collapsed subtrees are found too; showing one expands its ancestors
+            searchIndex = buildSearchIndex(expandedViewData.nodes.map(node => ({
+                ...node,
+                label: labelFor(node.label, node.uri, node.labels),
+                defaultLabel: node.label
+            })));
+        }
+        searchHits = query && searchIndex ? searchNodes(searchIndex, query) : [];
+        searchHitIndex = -1;
+
+        const hitIds = new Set(searchHits.map(hit => hit.id));
+        cy.batch(() => {
+            cy.elements().removeClass('search-match search-faded');
+            if (hitIds.size > 0) {
+                cy.nodes().filter(node => hitIds.has(node.id())).addClass('search-match');
+                cy.elements().not('.search-match').addClass('search-faded');
+            }
+        });
+        renderSearchResults();
+    }
+
+    // The graph changed under an active search; match again so the highlights stay current
+    function refreshSearch() {
+        searchIndex = undefined;
+        if (searchInput && searchInput.value.trim()) {
+            runSearch();
+        }
+    }
+
+    function renderSearchResults() {
+        const query = searchInput ? searchInput.value.trim() : '';
+        if (searchCount) {
+            if (!query) {
+                searchCount.textContent = '';
+            } else if (searchHits.length === 0) {
+                searchCount.textContent = 'No matches';
+            } else {
+                searchCount.textContent = (searchHitIndex >= 0 ? (searchHitIndex + 1) + '/' : '') + searchHits.length;
+            }
+        }
+        if (!searchResults) {
+            return;
+        }
+
+        searchResults.innerHTML = '';
+        searchHits.slice(0, MAX_SEARCH_RESULTS).forEach((hit, index) => {
+            const item = document.createElement('div');
+            item.className = index === searchHitIndex ? 'search-result active' : 'search-result';
+            item.dataset.index = String(index);
+            const label = document.createElement('div');
+            label.textContent = hit.label;
+            // Shows why the node matched when it is not the visible label
+            const detail = document.createElement('small');
+            detail.textContent = hit.field === 'annotation' || (hit.field === 'label' && hit.text !== hit.label) ? hit.text : hit.id;
+            item.append(label, detail);
+            searchResults.appendChild(item);
+        });
+        searchResults.style.display = searchHits.length > 0 && document.activeElement === searchInput ? 'block' : 'none';
+        searchResults.querySelector('.active')?.scrollIntoView({ block: 'nearest' });
+    }
+
+    function showSearchHit(index: number) {
+        if (index < 0 || index >= searchHits.length) {
+            return;
+        }
+        const id = searchHits[index].id;
+        if (cy.getElementById(id).length === 0 && expandTo(id)) {
+            rebuildGraph({
+                preserveViewport: true,
+                onLayoutStop: () => showSearchHit(searchHits.findIndex(hit => hit.id === id))
+            });
+            saveViewState();
+            return;
+        }
+        searchHitIndex = index;
+        focusNode(id, SEARCH_MIN_ZOOM);
+        renderSearchResults();
+    }
+
+    function stepSearch(direction: 1 | -1) {
+        if (searchTimer) {
+            runSearch();
+        }
+        if (searchHits.length === 0) {
+            return;
+        }
+        showSearchHit(searchHitIndex < 0 && direction < 0
+            ? searchHits.length - 1
+            : (searchHitIndex + direction + searchHits.length) % searchHits.length);
+    }
+
+    function clearSearch() {
+        if (searchInput) {
+            searchInput.value = '';
+        }
+        runSearch();
+    }
+
+    function rebuildGraph(options: { preserveViewport?: boolean; onLayoutStop?: () => void } = {}) {
+        const previousZoom = cy.zoom();
+        const previousPan = cy.pan();
+
+        activeViewData = buildActiveViewData();
+        cy.elements().remove();
+        cy.add(createCytoscapeElements(activeViewData));
+        updateStats(activeViewData);
+        markFocusRoot();
+        updateFocusBar();
+        updateExpandAllButton();
+        updateFilterToggleButton();
+        renderFilterPanel();
+        refreshSearch();
+
+        runLayout(currentLayout, () => {
+            if (options.preserveViewport) {
+                cy.zoom(previousZoom);
+                cy.pan(previousPan);
+            } else {
+                cy.fit();
+            }
+            options.onLayoutStop?.();
+        }, { animate: false });
+    }
+
+    function toggleCollapse(id: string) {
+        if (collapsedIds.has(id)) {
+            collapsedIds.delete(id);
+        } else {
+            collapsedIds.add(id);
+        }
+        rebuildGraph({ preserveViewport: true, onLayoutStop: () => focusNode(id) });
+        saveViewState();
+    }
+
+    // Expands every collapsed ancestor of a hidden node; false if that does not reveal it
+    function expandTo(id: string): boolean {
+        const collapsedAncestors = Array.from(ancestorsOf(hierarchy, id)).filter(ancestor => collapsedIds.has(ancestor));
+        collapsedAncestors.forEach(ancestor => collapsedIds.delete(ancestor));
+        return collapsedAncestors.length > 0;
+    }
+
+    function applyView(mode: ViewMode, options: { preserveViewport?: boolean } = {}) {
+        if (currentViewMode === mode && options.preserveViewport) {
+            rebuildGraph(options);
+            return;
+        }
+        currentViewMode = mode;
+        updateViewToggleButton();
+        rebuildGraph(options);
+        saveViewState();
+    }
+
+    function markFocusRoot() {
+        cy.nodes('.focus-root').removeClass('focus-root');
+        if (currentFocus) {
+            cy.getElementById(focusedNodeId(currentFocus)).addClass('focus-root');
+        }
+    }
+
+    function updateFocusBar() {
+        if (!focusBar) {
+            return;
+        }
+        const wasShown = focusBar.style.display === 'flex';
+        focusBar.style.display = currentFocus ? 'flex' : 'none';
+        if (wasShown !== Boolean(currentFocus)) {
+            // The bar takes height from the graph container
+            cy.resize();
+        }
+        if (!currentFocus) {
+            return;
+        }
+
+        if (focusTrail) {
+            focusTrail.innerHTML = '';
+            const addCrumb = (text: string, index: number | undefined) => {
+                const crumb = document.createElement(index === undefined ? 'strong' : 'a');
+                crumb.textContent = text;
+                if (index !== undefined) {
+                    crumb.dataset.index = String(index);
+                    crumb.title = index < 0 ? 'Exit focus' : 'Focus on ' + text;
+                }
+                focusTrail.appendChild(crumb);
+            };
+            addCrumb('All', -1);
+            currentFocus.nodeIds.forEach((id, index) => {
+                const separator = document.createElement('span');
+                separator.className = 'separator';
+                separator.textContent = '›';
+                focusTrail.appendChild(separator);
+                addCrumb(labelForId(id), index === currentFocus!.nodeIds.length - 1 ? undefined : index);
+            });
+        }
+        if (focusDepth) {
+            focusDepth.textContent = currentFocus.depth === 1 ? '1 hop' : currentFocus.depth + ' hops';
+        }
+        if (focusNarrowButton) {
+            focusNarrowButton.disabled = currentFocus.depth <= 1;
+        }
+        if (focusWidenButton) {
+            focusWidenButton.disabled = currentFocus.depth >= MAX_FOCUS_DEPTH;
+        }
+        if (focusDirectionSelect) {
+            focusDirectionSelect.value = currentFocus.direction;
+        }
+        if (focusEdgeTypeSelect) {
+            const edgeTypes = currentFocus.edgeType && !focusEdgeTypes.includes(currentFocus.edgeType)
+                ? [...focusEdgeTypes, currentFocus.edgeType]
+                : focusEdgeTypes;
+            fillSelect(focusEdgeTypeSelect, [['', 'All relations'], ...edgeTypes.map(type => [type, type] as [string, string])], currentFocus.edgeType);
+        }
+    }
+
+    function setFocus(focus: FocusState | undefined) {
+        currentFocus = focus;
+        rebuildGraph({ preserveViewport: false });
+        saveViewState();
+    }
+
+    // Focusing a node from the breadcrumb goes back to it; any other node extends the trail
+    function enterFocus(id: string) {
+        const trail = currentFocus ? currentFocus.nodeIds : [];
+        const index = trail.indexOf(id);
+        setFocus({
+            nodeIds: index >= 0 ? trail.slice(0, index + 1) : [...trail, id],
+            depth: currentFocus ? currentFocus.depth : DEFAULT_FOCUS_DEPTH,
+            direction: currentFocus ? currentFocus.direction : 'both',
+            edgeType: currentFocus ? currentFocus.edgeType : ''
+        });
+    }
+
+    function redrawDiagram() {
+        runLayout(currentLayout, () => {
+            setTimeout(() => cy.fit(), 100);
+        });
+        console.log('Diagram redraw triggered with layout: ' + currentLayout);
+    }
+
+    function exportFileName(extension: string): string {
+        return 'owl-visualization-' + new Date().toISOString().replace(/[:.]/g, '-') + '.' + extension;
+    }
+
+    function exportSvg() {
+        const svg = (cy as Core & { svg?: (options: Record<string, unknown>) => string }).svg;
+        if (typeof svg !== 'function') {
+            console.error('cytoscape-svg extension is unavailable; export cancelled');
+            showStatus('SVG export unavailable');
+            return;
+        }
+
+        try {
+            const svgContent = svg.call(cy, {
+                full: true,
+                scale: 1,
+                bg: getComputedStyle(document.body).backgroundColor
+            });
+
+            if (!vscodeApi) {
+                console.warn('VS Code API unavailable in webview; cannot trigger export');
+                showStatus('SVG export unavailable');
+                return;
+            }
+            if (statusText) {
+                statusText.textContent = 'Preparing SVG...';
+            }
+            vscodeApi.postMessage({ command: 'exportSvg', svgContent, fileName: exportFileName('svg') });
+        } catch (error) {
+            console.error('Failed to export SVG:', error);
+            showStatus('SVG export failed');
+        }
+    }
+
+    function exportMermaid() {
+        if (statusText) {
+            statusText.textContent = 'Preparing Mermaid...';
+        }
+
+        try {
+            const mermaidContent = buildMermaidDefinition(activeViewData);
+            if (!vscodeApi) {
+                console.warn('VS Code API unavailable in webview; cannot trigger export');
+                showStatus('Mermaid export unavailable');
+                return;
+            }
+            vscodeApi.postMessage({ command: 'exportMermaid', mermaidContent, fileName: exportFileName('mmd') });
+        } catch (error) {
+            console.error('Failed to export Mermaid definition:', error);
+            showStatus('Mermaid export failed');
+        }
+    }
+
+    function showUpdateIndicator() {
+        const statusDot = element('statusDot');
+        if (statusDot && statusText) {
+            statusDot.classList.add('updating');
+            statusText.textContent = 'Updating...';
+
+            setTimeout(() => {
+                statusDot.classList.remove('updating');
+                statusText.textContent = 'Auto-updating';
+            }, 1500);
+        }
+    }
+
+    function updateVisualizationData(newOntologyData: OntologyData) {
+        console.log('Applying ontology update (nodes: ' + newOntologyData.nodes.length + ', edges: ' + newOntologyData.edges.length + ')');
+        showUpdateIndicator();
+        baseData = newOntologyData;
+        updateGraphOptions(baseData);
+        updateImportOptions(baseData);
+        updateLanguageOptions(baseData);
+        rebuildGraph({ preserveViewport: true });
+        updateViewToggleButton();
+    }
+
+    function showSourceError(message: string) {
+        const banner = element('source-error');
+        const messageElement = element('sourceErrorMessage');
+        if (banner && messageElement) {
+            messageElement.textContent = message;
+            banner.style.display = 'block';
+        }
+    }
+
+    function hideSourceError() {
+        const banner = element('source-error');
+        if (banner) {
+            banner.style.display = 'none';
+        }
+    }
+
+    function showExportResult(format: ExportFormat, status: string) {
+        const formatLabel = format === 'mermaid' ? 'Mermaid' : 'SVG';
+        if (status === 'success') {
+            showStatus(formatLabel + ' saved');
+        } else if (status === 'cancelled') {
+            showStatus(formatLabel + ' export cancelled');
+        } else {
+            showStatus(formatLabel + ' export failed');
+        }
+    }
+
+    if (savedViewport) {
+        runLayout(currentLayout, () => {
+            cy.zoom(savedViewport.zoom);
+            cy.pan(savedViewport.pan);
+        }, { animate: false, fit: false });
+    }
+    if (showIris || currentLanguage) {
+        refreshLabels();
+    }
+    cy.on('viewport layoutstop', saveViewState);
+    saveViewState();
+
+    cy.on('tap', 'node', event => {
+        if (event.target.data('collapsedCount')) {
+            // Expanding re-renders the graph; the node is selected again once it is laid out
+            toggleCollapse(event.target.id());
+        } else {
+            showNodeInfo(event.target);
+        }
+        vscodeApi?.postMessage({ command: 'nodeSelected', source: event.target.data('source') });
+    });
+
+    cy.on('dragfree', 'node', event => {
+        movedNodeIds.add(event.target.id());
+    });
+
+    cy.on('dbltap', 'node', event => {
+        vscodeApi?.postMessage({
+            command: 'revealDefinition',
+            label: event.target.data('label'),
+            source: event.target.data('source')
+        });
+    });
+
+    cy.on('tap', event => {
+        const infoPanel = element('info');
+        if (event.target === cy && infoPanel) {
+            infoPanel.style.display = 'none';
+        }
+    });
+
+    element('nodeInfo')?.addEventListener('click', event => {
+        const link = (event.target as HTMLElement).closest('a');
+        if (!link) {
+            return;
+        }
+        event.preventDefault();
+        if (link.dataset.nodeId) {
+            focusNode(link.dataset.nodeId);
+        } else if (link.dataset.href) {
+            vscodeApi?.postMessage({ command: 'openLink', url: link.dataset.href });
+        }
+    });
+
+    if (layoutSelect) {
+        layoutSelect.addEventListener('change', () => {
+            runLayout(layoutSelect.value, () => {
+                setTimeout(() => cy.fit(), 50);
+            });
+        });
+        layoutSelect.value = currentLayout;
+    }
+
+    exportButton?.addEventListener('click', () => {
+        if (exportFormatSelect?.value === 'mermaid') {
+            exportMermaid();
+        } else {
+            exportSvg();
+        }
+    });
+
+    graphSelect?.addEventListener('change', () => {
+        currentGraph = graphSelect.value;
+        rebuildGraph({ preserveViewport: false });
+        saveViewState();
+    });
+
+    importSelect?.addEventListener('change', () => {
+        currentImportFilter = importSelect.value;
+        rebuildGraph({ preserveViewport: false });
+        saveViewState();
+    });
+
+    languageSelect?.addEventListener('change', () => {
+        currentLanguage = languageSelect.value;
+        refreshLabels();
+        saveViewState();
+    });
+
+    labelModeToggleButton?.addEventListener('click', () => {
+        showIris = !showIris;
+        refreshLabels();
+        saveViewState();
+    });
+
+    viewToggleButton?.addEventListener('click', () => {
+        applyView(currentViewMode === 'ontology' ? 'instance' : 'ontology', { preserveViewport: false });
+    });
+
+    taxonomyToggleButton?.addEventListener('click', () => {
+        applyView(currentViewMode === 'taxonomy' ? 'ontology' : 'taxonomy', { preserveViewport: false });
+    });
+
+    element('fitButton')?.addEventListener('click', () => cy.fit());
+    element('resetZoomButton')?.addEventListener('click', () => {
+        cy.zoom(1);
+        cy.center();
+    });
+    element('redrawButton')?.addEventListener('click', redrawDiagram);
+    element('sourceErrorDismiss')?.addEventListener('click', hideSourceError);
+
+    focusButton?.addEventListener('click', () => {
+        if (focusButton.dataset.nodeId) {
+            enterFocus(focusButton.dataset.nodeId);
+        }
+    });
+    focusTrail?.addEventListener('click', event => {
+        const crumb = (event.target as HTMLElement).closest<HTMLElement>('a');
+        if (!crumb || !currentFocus || crumb.dataset.index === undefined) {
+            return;
+        }
+        const index = Number(crumb.dataset.index);
+        setFocus(index < 0 ? undefined : { ...currentFocus, nodeIds: currentFocus.nodeIds.slice(0, index + 1) });
+    });
+    focusNarrowButton?.addEventListener('click', () => {
+        if (currentFocus && currentFocus.depth > 1) {
+            setFocus({ ...currentFocus, depth: currentFocus.depth - 1 });
+        }
+    });
+    focusWidenButton?.addEventListener('click', () => {
+        if (currentFocus && currentFocus.depth < MAX_FOCUS_DEPTH) {
+            setFocus({ ...currentFocus, depth: currentFocus.depth + 1 });
+        }
+    });
+    focusDirectionSelect?.addEventListener('change', () => {
+        if (currentFocus) {
+            setFocus({ ...currentFocus, direction: focusDirectionSelect.value as FocusDirection });
+        }
+    });
+    focusEdgeTypeSelect?.addEventListener('change', () => {
+        if (currentFocus) {
+            setFocus({ ...currentFocus, edgeType: focusEdgeTypeSelect.value });
+        }
+    });
+    element('focusExit')?.addEventListener('click', () => setFocus(undefined));
+
+    filterToggleButton?.addEventListener('click', () => {
+        if (filterPanel) {
+            filterPanel.style.display = filterPanel.style.display === 'block' ? 'none' : 'block';
+            renderFilterPanel();
+        }
+    });
+    filterPanel?.addEventListener('change', event => {
+        const checkbox = event.target as HTMLInputElement;
+        const group = checkbox.closest<HTMLElement>('[data-group]')?.dataset.group;
+        if (group === 'nodeType' || group === 'edgeType') {
+            setFilters(setTypeShown(currentFilters, currentViewMode, group === 'nodeType' ? 'node' : 'edge', checkbox.value, checkbox.checked));
+        } else if (group === 'namespace') {
+            const hidden = currentFilters.hiddenNamespaces.filter(value => value !== checkbox.value);
+            setFilters({ ...currentFilters, hiddenNamespaces: checkbox.checked ? hidden : [...hidden, checkbox.value] });
+        }
+    });
+    element('filterReset')?.addEventListener('click', () => setFilters(NO_FILTERS));
+
+    savedViewSelect?.addEventListener('change', () => {
+        const view = savedViews.find(candidate => candidate.name === savedViewSelect.value);
+        if (view) {
+            openSavedView(view);
+        } else {
+            activeViewName = '';
+            renderSavedViews();
+        }
+    });
+    element('saveViewButton')?.addEventListener('click', () => {
+        vscodeApi?.postMessage({ command: 'saveView', view: captureView(), name: activeViewName || undefined });
+    });
+    deleteViewButton?.addEventListener('click', () => {
+        if (activeViewName) {
+            vscodeApi?.postMessage({ command: 'deleteView', name: activeViewName });
+        }
+    });
+
+    collapseButton?.addEventListener('click', () => {
+        if (collapseButton.dataset.nodeId) {
+            toggleCollapse(collapseButton.dataset.nodeId);
+        }
+    });
+    expandAllButton?.addEventListener('click', () => {
+        collapsedIds.clear();
+        rebuildGraph({ preserveViewport: false });
+        saveViewState();
+    });
+
+    if (searchInput) {
+        searchInput.addEventListener('input', () => {
+            clearTimeout(searchTimer);
+            searchTimer = setTimeout(runSearch, SEARCH_DELAY_MS);
+        });
+        searchInput.addEventListener('keydown', event => {
+            if (event.key === 'Enter') {
+                event.preventDefault();
+                stepSearch(event.shiftKey ? -1 : 1);
+            } else if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+                event.preventDefault();
+                stepSearch(event.key === 'ArrowDown' ? 1 : -1);
+            } else if (event.key === 'Escape') {
+                if (searchInput.value) {
+                    clearSearch();
+                } else {
+                    searchInput.blur();
+                }
+            }
+        });
+        searchInput.addEventListener('focus', renderSearchResults);
+        searchInput.addEventListener('blur', () => {
+            if (searchResults) {
+                searchResults.style.display = 'none';
+            }
+        });
+        document.addEventListener('keydown', event => {
+            if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'f') {
+                event.preventDefault();
+                searchInput.focus();
+                searchInput.select();
+            }
+        });
+    }
+
+    // mousedown rather than click, so the search field keeps focus and the list stays open
+    searchResults?.addEventListener('mousedown', event => {
+        const item = (event.target as HTMLElement).closest<HTMLElement>('.search-result');
+        event.preventDefault();
+        if (item && item.dataset.index) {
+            showSearchHit(Number(item.dataset.index));
+        }
+    });
+
+    window.addEventListener('message', (event: MessageEvent<HostMessage>) => {
+        const message = event.data;
+        switch (message.command) {
+            case 'updateData':
+                hideSourceError();
+                updateVisualizationData(message.data);
+                break;
+            case 'sourceError':
+                showSourceError(message.message || '');
+                break;
+            case 'selectNode': {
+                // Selection coming from the editor; focusNode does not echo it back
+                const target = cy.getElementById(message.id);
+                if (target.length > 0 && !target.selected()) {
+                    focusNode(message.id);
+                }
+                break;
+            }
+            case 'exportResult':
+                showExportResult(message.format, message.status);
+                break;
+            case 'search':
+                if (searchInput) {
+                    searchInput.value = message.query;
+                    searchInput.focus();
+                    runSearch();
+                    stepSearch(1);
+                }
+                break;
+            case 'savedViews':
+                savedViews = Array.isArray(message.views) ? message.views : [];
+                activeViewName = message.active ?? activeViewName;
+                renderSavedViews();
+                break;
+            case 'openView':
+                openSavedView(message.view);
+                break;
+            case 'captureView':
+                vscodeApi?.postMessage({ command: 'saveView', view: captureView(), name: activeViewName || undefined });
+                break;
+        }
+    });
+
+    // A restored viewport must not be replaced by the initial fit
+    if (!savedViewport) {
+        setTimeout(() => {
+            try {
+                cy.fit();
+            } catch (error) {
+                console.error('Error fitting graph:', error);
+            }
+        }, 100);
+    }
+
+    if (bootstrap.showUpdateIndicator) {
+        showUpdateIndicator();
+    }
+}
+
+try {
+    start();
+} catch (error) {
+    console.error('=== FATAL ERROR in webview script ===', error);
+    showError('Fatal error in webview script: ' + (error instanceof Error ? error.message : String(error)), error);
+}
@@ -0,0 +1,101 @@
+import { ViewData, decoratedLabel } from './viewData';
+
+export function sanitizeMermaidText(text: unknown, options: { allowLineBreaks?: boolean } = {}): string {
+    let value = String(text ?? '').trim();
+    value = value.replace(/\r?\n+/g, options.allowLineBreaks ? '<br/>' : ' ');
+    value = value.split('`').join("'");
+    value = value.replace(/'/g, '&#39;');
+    value = value.replace(/"/g, '&quot;');
+    value = value.replace(/\|/g, '/');
+    return value;
+}
+
+export function sanitizeMermaidIdentifier(text: unknown, fallback: unknown): string {
+    const primary = String(text ?? '').trim();
+    const secondary = String(fallback ?? '').trim() || 'node';
+    const toIdentifier = (value: string) => value
+        .replace(/[^A-Za-z0-9_\s-]/g, '_')
+        .replace(/[\s-]+/g, '_')
+        .replace(/_+/g, '_')
+        .replace(/^_+/, '')
+        .replace(/_+$/, '');
+
+    let identifier = toIdentifier((primary || secondary).normalize('NFKD'));
+    if (!identifier) {
+        identifier = toIdentifier(secondary) || 'node';
+    }
+    if (/^[0-9]/.test(identifier)) {
+        identifier = '_' + identifier;
+    }
+    return identifier;
+}
+
+export function buildMermaidDefinition(viewData: ViewData | null | undefined): string {
+    if (!viewData) {
+        return 'graph TD';
+    }
+
+    const usedMermaidIds = new Set<string>();
+
+    const reserveMermaidId = (preferred: string, fallback: string) => {
+        const baseId = sanitizeMermaidIdentifier(preferred, fallback);
+        let candidate = baseId;
+        let index = 2;
+        while (usedMermaidIds.has(candidate)) {
+            candidate = baseId + '_' + index;
+            index++;
+        }
+        usedMermaidIds.add(candidate);
+        return candidate;
+    };
+
+    const lines = [
+        '%% Auto-generated by OWL Ontology Visualizer',
+        'graph TD'
+    ];
+
+    const nodeAliasMap = new Map<string, string>();
+
+    viewData.nodes.forEach((node, index) => {
+        const alias = reserveMermaidId(node.label || node.id, node.id || ('node_' + index));
+        nodeAliasMap.set(node.id, alias);
+
+        const label = decoratedLabel(node.label || node.id, (node.decorators ?? []).map(decorator => decorator.label || decorator.id));
+        const labelParts = [sanitizeMermaidText(label, { allowLineBreaks: true })];
+        if (node.type) {
+            labelParts.push(sanitizeMermaidText(node.type));
+        }
+
+        const combinedLabel = labelParts.join('<br/>') || sanitizeMermaidText(node.id);
+        lines.push('    ' + alias + '["' + combinedLabel + '"]');
+    });
+
+    const seenEdges = new Set<string>();
+
+    viewData.edges.forEach(edge => {
+        const sourceAlias = nodeAliasMap.get(edge.source);
+        const targetAlias = nodeAliasMap.get(edge.target);
+        if (!sourceAlias || !targetAlias) {
+            return;
+        }
+
+        const label = sanitizeMermaidText(edge.label || '');
+        const connector = label ? '-->|' + label + '|' : '-->';
+        const edgeLine = sourceAlias + connector + targetAlias;
+
+        if (!seenEdges.has(edgeLine)) {
+            lines.push('    ' + edgeLine);
+            seenEdges.add(edgeLine);
+        }
+
+        if (edge.bidirectional) {
+            const reverseLine = targetAlias + connector + sourceAlias;
+            if (!seenEdges.has(reverseLine)) {
+                lines.push('    ' + reverseLine);
+                seenEdges.add(reverseLine);
+            }
+        }
+    });
+
+    return lines.join('\n');
+}
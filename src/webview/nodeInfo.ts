@@ -0,0 +1,164 @@
+import type { NodeAnnotation, NodeLabels, OntologyStatement, StatementTerm } from '../owlParser';
+import type { NodeElementData } from './viewData';
+
+export interface NodeInfoContext {
+    // Whether the id is a node of the current graph, which makes it a link
+    hasNode(id: string): boolean;
+    labelForId(id: string): string;
+    compactIri(iri: string): string;
+    statements: StatementIndex;
+}
+
+export interface StatementIndex {
+    bySubject: Map<string, OntologyStatement[]>;
+    byObject: Map<string, OntologyStatement[]>;
+}
+
+const PROPERTY_KIND_LABELS: Record<string, string> = {
+    object: 'Object property',
+    data: 'Datatype property',
+    annotation: 'Annotation property'
+};
+
+const OWL_DEPRECATED = 'http://www.w3.org/2002/07/owl#deprecated';
+
+export function escapeHtml(value: unknown): string {
+    return String(value).replace(/[&<>"']/g, character => ({
+        '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;'
+    })[character]!);
+}
+
+export function indexStatements(statements: OntologyStatement[] | undefined): StatementIndex {
+    const bySubject = new Map<string, OntologyStatement[]>();
+    const byObject = new Map<string, OntologyStatement[]>();
+    const add = (index: Map<string, OntologyStatement[]>, key: string, statement: OntologyStatement) => {
+        if (!index.has(key)) {
+            index.set(key, []);
+        }
+        index.get(key)!.push(statement);
+    };
+    (statements || []).forEach(statement => {
+        add(bySubject, statement.subject.value, statement);
+        if (statement.object.kind !== 'literal') {
+            add(byObject, statement.object.value, statement);
+        }
+    });
+    return { bySubject, byObject };
+}
+
+// HTML for the info panel; links carry data-node-id (select in the graph) or data-href (open externally)
+export function describeNode(nodeData: NodeElementData, context: NodeInfoContext): string {
+    const isDeprecated = (nodeData.annotations || []).some(annotation =>
+        annotation.property === OWL_DEPRECATED && annotation.value === 'true');
+
+    let html = '<h3>' + escapeHtml(nodeData.label) + '</h3>';
+    html += '<p><strong>Type:</strong> ' + (PROPERTY_KIND_LABELS[nodeData.propertyKind ?? ''] || nodeData.type) + (nodeData.ordered ? ' (ordered)' : '')
+        + (isDeprecated ? ' <span class="badge deprecated">Deprecated</span>' : '') + '</p>';
+    if (Array.isArray(nodeData.characteristics) && nodeData.characteristics.length > 0) {
+        html += '<p>' + nodeData.characteristics.map(characteristic => '<span class="badge">' + characteristic + '</span>').join('') + '</p>';
+    }
+    if (Array.isArray(nodeData.propertyChains)) {
+        nodeData.propertyChains.forEach(chain => {
+            html += '<p><strong>Chain:</strong> ' + chain.map(id => escapeHtml(context.labelForId(id))).join(' ∘ ') + ' ⊑ ' + escapeHtml(nodeData.label) + '</p>';
+        });
+    }
+    html += describeLabels(nodeData.labels);
+    if (nodeData.id !== nodeData.uri) {
+        html += '<p><strong>ID:</strong> ' + escapeHtml(nodeData.id) + '</p>';
+    }
+    if (nodeData.uri) {
+        html += '<p><strong>URI:</strong> <small>' + escapeHtml(nodeData.uri) + '</small></p>';
+    }
+    if (nodeData.importedFrom) {
+        html += '<p><strong>Imported from:</strong> <small>' + escapeHtml(nodeData.importedFrom) + '</small></p>';
+    }
+    html += describeAnnotations(nodeData.annotations, context);
+    html += describeStatements(nodeData.uri || nodeData.id, context);
+    return html;
+}
+
+function describeLabels(labels: NodeLabels | undefined): string {
+    return Object.entries(labels || {}).map(([property, byLanguage]) => {
+        const values = Object.entries(byLanguage).map(([language, value]) =>
+            escapeHtml(value) + (language ? ' <small>@' + escapeHtml(language) + '</small>' : ''));
+        return '<p><strong>' + escapeHtml(property) + ':</strong> ' + values.join(', ') + '</p>';
+    }).join('');
+}
+
+function describeIri(iri: string, context: NodeInfoContext): string {
+    if (context.hasNode(iri)) {
+        return '<a data-node-id="' + escapeHtml(iri) + '">' + escapeHtml(context.labelForId(iri)) + '</a>';
+    }
+    if (/^(https?|mailto):/i.test(iri)) {
+        return '<a data-href="' + escapeHtml(iri) + '" title="Open in browser">' + escapeHtml(context.compactIri(iri)) + '</a>';
+    }
+    return escapeHtml(context.compactIri(iri));
+}
+
+function describeAnnotations(annotations: NodeAnnotation[] | undefined, context: NodeInfoContext): string {
+    const byProperty = new Map<string, string[]>();
+    (annotations || []).forEach(annotation => {
+        if (!byProperty.has(annotation.propertyLabel)) {
+            byProperty.set(annotation.propertyLabel, []);
+        }
+        let value = annotation.isIri
+            ? describeIri(annotation.value, context)
+            : '<span class="annotation-value">' + escapeHtml(annotation.value) + '</span>';
+        if (annotation.language) {
+            value += ' <small>@' + escapeHtml(annotation.language) + '</small>';
+        } else if (annotation.datatype) {
+            value += ' <small>^^' + escapeHtml(annotation.datatype) + '</small>';
+        }
+        byProperty.get(annotation.propertyLabel)!.push(value);
+    });
+
+    return Array.from(byProperty.entries()).map(([property, values]) =>
+        '<p><strong>' + escapeHtml(property) + ':</strong> ' + values.join('<br>') + '</p>'
+    ).join('');
+}
+
+function describeTerm(term: StatementTerm, context: NodeInfoContext): string {
+    if (term.kind === 'literal') {
+        let value = '<span class="annotation-value">"' + escapeHtml(term.value) + '"</span>';
+        if (term.language) {
+            value += '<small>@' + escapeHtml(term.language) + '</small>';
+        } else if (term.datatype) {
+            value += '<small>^^' + escapeHtml(term.datatype) + '</small>';
+        }
+        return value;
+    }
+    if (term.kind === 'blank' && !context.hasNode(term.value)) {
+        return '<small>[anonymous]</small>';
+    }
+    return describeIri(term.value, context);
+}
+
+function describeStatementGroups(statements: OntologyStatement[], direction: 'outgoing' | 'incoming', context: NodeInfoContext): string {
+    const groups = new Map<string, string[]>();
+    statements.forEach(statement => {
+        const predicate = statement.predicate.value;
+        if (!groups.has(predicate)) {
+            groups.set(predicate, []);
+        }
+        groups.get(predicate)!.push(describeTerm(direction === 'outgoing' ? statement.object : statement.subject, context));
+    });
+
+    return Array.from(groups.entries()).map(([predicate, terms]) => {
+        const predicateName = escapeHtml(context.compactIri(predicate));
+        const heading = direction === 'outgoing' ? predicateName : '← ' + predicateName;
+        return '<p><strong>' + heading + ':</strong> ' + terms.join(', ') + '</p>';
+    }).join('');
+}
+
+// Every triple mentioning the node, including those the graph does not draw
+function describeStatements(id: string, context: NodeInfoContext): string {
+    const outgoing = context.statements.bySubject.get(id) || [];
+    const incoming = context.statements.byObject.get(id) || [];
+    if (outgoing.length === 0 && incoming.length === 0) {
+        return '';
+    }
+    return '<details class="statements"><summary>Statements (' + (outgoing.length + incoming.length) + ')</summary>'
+        + describeStatementGroups(outgoing, 'outgoing', context)
+        + describeStatementGroups(incoming, 'incoming', context)
+        + '</details>';
+}
@@ -0,0 +1,159 @@
+import type { NodeAnnotation, NodeLabels } from '../owlParser';
+
+export type SearchField = 'label' | 'localName' | 'iri' | 'annotation';
+
+export interface SearchableNode {
+    id: string;
+    // The label currently shown in the graph
+    label: string;
+    defaultLabel?: string;
+    uri?: string;
+    labels?: NodeLabels;
+    annotations?: NodeAnnotation[];
+}
+
+export interface SearchResult {
+    id: string;
+    label: string;
+    field: SearchField;
+    // The text that matched, e.g. a label in another language or a comment
+    text: string;
+    score: number;
+}
+
+interface SearchText {
+    field: SearchField;
+    text: string;
+    normalized: string;
+}
+
+export interface SearchEntry {
+    id: string;
+    label: string;
+    texts: SearchText[];
+}
+
+// Later fields rank below earlier ones for equally good matches
+const FIELD_PENALTY: Record<SearchField, number> = {
+    label: 0,
+    localName: 2,
+    iri: 15,
+    annotation: 30
+};
+// Subsequence matching is only useful on short names; on IRIs and comments it matches almost anything
+const FUZZY_FIELDS = new Set<SearchField>(['label', 'localName']);
+const MAX_FUZZY_SPREAD = 3;
+
+// Lower-cased and without diacritics, so that "cafe" finds "Café"
+export function normalizeSearchText(text: string): string {
+    return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+export function localName(iri: string): string {
+    const trimmed = iri.replace(/[/#]+$/, '');
+    return trimmed.substring(Math.max(trimmed.lastIndexOf('#'), trimmed.lastIndexOf('/'), trimmed.lastIndexOf(':')) + 1);
+}
+
+export function buildSearchIndex(nodes: SearchableNode[]): SearchEntry[] {
+    return nodes.map(node => {
+        const texts: SearchText[] = [];
+        const seen = new Set<string>();
+        const add = (field: SearchField, text: string | undefined) => {
+            if (!text || seen.has(field + '|' + text)) {
+                return;
+            }
+            seen.add(field + '|' + text);
+            texts.push({ field, text, normalized: normalizeSearchText(text) });
+        };
+
+        add('label', node.label);
+        add('label', node.defaultLabel);
+        Object.values(node.labels || {}).forEach(byLanguage => {
+            Object.values(byLanguage).forEach(label => add('label', label));
+        });
+        if (node.uri) {
+            add('localName', localName(node.uri));
+            add('iri', node.uri);
+        }
+        (node.annotations || []).filter(annotation => !annotation.isIri).forEach(annotation => add('annotation', annotation.value));
+
+        return { id: node.id, label: node.label, texts };
+    });
+}
+
+// 0 for no match; exact, prefix and word-start matches beat matches inside a word,
+// which beat scattered (fuzzy) matches
+export function matchScore(query: string, text: string, allowFuzzy: boolean = true): number {
+    if (!query) {
+        return 0;
+    }
+
+    const index = text.indexOf(query);
+    if (index >= 0) {
+        const lengthPenalty = Math.min(9, (text.length - query.length) / 10);
+        if (index === 0) {
+            return (text.length === query.length ? 100 : 90) - lengthPenalty;
+        }
+        return (/[a-z0-9]/.test(text[index - 1]) ? 70 : 80) - lengthPenalty;
+    }
+
+    return allowFuzzy ? fuzzyScore(query.replace(/\s+/g, ''), text) : 0;
+}
+
+// Characters of the query in order, as close together as possible
+function fuzzyScore(query: string, text: string): number {
+    if (!query) {
+        return 0;
+    }
+
+    let bestSpan = Infinity;
+    let bestStart = -1;
+    for (let start = text.indexOf(query[0]); start >= 0; start = text.indexOf(query[0], start + 1)) {
+        let position = start;
+        let matched = 1;
+        while (matched < query.length) {
+            position = text.indexOf(query[matched], position + 1);
+            if (position < 0) {
+                break;
+            }
+            matched++;
+        }
+        if (matched < query.length) {
+            break;
+        }
+        if (position - start + 1 < bestSpan) {
+            bestSpan = position - start + 1;
+            bestStart = start;
+        }
+    }
+
+    if (bestStart < 0 || bestSpan > query.length * MAX_FUZZY_SPREAD) {
+        return 0;
+    }
+    return 50 * query.length / bestSpan + (bestStart === 0 ? 10 : 0);
+}
+
+// Every matching node, best first; a node is listed once, with its best matching text
+export function searchNodes(index: SearchEntry[], query: string): SearchResult[] {
+    const normalizedQuery = normalizeSearchText(query.trim());
+    if (!normalizedQuery) {
+        return [];
+    }
+
+    const results: SearchResult[] = [];
+    for (const entry of index) {
+        let best: SearchResult | undefined;
+        for (const candidate of entry.texts) {
+            const match = matchScore(normalizedQuery, candidate.normalized, FUZZY_FIELDS.has(candidate.field));
+            const score = match - FIELD_PENALTY[candidate.field];
+            if (match > 0 && (!best || score > best.score)) {
+                best = { id: entry.id, label: entry.label, field: candidate.field, text: candidate.text, score };
+            }
+        }
+        if (best) {
+            results.push(best);
+        }
+    }
+
+    return results.sort((a, b) => b.score - a.score || a.label.localeCompare(b.label));
+}
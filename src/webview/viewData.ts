@@ -0,0 +1,312 @@
+import type { NodeAnnotation, NodeLabels, NodeSource, OntologyData, OntologyEdge, OntologyNode, PropertyCharacteristic } from '../owlParser';
+import type { ViewFilters, ViewMode } from '../webviewProtocol';
+
+export const DEFAULT_GRAPH = '@default';
+export const LOCAL_ONLY = '@local';
+export const NO_FILTERS: ViewFilters = { hiddenNodeTypes: [], hiddenEdgeTypes: [], shownNodeTypes: [], shownEdgeTypes: [], hiddenNamespaces: [] };
+
+// A class of an individual, shown above its label in the instance view as <<Dog, Pet>>
+export type Decorator = Pick<OntologyNode, 'id' | 'label' | 'uri' | 'labels'>;
+
+export interface ViewNode extends OntologyNode {
+    decorators?: Decorator[];
+}
+
+export interface ViewData {
+    nodes: ViewNode[];
+    edges: OntologyEdge[];
+}
+
+export interface NodeElementData {
+    id: string;
+    label: string;
+    // The parser's label, kept so the shown label can switch language or to the IRI
+    defaultLabel: string;
+    labels?: NodeLabels;
+    annotations?: NodeAnnotation[];
+    source?: NodeSource;
+    type: OntologyNode['type'];
+    uri?: string;
+    importedFrom?: string;
+    originColor?: string;
+    propertyKind?: OntologyNode['propertyKind'];
+    characteristics?: PropertyCharacteristic[];
+    propertyChains?: string[][];
+    ordered?: boolean;
+    decorators?: Decorator[];
+    // Nodes hidden in this node's collapsed subtree
+    collapsedCount?: number;
+}
+
+export interface EdgeElementData {
+    id: string;
+    source: string;
+    target: string;
+    label: string;
+    type: OntologyEdge['type'];
+    // A string so that styles.js can select on [bidirectional = "true"]
+    bidirectional?: 'true';
+}
+
+export type ElementDefinition = { data: NodeElementData } | { data: EdgeElementData };
+
+// What the data contains, with counts, for the filter panel's checkboxes
+export interface FilterOptions {
+    nodeTypes: Record<string, number>;
+    edgeTypes: Record<string, number>;
+    namespaces: Record<string, number>;
+}
+
+export interface ElementOptions {
+    displayLabel: (node: ViewNode) => string;
+    originColors: Map<string, string>;
+    collapsedCounts?: Map<string, number>;
+}
+
+const SKOS_EDGE_TYPES: OntologyEdge['type'][] = ['skosInScheme', 'skosBroader', 'skosRelated', 'skosTopConcept', 'skosMapping', 'skosMember'];
+const EDGE_TYPES_ONTOLOGY = new Set<OntologyEdge['type']>([
+    'subClassOf', 'subPropertyOf', 'type', 'domain', 'range', 'restriction', 'operand', ...SKOS_EDGE_TYPES,
+    'equivalentClass', 'disjointWith', 'equivalentProperty', 'propertyDisjointWith', 'sameAs', 'differentFrom', 'other'
+]);
+const EDGE_TYPES_INSTANCE = new Set<OntologyEdge['type']>(['type', 'propertyAssertion', 'dataAssertion', 'skosInScheme', 'sameAs', 'differentFrom']);
+const NODE_TYPES_INSTANCE = new Set<OntologyNode['type']>(['individual', 'class', 'literal', 'skosConcept', 'skosConceptScheme', 'axiomGroup']);
+// Taxonomy view leaves out inScheme, which would tie every concept of a thesaurus to its scheme
+const EDGE_TYPES_TAXONOMY = new Set<OntologyEdge['type']>(SKOS_EDGE_TYPES.filter(type => type !== 'skosInScheme'));
+const NODE_TYPES_TAXONOMY = new Set<OntologyNode['type']>(['skosConcept', 'skosConceptScheme', 'skosCollection']);
+
+// '' keeps every graph; DEFAULT_GRAPH keeps only triples outside named graphs
+export function filterByGraph(data: OntologyData, graph: string): OntologyData {
+    if (!graph) {
+        return data;
+    }
+
+    const inGraph = (graphs: string[] | undefined) => graph === DEFAULT_GRAPH
+        ? !Array.isArray(graphs) || graphs.length === 0
+        : Array.isArray(graphs) && graphs.includes(graph);
+    const edges = data.edges.filter(edge => inGraph(edge.graph ? [edge.graph] : []));
+    const endpointIds = new Set<string>();
+    edges.forEach(edge => {
+        endpointIds.add(edge.source);
+        endpointIds.add(edge.target);
+    });
+    const nodes = data.nodes.filter(node => endpointIds.has(node.id) || inGraph(node.graphs));
+
+    return { ...data, nodes, edges };
+}
+
+// Hides nodes imported from the given ontology, or from any import with LOCAL_ONLY
+export function filterByOrigin(data: OntologyData, filter: string): OntologyData {
+    if (!filter) {
+        return data;
+    }
+
+    const isHidden = (node: OntologyNode) => Boolean(node.importedFrom) && (filter === LOCAL_ONLY || node.importedFrom === filter);
+    const nodes = data.nodes.filter(node => !isHidden(node));
+    const nodeIds = new Set(nodes.map(node => node.id));
+    const edges = data.edges.filter(edge => nodeIds.has(edge.source) && nodeIds.has(edge.target));
+
+    return { ...data, nodes, edges };
+}
+
+// Each view mode is a preset of node and edge types; the user's filters hide or add types on top of it
+function modeShowsType(mode: ViewMode, kind: 'node' | 'edge', type: string): boolean {
+    if (kind === 'edge') {
+        const edgeTypes = mode === 'ontology' ? EDGE_TYPES_ONTOLOGY : mode === 'taxonomy' ? EDGE_TYPES_TAXONOMY : EDGE_TYPES_INSTANCE;
+        return edgeTypes.has(type as OntologyEdge['type']);
+    }
+    if (mode === 'ontology') {
+        return type !== 'literal';
+    }
+    return (mode === 'taxonomy' ? NODE_TYPES_TAXONOMY : NODE_TYPES_INSTANCE).has(type as OntologyNode['type']);
+}
+
+export function showsType(mode: ViewMode, filters: ViewFilters, kind: 'node' | 'edge', type: string): boolean {
+    const [hidden, shown] = kind === 'node'
+        ? [filters.hiddenNodeTypes, filters.shownNodeTypes]
+        : [filters.hiddenEdgeTypes, filters.shownEdgeTypes];
+    return !hidden.includes(type) && (shown.includes(type) || modeShowsType(mode, kind, type));
+}
+
+// Turns a type on or off, recording only where that differs from the mode's preset
+export function setTypeShown(filters: ViewFilters, mode: ViewMode, kind: 'node' | 'edge', type: string, shown: boolean): ViewFilters {
+    const [hiddenKey, shownKey] = kind === 'node'
+        ? ['hiddenNodeTypes', 'shownNodeTypes'] as const
+        : ['hiddenEdgeTypes', 'shownEdgeTypes'] as const;
+    const hidden = filters[hiddenKey].filter(value => value !== type);
+    const added = filters[shownKey].filter(value => value !== type);
+    const byMode = modeShowsType(mode, kind, type);
+    return {
+        ...filters,
+        [hiddenKey]: !shown && byMode ? [...hidden, type] : hidden,
+        [shownKey]: shown && !byMode ? [...added, type] : added
+    };
+}
+
+// Everything up to the last '#' or '/', or the last ':' of a URN
+export function namespaceOf(uri: string): string {
+    const index = Math.max(uri.lastIndexOf('#'), uri.lastIndexOf('/'));
+    return uri.substring(0, (index >= 0 ? index : uri.lastIndexOf(':')) + 1);
+}
+
+// Nodes without an IRI have no namespace to hide
+export function buildViewData(data: ViewData, mode: ViewMode, filters: ViewFilters = NO_FILTERS): ViewData {
+    const nodesById = new Map(data.nodes.map(node => [node.id, node]));
+    const includedNodes = new Map<string, OntologyNode>();
+    const hiddenNamespaces = new Set(filters.hiddenNamespaces);
+    const isAllowed = (node: OntologyNode) => showsType(mode, filters, 'node', node.type)
+        && !(node.uri && hiddenNamespaces.has(namespaceOf(node.uri)));
+
+    data.nodes.forEach(node => {
+        if (!isAllowed(node)) {
+            return;
+        }
+        // Classes and axiom hubs only enter the instance view through an edge that needs them
+        if (mode === 'instance' && (node.type === 'class' || node.type === 'axiomGroup')) {
+            return;
+        }
+        includedNodes.set(node.id, node);
+    });
+
+    const ensureNodeIncluded = (id: string) => {
+        if (includedNodes.has(id)) {
+            return;
+        }
+        const candidate = nodesById.get(id);
+        if (!candidate || !isAllowed(candidate)) {
+            return;
+        }
+        includedNodes.set(id, candidate);
+    };
+
+    const filteredEdges = data.edges.filter(edge => {
+        if (!showsType(mode, filters, 'edge', edge.type)) {
+            return false;
+        }
+        ensureNodeIncluded(edge.source);
+        ensureNodeIncluded(edge.target);
+        return includedNodes.has(edge.source) && includedNodes.has(edge.target);
+    });
+
+    const nodes = Array.from(includedNodes.values()).map(node => ({ ...node }));
+    const nodeIdSet = new Set(nodes.map(node => node.id));
+    let edges = filteredEdges
+        .filter(edge => nodeIdSet.has(edge.source) && nodeIdSet.has(edge.target))
+        .map(edge => ({ ...edge }));
+
+    if (mode === 'instance') {
+        const nodeLookup = new Map(nodes.map(node => [node.id, node]));
+        const classDecorators = new Map<string, Map<string, Decorator>>();
+        const classUsage = new Set<string>();
+        const retainedEdges: OntologyEdge[] = [];
+
+        edges.forEach(edge => {
+            if (edge.type === 'type') {
+                const individualNode = nodeLookup.get(edge.source);
+                const classNodeOriginal = nodesById.get(edge.target);
+                if (individualNode && individualNode.type === 'individual' && classNodeOriginal && classNodeOriginal.type === 'class') {
+                    if (!classDecorators.has(edge.source)) {
+                        classDecorators.set(edge.source, new Map());
+                    }
+                    const { id, label, uri, labels } = classNodeOriginal;
+                    classDecorators.get(edge.source)!.set(id, { id, label, uri, labels });
+                }
+                return;
+            }
+
+            retainedEdges.push(edge);
+
+            const sourceNode = nodeLookup.get(edge.source);
+            const targetNode = nodeLookup.get(edge.target);
+            if (sourceNode && sourceNode.type === 'class') {
+                classUsage.add(sourceNode.id);
+            }
+            if (targetNode && targetNode.type === 'class') {
+                classUsage.add(targetNode.id);
+            }
+        });
+
+        edges = retainedEdges;
+
+        const decoratedNodes: ViewNode[] = [];
+        nodes.forEach(node => {
+            if (node.type === 'class' && !classUsage.has(node.id)) {
+                return;
+            }
+
+            if (node.type === 'individual') {
+                const decorators = classDecorators.get(node.id);
+                if (decorators && decorators.size > 0) {
+                    decoratedNodes.push({ ...node, decorators: Array.from(decorators.values()) });
+                    return;
+                }
+            }
+
+            decoratedNodes.push(node);
+        });
+
+        return { nodes: decoratedNodes, edges };
+    }
+
+    return { nodes, edges };
+}
+
+// Labels are passed in already resolved, so they follow the selected language or the IRI switch
+export function decoratedLabel(label: string, decoratorLabels: string[]): string {
+    return decoratorLabels.length > 0
+        ? '<<' + [...decoratorLabels].sort((a, b) => a.localeCompare(b)).join(', ') + '>>\n' + label
+        : label;
+}
+
+export function countFilterOptions(viewData: ViewData): FilterOptions {
+    const count = (counts: Record<string, number>, key: string) => {
+        counts[key] = (counts[key] || 0) + 1;
+        return counts;
+    };
+    return {
+        nodeTypes: countNodeTypes(viewData),
+        edgeTypes: viewData.edges.reduce((counts, edge) => count(counts, edge.type), {} as Record<string, number>),
+        namespaces: viewData.nodes.reduce((counts, node) => node.uri ? count(counts, namespaceOf(node.uri)) : counts, {} as Record<string, number>)
+    };
+}
+
+export function createElements(viewData: ViewData, options: ElementOptions): ElementDefinition[] {
+    return [
+        ...viewData.nodes.map(node => ({
+            data: {
+                id: node.id,
+                label: options.displayLabel(node),
+                defaultLabel: node.label,
+                labels: node.labels,
+                annotations: node.annotations,
+                source: node.source,
+                type: node.type,
+                uri: node.uri,
+                importedFrom: node.importedFrom,
+                originColor: node.importedFrom ? options.originColors.get(node.importedFrom) : undefined,
+                propertyKind: node.propertyKind,
+                characteristics: node.characteristics,
+                propertyChains: node.propertyChains,
+                ordered: node.ordered,
+                decorators: node.decorators,
+                collapsedCount: options.collapsedCounts?.get(node.id)
+            }
+        })),
+        ...viewData.edges.map(edge => ({
+            data: {
+                id: edge.id,
+                source: edge.source,
+                target: edge.target,
+                label: edge.label,
+                type: edge.type,
+                bidirectional: edge.bidirectional ? 'true' as const : undefined
+            }
+        }))
+    ];
+}
+
+export function countNodeTypes(viewData: ViewData): Record<string, number> {
+    return viewData.nodes.reduce((counts, node) => {
+        counts[node.type] = (counts[node.type] || 0) + 1;
+        return counts;
+    }, {} as Record<string, number>);
+}
@@ -0,0 +1,109 @@
+import type { NodeSource, OntologyData } from './owlParser';
+
+// Shared between the extension host and the webview bundle (src/webview); type-only on both sides
+
+export type ViewMode = 'ontology' | 'instance' | 'taxonomy';
+
+export type ExportFormat = 'svg' | 'mermaid';
+
+export interface LabelSettings {
+    languages: string[];
+    properties: string[];
+}
+
+export interface HierarchySettings {
+    // Node count above which a graph opens with its hierarchies collapsed; 0 never collapses
+    collapseThreshold: number;
+    initialLevels: number;
+}
+
+// Changes to the view mode's preset, chosen in the filter panel and stored per file by the extension
+export interface ViewFilters {
+    // Types the view mode shows but the user hid
+    hiddenNodeTypes: string[];
+    hiddenEdgeTypes: string[];
+    // Types the view mode leaves out but the user turned on
+    shownNodeTypes: string[];
+    shownEdgeTypes: string[];
+    // Namespace IRIs, e.g. http://www.w3.org/2002/07/owl#
+    hiddenNamespaces: string[];
+}
+
+// Embedded in the page as JSON and read by the webview on start-up
+export interface WebviewBootstrap {
+    data: OntologyData;
+    labelSettings: LabelSettings;
+    hierarchySettings: HierarchySettings;
+    filters?: ViewFilters;
+    savedViews?: SavedView[];
+    sourceFile: string;
+    showUpdateIndicator: boolean;
+}
+
+export type FocusDirection = 'outgoing' | 'incoming' | 'both';
+
+export interface FocusState {
+    // Breadcrumb of focused nodes; the last one is shown
+    nodeIds: string[];
+    depth: number;
+    direction: FocusDirection;
+    // '' follows every relation
+    edgeType: string;
+}
+
+// Saved by the webview with setState and handed back to the serializer after a reload
+export interface PersistedViewState {
+    filePath: string;
+    layout?: string;
+    viewMode?: ViewMode;
+    graph?: string;
+    importFilter?: string;
+    language?: string;
+    showIris?: boolean;
+    focus?: FocusState;
+    // Nodes whose subtrees are collapsed
+    collapsed?: string[];
+    zoom?: number;
+    pan?: { x: number; y: number };
+}
+
+// Everything a saved view brings back
+export interface ViewSnapshot {
+    viewMode: ViewMode;
+    layout: string;
+    filters: ViewFilters;
+    focus?: FocusState;
+    collapsed: string[];
+    // Only nodes dragged away from where the layout put them
+    positions: Record<string, { x: number; y: number }>;
+    zoom: number;
+    pan: { x: number; y: number };
+}
+
+// Stored in .owlviz/views.json next to the ontology, so views can be shared through version control
+export interface SavedView extends ViewSnapshot {
+    name: string;
+}
+
+// Extension host → webview
+export type HostMessage =
+    | { command: 'updateData'; data: OntologyData }
+    | { command: 'sourceError'; message: string }
+    | { command: 'selectNode'; id: string }
+    | { command: 'search'; query: string }
+    | { command: 'savedViews'; views: SavedView[]; active?: string }
+    | { command: 'openView'; view: SavedView }
+    | { command: 'captureView' }
+    | { command: 'exportResult'; status: 'success' | 'cancelled' | 'error'; format: ExportFormat; path?: string; message?: string };
+
+// Webview → extension host
+export type WebviewMessage =
+    | { command: 'exportSvg'; svgContent: string; fileName?: string }
+    | { command: 'exportMermaid'; mermaidContent: string; fileName?: string }
+    | { command: 'openLink'; url?: string }
+    | { command: 'revealDefinition'; label?: string; source?: NodeSource }
+    | { command: 'nodeSelected'; source?: NodeSource }
+    | { command: 'saveFilters'; filters: ViewFilters }
+    // name is the view last opened, offered as the default when asking for a name
+    | { command: 'saveView'; view: ViewSnapshot; name?: string }
+    | { command: 'deleteView'; name: string };
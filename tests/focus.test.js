@@ -0,0 +1,45 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { loadModule } = require('./helpers');
+
+// Animal <- Mammal <- Dog <- Puppy, Dog -eats-> Food, Dog sameAs Hound
+const VIEW = {
+    nodes: ['Animal', 'Mammal', 'Dog', 'Puppy', 'Food', 'Hound', 'Island'].map(id => ({ id, label: id, type: 'class' })),
+    edges: [
+        { id: 'e1', source: 'Mammal', target: 'Animal', label: 'subClassOf', type: 'subClassOf' },
+        { id: 'e2', source: 'Dog', target: 'Mammal', label: 'subClassOf', type: 'subClassOf' },
+        { id: 'e3', source: 'Puppy', target: 'Dog', label: 'subClassOf', type: 'subClassOf' },
+        { id: 'e4', source: 'Dog', target: 'Food', label: 'eats', type: 'restriction' },
+        { id: 'e5', source: 'Hound', target: 'Dog', label: 'sameAs', type: 'sameAs', bidirectional: true }
+    ]
+};
+
+const ids = viewData => viewData.nodes.map(node => node.id).sort();
+
+test('focusNeighbourhood keeps the nodes within the given number of hops', () => {
+    const { focusNeighbourhood } = loadModule('webview/focus');
+
+    const oneHop = focusNeighbourhood(VIEW, { nodeId: 'Dog', depth: 1, direction: 'both', edgeType: '' });
+    assert.deepEqual(ids(oneHop), ['Dog', 'Food', 'Hound', 'Mammal', 'Puppy']);
+    assert.deepEqual(oneHop.edges.map(edge => edge.id), ['e2', 'e3', 'e4', 'e5']);
+
+    const twoHops = focusNeighbourhood(VIEW, { nodeId: 'Dog', depth: 2, direction: 'both', edgeType: '' });
+    assert.deepEqual(ids(twoHops), ['Animal', 'Dog', 'Food', 'Hound', 'Mammal', 'Puppy']);
+});
+
+test('focusNeighbourhood follows only the chosen direction, except for symmetric relations', () => {
+    const { focusNeighbourhood } = loadModule('webview/focus');
+
+    assert.deepEqual(ids(focusNeighbourhood(VIEW, { nodeId: 'Dog', depth: 3, direction: 'outgoing', edgeType: '' })), ['Animal', 'Dog', 'Food', 'Hound', 'Mammal']);
+    assert.deepEqual(ids(focusNeighbourhood(VIEW, { nodeId: 'Dog', depth: 3, direction: 'incoming', edgeType: '' })), ['Dog', 'Hound', 'Puppy']);
+});
+
+test('focusNeighbourhood can follow a single relation type', () => {
+    const { focusNeighbourhood, edgeTypesOf } = loadModule('webview/focus');
+
+    const hierarchy = focusNeighbourhood(VIEW, { nodeId: 'Dog', depth: 6, direction: 'both', edgeType: 'subClassOf' });
+    assert.deepEqual(ids(hierarchy), ['Animal', 'Dog', 'Mammal', 'Puppy']);
+    assert.ok(hierarchy.edges.every(edge => edge.type === 'subClassOf'));
+    assert.deepEqual(ids(focusNeighbourhood(VIEW, { nodeId: 'Island', depth: 2, direction: 'both', edgeType: '' })), ['Island']);
+    assert.deepEqual(edgeTypesOf(VIEW), ['restriction', 'sameAs', 'subClassOf']);
+});
@@ -0,0 +1,88 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { loadModule } = require('./helpers');
+
+// Source positions are specific to each syntax; everything else must match
+function withoutSourcePositions(data) {
+    return { ...data, nodes: data.nodes.map(({ source, ...node }) => node) };
+}
+
+const turtleSource = `
+@prefix : <http://example.org/pizza#> .
+@prefix owl: <http://www.w3.org/2002/07/owl#> .
+@prefix rdfs: <http://www.w3.org/2000/01/rdf-schema#> .
+
+<http://example.org/pizza> a owl:Ontology .
+:Food a owl:Class .
+:Pizza a owl:Class ; rdfs:label "Pizza"@en ; rdfs:subClassOf :Food .
+:Topping a owl:Class ; rdfs:subClassOf :Food .
+:hasTopping a owl:ObjectProperty ; rdfs:domain :Pizza ; rdfs:range :Topping .
+:calories a owl:DatatypeProperty ; rdfs:domain :Food .
+:margherita a owl:NamedIndividual , :Pizza ; :calories 800 ; :hasTopping :mozzarella .
+`;
+
+const functionalSource = `
+# Hand-maintained module
+Prefix(:=<http://example.org/pizza#>)
+Prefix(rdfs:=<http://www.w3.org/2000/01/rdf-schema#>)
+
+Ontology(<http://example.org/pizza>
+    Declaration(Class(:Food))
+    Declaration(Class(:Pizza))
+    Declaration(Class(:Topping))
+    Declaration(ObjectProperty(:hasTopping))
+    Declaration(DataProperty(:calories))
+    Declaration(NamedIndividual(:margherita))
+
+    AnnotationAssertion(rdfs:label :Pizza "Pizza"@en)
+    SubClassOf(Annotation(rdfs:comment "Pizza is food") :Pizza :Food)
+    SubClassOf(:Topping :Food)
+    ObjectPropertyDomain(:hasTopping :Pizza)
+    ObjectPropertyRange(:hasTopping :Topping)
+    DataPropertyDomain(:calories :Food)
+
+    ClassAssertion(:Pizza :margherita)
+    DataPropertyAssertion(:calories :margherita "800"^^xsd:integer)
+    ObjectPropertyAssertion(:hasTopping :margherita :mozzarella)
+)
+`;
+
+test('OWLParser produces the same ontology data for Functional Syntax and Turtle', async () => {
+    const { OWLParser } = loadModule('owlParser');
+
+    const fromTurtle = await new OWLParser().parse(turtleSource);
+    const fromFunctional = await new OWLParser().parse(functionalSource);
+
+    assert.equal(fromFunctional.metadata.ontologyURI, 'http://example.org/pizza');
+    assert.deepEqual(withoutSourcePositions(fromFunctional), withoutSourcePositions(fromTurtle));
+});
+
+test('parseFunctionalSyntax maps class expressions and n-ary axioms to OWL RDF', () => {
+    const { parseFunctionalSyntax } = loadModule('functionalSyntaxParser');
+    const { quads } = parseFunctionalSyntax(`
+Prefix(:=<http://example.org/pizza#>)
+Ontology(<http://example.org/pizza>
+    SubClassOf(:Pizza ObjectSomeValuesFrom(:hasTopping :Topping))
+    SubClassOf(:Pizza ObjectMinCardinality(2 :hasTopping :Topping))
+    DisjointClasses(:Pizza :Topping :Base)
+    TransitiveObjectProperty(:hasPart)
+)`);
+
+    const OWL = 'http://www.w3.org/2002/07/owl#';
+    const has = (predicate, object) => quads.some(quad => quad.predicate.value === predicate && quad.object.value === object);
+
+    assert.ok(has(`${OWL}someValuesFrom`, 'http://example.org/pizza#Topping'));
+    assert.ok(has(`${OWL}onClass`, 'http://example.org/pizza#Topping'));
+    assert.ok(has(`${OWL}minQualifiedCardinality`, '2'));
+    assert.ok(has('http://www.w3.org/1999/02/22-rdf-syntax-ns#type', `${OWL}AllDisjointClasses`));
+    assert.ok(has('http://www.w3.org/1999/02/22-rdf-syntax-ns#type', `${OWL}TransitiveProperty`));
+});
+
+test('parseFunctionalSyntax reports the line of an undeclared prefix', () => {
+    const { parseFunctionalSyntax } = loadModule('functionalSyntaxParser');
+
+    assert.throws(
+        () => parseFunctionalSyntax('Ontology(<http://example.org/x>\n    Declaration(Class(ex:Thing))\n)'),
+        /Undeclared prefix "ex:" on line 2/
+    );
+});
@@ -0,0 +1,10 @@
+// Tests run against the compiled output in out/, so a missing module usually means a stale build
+function loadModule(name) {
+    try {
+        return require(`../out/${name}`);
+    } catch (error) {
+        throw new Error(`Unable to load compiled module "${name}". Make sure to run "npm run compile" before executing tests.`, { cause: error });
+    }
+}
+
+module.exports = { loadModule };
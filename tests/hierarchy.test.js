@@ -0,0 +1,90 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { loadModule } = require('./helpers');
+
+const subClassOf = (source, target) => ({ id: source + '>' + target, source, target, label: 'subClassOf', type: 'subClassOf' });
+
+// Thing > Animal > Mammal > Dog, Thing > Animal > Bird, Thing > Pet > Dog (Dog has two parents)
+const VIEW = {
+    nodes: ['Thing', 'Animal', 'Pet', 'Mammal', 'Bird', 'Dog', 'Food'].map(id => ({ id, label: id, type: 'class' })),
+    edges: [
+        subClassOf('Animal', 'Thing'),
+        subClassOf('Pet', 'Thing'),
+        subClassOf('Mammal', 'Animal'),
+        subClassOf('Bird', 'Animal'),
+        subClassOf('Dog', 'Mammal'),
+        subClassOf('Dog', 'Pet'),
+        { id: 'eats', source: 'Dog', target: 'Food', label: 'eats', type: 'restriction' }
+    ]
+};
+
+const ids = viewData => viewData.nodes.map(node => node.id);
+
+test('collapseSubtrees hides the descendants of a collapsed node and counts them', () => {
+    const { buildHierarchy, collapseSubtrees } = loadModule('webview/hierarchy');
+    const hierarchy = buildHierarchy(VIEW);
+
+    const collapsed = collapseSubtrees(VIEW, hierarchy, ['Animal']);
+    // Dog stays: Pet, which is expanded, still leads to it
+    assert.deepEqual(ids(collapsed.viewData), ['Thing', 'Animal', 'Pet', 'Dog', 'Food']);
+    assert.deepEqual(Array.from(collapsed.hiddenCounts), [['Animal', 2]]);
+    assert.ok(collapsed.viewData.edges.every(edge => edge.source !== 'Mammal' && edge.target !== 'Mammal'));
+
+    const both = collapseSubtrees(VIEW, hierarchy, ['Animal', 'Pet']);
+    assert.deepEqual(ids(both.viewData), ['Thing', 'Animal', 'Pet', 'Food']);
+    assert.deepEqual(Array.from(both.hiddenCounts), [['Animal', 3], ['Pet', 1]]);
+});
+
+test('collapseSubtrees ignores leaves and collapsed nodes inside collapsed subtrees', () => {
+    const { buildHierarchy, collapseSubtrees } = loadModule('webview/hierarchy');
+    const hierarchy = buildHierarchy(VIEW);
+
+    const leaf = collapseSubtrees(VIEW, hierarchy, ['Bird', 'Food']);
+    assert.equal(leaf.viewData, VIEW);
+    assert.equal(leaf.hiddenCounts.size, 0);
+
+    const nested = collapseSubtrees(VIEW, hierarchy, ['Thing', 'Mammal']);
+    assert.deepEqual(ids(nested.viewData), ['Thing', 'Food']);
+    assert.deepEqual(Array.from(nested.hiddenCounts), [['Thing', 5]]);
+});
+
+test('collapseBelowLevel keeps the given number of levels open', () => {
+    const { buildHierarchy, collapseBelowLevel, ancestorsOf, descendantsOf } = loadModule('webview/hierarchy');
+    const hierarchy = buildHierarchy(VIEW);
+
+    assert.deepEqual(collapseBelowLevel(VIEW, hierarchy, 1), ['Thing']);
+    assert.deepEqual(collapseBelowLevel(VIEW, hierarchy, 2).sort(), ['Animal', 'Pet']);
+    assert.deepEqual(collapseBelowLevel(VIEW, hierarchy, 3), ['Mammal']);
+    assert.deepEqual(Array.from(ancestorsOf(hierarchy, 'Dog')).sort(), ['Animal', 'Mammal', 'Pet', 'Thing']);
+    assert.deepEqual(Array.from(descendantsOf(hierarchy, 'Animal')).sort(), ['Bird', 'Dog', 'Mammal']);
+});
+
+test('collapseBelowLevel treats a subClassOf cycle without a root as its own root', () => {
+    const { buildHierarchy, collapseBelowLevel } = loadModule('webview/hierarchy');
+    // Cat and Feline are equivalent by mutual subClassOf; Lion and then Cub sit below them
+    const view = {
+        nodes: ['Cub', 'Lion', 'Cat', 'Feline'].map(id => ({ id, label: id, type: 'class' })),
+        edges: [subClassOf('Cub', 'Lion'), subClassOf('Lion', 'Cat'), subClassOf('Cat', 'Feline'), subClassOf('Feline', 'Cat')]
+    };
+    const hierarchy = buildHierarchy(view);
+
+    assert.deepEqual(collapseBelowLevel(view, hierarchy, 1), ['Cat']);
+    assert.deepEqual(collapseBelowLevel(view, hierarchy, 2).sort(), ['Feline', 'Lion']);
+    assert.deepEqual(collapseBelowLevel(view, hierarchy, 3), []);
+});
+
+test('buildHierarchy follows SKOS broader and top concept links', () => {
+    const { buildHierarchy } = loadModule('webview/hierarchy');
+    const hierarchy = buildHierarchy({
+        nodes: [{ id: 'scheme' }, { id: 'animals' }, { id: 'dogs' }, { id: 'cats' }],
+        edges: [
+            { id: 'e1', source: 'animals', target: 'scheme', label: 'topConceptOf', type: 'skosTopConcept' },
+            { id: 'e2', source: 'dogs', target: 'animals', label: 'broader', type: 'skosBroader' },
+            { id: 'e3', source: 'cats', target: 'animals', label: 'related', type: 'skosRelated' }
+        ]
+    });
+
+    assert.deepEqual(hierarchy.children.get('scheme'), ['animals']);
+    assert.deepEqual(hierarchy.children.get('animals'), ['dogs']);
+    assert.equal(hierarchy.parents.has('cats'), false);
+});
@@ -0,0 +1,140 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { loadModule } = require('./helpers');
+
+const PREFIXES = `
+@prefix owl: <http://www.w3.org/2002/07/owl#> .
+@prefix rdfs: <http://www.w3.org/2000/01/rdf-schema#> .
+`;
+
+function createWorkspace(t, files) {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), 'owl-imports-'));
+    t.after(() => fs.rmSync(root, { recursive: true, force: true }));
+    Object.entries(files).forEach(([name, content]) => {
+        const filePath = path.join(root, name);
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, content);
+    });
+    return root;
+}
+
+test('OWLParser follows owl:imports through catalogs, workspace files and the cache', async t => {
+    const { OWLParser } = loadModule('owlParser');
+    const { ImportResolver, cacheFileName } = loadModule('importResolver');
+
+    const root = createWorkspace(t, {
+        'ontology/catalog-v001.xml': `<?xml version="1.0" encoding="UTF-8" standalone="no"?>
+<catalog prefer="public" xmlns="urn:oasis:names:tc:entity:xmlns:xml:catalog">
+    <uri id="Imports Wizard Entry" name="http://example.org/core" uri="modules/core-module.ttl"/>
+</catalog>`,
+        'ontology/modules/core-module.ttl': `${PREFIXES}
+<http://example.org/core> a owl:Ontology ; owl:imports <http://example.org/units> .
+<http://example.org/core#Animal> a owl:Class .
+`,
+        'shared/units.ttl': `${PREFIXES}
+<http://example.org/units> a owl:Ontology ; owl:imports <http://example.org/zoo> .
+<http://example.org/units#Kilogram> a owl:Class .
+`,
+        [`cache/${cacheFileName('http://example.org/upper')}.ttl`]: `${PREFIXES}
+<http://example.org/upper> a owl:Ontology .
+<http://example.org/upper#Entity> a owl:Class .
+`
+    });
+
+    const content = `${PREFIXES}
+<http://example.org/zoo> a owl:Ontology ;
+    owl:imports <http://example.org/core> , <http://example.org/upper> , <http://example.org/missing> .
+<http://example.org/zoo#Lion> a owl:Class ; rdfs:subClassOf <http://example.org/core#Animal> .
+`;
+    const resolver = new ImportResolver({ searchDirectories: [root], cacheDirectory: path.join(root, 'cache') });
+    const data = await new OWLParser().parse(content, {
+        fileName: path.join(root, 'ontology', 'zoo.ttl'),
+        importResolver: resolver
+    });
+
+    const importedFrom = id => data.nodes.find(node => node.id === id).importedFrom;
+    assert.equal(data.metadata.ontologyURI, 'http://example.org/zoo');
+    assert.equal(importedFrom('http://example.org/zoo#Lion'), undefined);
+    assert.equal(importedFrom('http://example.org/core#Animal'), 'http://example.org/core');
+    assert.equal(importedFrom('http://example.org/units#Kilogram'), 'http://example.org/units');
+    assert.equal(importedFrom('http://example.org/upper#Entity'), 'http://example.org/upper');
+    assert.ok(data.edges.some(edge => edge.type === 'subClassOf' && edge.target === 'http://example.org/core#Animal'));
+    assert.deepEqual(
+        data.metadata.imports.map(entry => [entry.iri, entry.error === undefined]),
+        [
+            ['http://example.org/core', true],
+            ['http://example.org/upper', true],
+            ['http://example.org/missing', false],
+            ['http://example.org/units', true]
+        ]
+    );
+});
+
+test('OWLParser records imports whose file cannot be read instead of failing', async t => {
+    const { OWLParser } = loadModule('owlParser');
+    const { ImportResolver } = loadModule('importResolver');
+
+    const root = createWorkspace(t, {
+        'modules/core.ttl': `${PREFIXES}
+<http://example.org/core> a owl:Ontology .
+<http://example.org/core#Animal> a owl:Class .
+`
+    });
+    const content = `${PREFIXES}
+<http://example.org/zoo> a owl:Ontology ; owl:imports <http://example.org/core> .
+<http://example.org/zoo#Lion> a owl:Class .
+`;
+    const resolver = new ImportResolver({ searchDirectories: [root] });
+    const options = { fileName: path.join(root, 'zoo.ttl'), importResolver: resolver };
+    assert.equal((await new OWLParser().parse(content, options)).metadata.imports[0].error, undefined);
+
+    // The resolver's file index still lists the deleted module
+    fs.rmSync(path.join(root, 'modules', 'core.ttl'));
+    const data = await new OWLParser().parse(content, options);
+    assert.ok(data.nodes.some(node => node.id === 'http://example.org/zoo#Lion'));
+    assert.equal(data.metadata.imports.length, 1);
+    assert.equal(data.metadata.imports[0].fileName, path.join(root, 'modules', 'core.ttl'));
+    assert.match(data.metadata.imports[0].error, /ENOENT/);
+});
+
+test('OWLParser keeps the anonymous class expressions of imported documents apart', async t => {
+    const { OWLParser } = loadModule('owlParser');
+    const { ImportResolver } = loadModule('importResolver');
+
+    // Both documents are written with blank nodes numbered from _:owl1
+    const root = createWorkspace(t, {
+        'core.ofn': `Prefix(:=<http://example.org/core#>)
+Ontology(<http://example.org/core>
+    SubClassOf(:Animal ObjectSomeValuesFrom(:eats :Food))
+)`
+    });
+    const content = `Prefix(:=<http://example.org/zoo#>)
+Ontology(<http://example.org/zoo>
+    Import(<http://example.org/core>)
+    SubClassOf(:Lion ObjectAllValuesFrom(:hunts :Prey))
+)`;
+    const resolver = new ImportResolver({ searchDirectories: [root] });
+    const data = await new OWLParser().parse(content, { fileName: path.join(root, 'zoo.ofn'), importResolver: resolver });
+
+    const restrictions = data.edges
+        .filter(edge => edge.type === 'restriction')
+        .map(edge => [edge.source, edge.label, edge.target])
+        .sort();
+    assert.deepEqual(restrictions, [
+        ['http://example.org/core#Animal', 'eats some', 'http://example.org/core#Food'],
+        ['http://example.org/zoo#Lion', ':hunts only', 'http://example.org/zoo#Prey']
+    ]);
+});
+
+test('OWLParser ignores owl:imports without a resolver', async () => {
+    const { OWLParser } = loadModule('owlParser');
+    const content = `${PREFIXES}
+<http://example.org/zoo> a owl:Ontology ; owl:imports <http://example.org/core> .
+`;
+
+    const data = await new OWLParser().parse(content);
+    assert.equal(data.metadata.imports, undefined);
+});
@@ -0,0 +1,92 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { loadModule } = require('./helpers');
+
+// Source positions are specific to each syntax; everything else must match
+function withoutSourcePositions(data) {
+    return { ...data, nodes: data.nodes.map(({ source, ...node }) => node) };
+}
+
+const turtleSource = `
+@prefix : <http://example.org/pizza#> .
+@prefix owl: <http://www.w3.org/2002/07/owl#> .
+@prefix rdfs: <http://www.w3.org/2000/01/rdf-schema#> .
+
+<http://example.org/pizza> a owl:Ontology .
+:Food a owl:Class .
+:Pizza a owl:Class ; rdfs:label "Pizza"@en ; rdfs:subClassOf :Food .
+:Topping a owl:Class ; rdfs:subClassOf :Food .
+:hasTopping a owl:ObjectProperty ; rdfs:domain :Pizza ; rdfs:range :Topping .
+:calories a owl:DatatypeProperty ; rdfs:domain :Food .
+:margherita a owl:NamedIndividual , :Pizza ; :calories 800 ; :hasTopping :mozzarella .
+`;
+
+const manchesterSource = `
+Prefix: : <http://example.org/pizza#>
+Prefix: rdfs: <http://www.w3.org/2000/01/rdf-schema#>
+
+Ontology: <http://example.org/pizza>
+
+Class: Food
+
+Class: Pizza
+    Annotations: rdfs:label "Pizza"@en
+    SubClassOf: Food
+
+Class: Topping
+    SubClassOf: Food
+
+ObjectProperty: hasTopping
+    Domain: Pizza
+    Range: Topping
+
+DataProperty: calories
+    Domain: Food
+
+Individual: margherita
+    Types: Pizza
+    Facts: calories 800, hasTopping mozzarella
+`;
+
+test('OWLParser produces the same ontology data for Manchester Syntax and Turtle', async () => {
+    const { OWLParser } = loadModule('owlParser');
+
+    const fromTurtle = await new OWLParser().parse(turtleSource);
+    const fromManchester = await new OWLParser().parse(manchesterSource);
+
+    assert.equal(fromManchester.metadata.ontologyURI, 'http://example.org/pizza');
+    assert.deepEqual(withoutSourcePositions(fromManchester), withoutSourcePositions(fromTurtle));
+});
+
+test('parseManchesterSyntax maps restrictions, boolean classes and characteristics to OWL RDF', () => {
+    const { parseManchesterSyntax } = loadModule('manchesterSyntaxParser');
+    const { quads } = parseManchesterSyntax(`
+Prefix: : <http://example.org/pizza#>
+ObjectProperty: hasTopping
+    Characteristics: Transitive
+    SubPropertyChain: hasBase o hasTopping
+Class: VegetarianPizza
+    EquivalentTo: Pizza and (hasTopping only (CheeseTopping or not MeatTopping))
+    SubClassOf: hasTopping exactly 1 CheeseTopping
+`);
+
+    const OWL = 'http://www.w3.org/2002/07/owl#';
+    const has = (predicate, object) => quads.some(quad => quad.predicate.value === predicate && (object === undefined || quad.object.value === object));
+
+    assert.ok(has(`${OWL}intersectionOf`));
+    assert.ok(has(`${OWL}unionOf`));
+    assert.ok(has(`${OWL}complementOf`, 'http://example.org/pizza#MeatTopping'));
+    assert.ok(has(`${OWL}allValuesFrom`));
+    assert.ok(has(`${OWL}qualifiedCardinality`, '1'));
+    assert.ok(has(`${OWL}propertyChainAxiom`));
+    assert.ok(has('http://www.w3.org/1999/02/22-rdf-syntax-ns#type', `${OWL}TransitiveProperty`));
+});
+
+test('parseManchesterSyntax reports unexpected tokens with their line', () => {
+    const { parseManchesterSyntax } = loadModule('manchesterSyntaxParser');
+
+    assert.throws(
+        () => parseManchesterSyntax('Prefix: : <http://example.org/x#>\nClass: A\n    Colour: Red'),
+        /Unexpected "Colour:" in Class frame on line 3/
+    );
+});
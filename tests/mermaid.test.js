@@ -0,0 +1,41 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { loadModule } = require('./helpers');
+
+test('buildMermaidDefinition writes one node per element and each edge once', () => {
+    const { buildMermaidDefinition } = loadModule('webview/mermaid');
+    const definition = buildMermaidDefinition({
+        nodes: [
+            { id: 'http://example.org/zoo#Lion', label: 'Lion', type: 'class' },
+            { id: 'http://example.org/zoo#Animal', label: 'Animal', type: 'class' },
+            { id: 'http://example.org/other#Lion', label: 'Lion', type: 'class' }
+        ],
+        edges: [
+            { id: 'e1', source: 'http://example.org/zoo#Lion', target: 'http://example.org/zoo#Animal', label: 'subClassOf', type: 'subClassOf' },
+            { id: 'e2', source: 'http://example.org/zoo#Lion', target: 'http://example.org/zoo#Animal', label: 'subClassOf', type: 'subClassOf' },
+            { id: 'e3', source: 'http://example.org/zoo#Lion', target: 'http://example.org/other#Lion', label: 'sameAs', type: 'sameAs', bidirectional: true }
+        ]
+    });
+
+    assert.deepEqual(definition.split('\n'), [
+        '%% Auto-generated by OWL Ontology Visualizer',
+        'graph TD',
+        '    Lion["Lion<br/>class"]',
+        '    Animal["Animal<br/>class"]',
+        '    Lion_2["Lion<br/>class"]',
+        '    Lion-->|subClassOf|Animal',
+        '    Lion-->|sameAs|Lion_2',
+        '    Lion_2-->|sameAs|Lion'
+    ]);
+    assert.equal(buildMermaidDefinition(null), 'graph TD');
+});
+
+test('Mermaid labels and identifiers are sanitized', () => {
+    const { sanitizeMermaidText, sanitizeMermaidIdentifier } = loadModule('webview/mermaid');
+
+    assert.equal(sanitizeMermaidText('say "hi" | `now`\nplease'), 'say &quot;hi&quot; / &#39;now&#39; please');
+    assert.equal(sanitizeMermaidText('<<Dog>>\nBuddy', { allowLineBreaks: true }), '<<Dog>><br/>Buddy');
+    assert.equal(sanitizeMermaidIdentifier('Café au lait', 'x'), 'Cafe_au_lait');
+    assert.equal(sanitizeMermaidIdentifier('42 things', 'x'), '_42_things');
+    assert.equal(sanitizeMermaidIdentifier('→', '!!'), 'node');
+});
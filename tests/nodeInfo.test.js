@@ -0,0 +1,64 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { loadModule } = require('./helpers');
+
+const PREFIXES = { zoo: 'http://example.org/zoo#', rdfs: 'http://www.w3.org/2000/01/rdf-schema#' };
+const zoo = localName => `http://example.org/zoo#${localName}`;
+
+test('describeNode links graph nodes and web pages and escapes ontology text', () => {
+    const { describeNode, indexStatements } = loadModule('webview/nodeInfo');
+    const { compactIri } = loadModule('webview/labels');
+    const statements = [
+        {
+            subject: { value: zoo('Lion'), kind: 'iri' },
+            predicate: { value: PREFIXES.rdfs + 'subClassOf', kind: 'iri' },
+            object: { value: zoo('Animal'), kind: 'iri' }
+        },
+        {
+            subject: { value: zoo('Lion'), kind: 'iri' },
+            predicate: { value: PREFIXES.rdfs + 'comment', kind: 'iri' },
+            object: { value: 'Big <cat>', kind: 'literal', language: 'en' }
+        }
+    ];
+
+    const html = describeNode({
+        id: zoo('Lion'),
+        uri: zoo('Lion'),
+        label: 'Lion <b>',
+        defaultLabel: 'Lion <b>',
+        type: 'class',
+        annotations: [
+            { property: PREFIXES.rdfs + 'seeAlso', propertyLabel: 'rdfs:seeAlso', value: 'https://example.org/lions', isIri: true },
+            { property: 'http://www.w3.org/2002/07/owl#deprecated', propertyLabel: 'owl:deprecated', value: 'true', datatype: 'xsd:boolean' }
+        ]
+    }, {
+        hasNode: id => id === zoo('Animal'),
+        labelForId: id => id === zoo('Animal') ? 'Animal' : id,
+        compactIri: iri => compactIri(iri, PREFIXES),
+        statements: indexStatements(statements)
+    });
+
+    assert.match(html, /<h3>Lion &lt;b&gt;<\/h3>/);
+    assert.match(html, /Deprecated/);
+    assert.match(html, /<a data-href="https:\/\/example.org\/lions" title="Open in browser">/);
+    assert.match(html, /<strong>rdfs:subClassOf:<\/strong> <a data-node-id="http:\/\/example.org\/zoo#Animal">Animal<\/a>/);
+    assert.match(html, /"Big &lt;cat&gt;"<\/span><small>@en<\/small>/);
+    assert.match(html, /Statements \(2\)/);
+});
+
+test('displayLabel switches between labels in the chosen language and prefixed IRIs', () => {
+    const { displayLabel, collectLanguages, compactIri } = loadModule('webview/labels');
+    const labels = { 'rdfs:label': { en: 'Lion', fr: 'Lion (fr)' }, 'skos:prefLabel': { de: 'Löwe' } };
+    const options = {
+        settings: { languages: ['en'], properties: ['rdfs:label', 'skos:prefLabel'] },
+        prefixes: PREFIXES,
+        language: '',
+        showIris: false
+    };
+
+    assert.equal(displayLabel('Lion', zoo('Lion'), labels, options), 'Lion');
+    assert.equal(displayLabel('Lion', zoo('Lion'), labels, { ...options, language: 'de' }), 'Löwe');
+    assert.equal(displayLabel('Lion', zoo('Lion'), labels, { ...options, showIris: true }), 'zoo:Lion');
+    assert.equal(compactIri('http://example.org/zoo#sub/Lion', PREFIXES), 'http://example.org/zoo#sub/Lion');
+    assert.deepEqual(collectLanguages([{ labels }, { labels: { 'rdfs:label': { '': 'x', es: 'y' } } }]), ['de', 'en', 'es', 'fr']);
+});
@@ -0,0 +1,115 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { loadModule } = require('./helpers');
+
+const wait = milliseconds => new Promise(resolve => setTimeout(resolve, milliseconds));
+
+// Records what the updater asks of the editor; parse fails on text containing "broken"
+function createHost(initialText) {
+    const host = {
+        text: initialText,
+        visible: true,
+        parsed: [],
+        shown: [],
+        errors: [],
+        resolvers: 0,
+        diagnosticsCleared: 0,
+        readSource: () => host.text,
+        createImportResolver: () => ({ id: ++host.resolvers }),
+        parse: async (text, importResolver) => {
+            host.parsed.push({ text, importResolver });
+            if (text.includes('broken')) {
+                throw new Error(`Cannot parse ${text}`);
+            }
+            return { nodes: [{ id: text }], edges: [], metadata: {} };
+        },
+        isVisible: () => host.visible,
+        showGraph: (data, text, options) => host.shown.push({ text, options }),
+        showError: (error, text, options) => host.errors.push({ message: error.message, text, options }),
+        clearDiagnostics: () => host.diagnosticsCleared++
+    };
+    return host;
+}
+
+test('OntologyUpdater parses the buffer once per burst of edits and reuses the import resolver', async () => {
+    const { OntologyUpdater } = loadModule('ontologyUpdater');
+    const host = createHost('');
+    const updater = new OntologyUpdater(host);
+
+    [':A', ':A a', ':A a owl:Class'].forEach(text => {
+        host.text = text;
+        updater.scheduleUpdate(20);
+    });
+    await wait(60);
+    assert.deepEqual(host.shown, [{ text: ':A a owl:Class', options: { isAutoUpdate: true } }]);
+
+    host.text = ':B a owl:Class';
+    updater.scheduleUpdate(20);
+    await wait(60);
+    assert.deepEqual(host.parsed.map(entry => entry.text), [':A a owl:Class', ':B a owl:Class']);
+    assert.equal(host.resolvers, 1);
+    assert.equal(host.parsed[0].importResolver, host.parsed[1].importResolver);
+
+    // A hidden panel is not updated, and the workspace is indexed again after invalidation
+    host.visible = false;
+    updater.scheduleUpdate(0);
+    await wait(20);
+    assert.equal(host.parsed.length, 2);
+    updater.invalidateImports();
+    await updater.update({ isAutoUpdate: true });
+    assert.equal(host.resolvers, 2);
+
+    // Disposing cancels an edit still waiting for its parse
+    host.visible = true;
+    updater.scheduleUpdate(20);
+    updater.dispose();
+    await wait(60);
+    assert.equal(host.parsed.length, 3);
+});
+
+test('OntologyUpdater keeps the last good graph when a parse fails', async () => {
+    const { OntologyUpdater } = loadModule('ontologyUpdater');
+    const host = createHost(':A a owl:Class');
+    const updater = new OntologyUpdater(host);
+
+    assert.equal(await updater.update({ isAutoUpdate: false, forceReveal: true }), true);
+    host.text = ':A a broken';
+    assert.equal(await updater.update({ isAutoUpdate: true }), false);
+
+    assert.deepEqual(host.shown.map(entry => entry.text), [':A a owl:Class']);
+    assert.deepEqual(host.errors, [{ message: 'Cannot parse :A a broken', text: ':A a broken', options: { isAutoUpdate: true } }]);
+
+    // A parse overtaken by a newer one is dropped, whether it succeeds or fails
+    const slowParse = host.parse;
+    host.parse = async (text, importResolver) => {
+        await wait(text === ':A a owl:Thing' ? 30 : 0);
+        return slowParse(text, importResolver);
+    };
+    host.text = ':A a owl:Thing';
+    const overtaken = updater.update({ isAutoUpdate: true });
+    host.text = ':A a owl:Class ; broken';
+    await updater.update({ isAutoUpdate: true });
+    assert.equal(await overtaken, false);
+    assert.deepEqual(host.shown.map(entry => entry.text), [':A a owl:Class']);
+    assert.equal(host.errors.length, 2);
+});
+
+test('OntologyUpdater keeps the diagnostics of a file that never parsed when disposed', async () => {
+    const { OntologyUpdater } = loadModule('ontologyUpdater');
+    const host = createHost(':A a broken');
+
+    // The visualize command gives up on a file whose first parse fails
+    const failed = new OntologyUpdater(host);
+    assert.equal(await failed.update({ isAutoUpdate: false }), false);
+    failed.dispose();
+    assert.equal(host.diagnosticsCleared, 0);
+
+    // Closing a panel clears them, even while it shows a parse error next to the last good graph
+    host.text = ':A a owl:Class';
+    const closed = new OntologyUpdater(host);
+    await closed.update({ isAutoUpdate: false });
+    host.text = ':A a broken';
+    await closed.update({ isAutoUpdate: true });
+    closed.dispose();
+    assert.equal(host.diagnosticsCleared, 1);
+});
@@ -2,15 +2,13 @@ const test = require('node:test');
 const assert = require('node:assert/strict');
 const fs = require('fs');
 const path = require('path');
+const { loadModule } = require('./helpers');
 
 const samplePath = path.join(__dirname, '..', 'sample.ttl');
+const ex = localName => `http://example.org/animals#${localName}`;
 
 function loadParser() {
-    try {
-        return require('../out/owlParser').OWLParser;
-    } catch (error) {
-        throw new Error('Unable to load compiled parser. Make sure to run "npm run compile" before executing tests.');
-    }
+    return loadModule('owlParser').OWLParser;
 }
 
 test('OWLParser parses sample.ttl without errors', async () => {
@@ -21,29 +19,377 @@ test('OWLParser parses sample.ttl without errors', async () => {
     const data = await parser.parse(content);
 
     assert.equal(data.metadata.ontologyURI, 'http://example.org/animals');
-    assert.equal(data.nodes.length, 25);
-    assert.equal(data.edges.length, 25);
+    assert.equal(data.nodes.length, 35);
+    assert.equal(data.edges.length, 44);
     assert.ok(data.nodes.some(node => node.type === 'class'));
     assert.ok(data.nodes.some(node => node.type === 'property'));
     assert.ok(data.nodes.some(node => node.type === 'individual'));
     assert.ok(
-        data.edges.some(edge => edge.type === 'type' && edge.source === 'Buddy' && edge.target === 'Dog'),
+        data.edges.some(edge => edge.type === 'type' && edge.source === ex('Buddy') && edge.target === ex('Dog')),
         'Expected Buddy to have an instanceOf edge to Dog'
     );
     assert.ok(
-        data.nodes.some(node => node.type === 'skosConceptScheme' && node.id === 'Usage'),
+        data.nodes.some(node => node.type === 'skosConceptScheme' && node.id === ex('Usage')),
         'Expected Usage concept scheme node'
     );
     assert.ok(
-        data.nodes.some(node => node.type === 'skosConcept' && node.id === 'pet'),
+        data.nodes.some(node => node.type === 'skosConcept' && node.id === ex('pet')),
         'Expected pet concept node'
     );
     assert.ok(
-        data.edges.some(edge => edge.type === 'skosInScheme' && edge.source === 'pet' && edge.target === 'Usage'),
+        data.edges.some(edge => edge.type === 'skosInScheme' && edge.source === ex('pet') && edge.target === ex('Usage')),
         'Expected pet to link to Usage via inScheme'
     );
     assert.ok(
-        data.edges.some(edge => edge.type === 'range' && edge.source === 'usedAs' && edge.target === 'Usage'),
+        data.edges.some(edge => edge.type === 'range' && edge.source === ex('usedAs') && edge.target === ex('Usage')),
         'Expected usedAs range to point to Usage concept scheme'
     );
 });
+
+test('OWLParser keeps same-named resources from different namespaces apart', async () => {
+    const OWLParser = loadParser();
+    const content = `
+@prefix foaf: <http://xmlns.com/foaf/0.1/> .
+@prefix owl: <http://www.w3.org/2002/07/owl#> .
+@prefix rdfs: <http://www.w3.org/2000/01/rdf-schema#> .
+
+foaf:Person a owl:Class .
+<http://b.org/Person> a owl:Class ;
+    rdfs:subClassOf foaf:Person .
+`;
+
+    const data = await new OWLParser().parse(content);
+
+    assert.deepEqual(
+        data.nodes.map(node => [node.id, node.label]).sort(),
+        [
+            ['http://b.org/Person', 'Person'],
+            ['http://xmlns.com/foaf/0.1/Person', 'foaf:Person']
+        ]
+    );
+    assert.equal(data.edges[0].source, 'http://b.org/Person');
+    assert.equal(data.edges[0].target, 'http://xmlns.com/foaf/0.1/Person');
+    assert.equal(data.prefixes.foaf, 'http://xmlns.com/foaf/0.1/');
+});
+
+test('OWLParser renders restrictions and boolean class expressions', async () => {
+    const OWLParser = loadParser();
+    const content = `
+@prefix : <http://example.org/pizza#> .
+@prefix owl: <http://www.w3.org/2002/07/owl#> .
+@prefix rdfs: <http://www.w3.org/2000/01/rdf-schema#> .
+@prefix xsd: <http://www.w3.org/2001/XMLSchema#> .
+
+:Pizza a owl:Class ;
+    rdfs:subClassOf [ a owl:Restriction ; owl:onProperty :hasTopping ; owl:someValuesFrom :Topping ] ,
+        [ a owl:Restriction ; owl:onProperty :hasBase ; owl:qualifiedCardinality "1"^^xsd:nonNegativeInteger ; owl:onClass :Base ] ,
+        [ a owl:Restriction ; owl:onProperty :hasSlice ; owl:minCardinality "2"^^xsd:nonNegativeInteger ] .
+:VegetarianPizza owl:equivalentClass [ owl:intersectionOf ( :Pizza [ owl:complementOf :MeatPizza ] ) ] .
+`;
+
+    const data = await new OWLParser().parse(content);
+    const labels = new Map(data.nodes.map(node => [node.id, node.label]));
+    const describe = edge => `${labels.get(edge.source)} -${edge.label}-> ${labels.get(edge.target)}`;
+    const described = data.edges.map(describe);
+
+    assert.ok(described.includes(':Pizza -:hasTopping some-> :Topping'));
+    assert.ok(described.includes(':Pizza -:hasBase exactly 1-> :Base'));
+    assert.ok(described.includes(':Pizza -subClassOf-> :hasSlice min 2'));
+    assert.ok(described.includes(':VegetarianPizza -equivalentClass-> and'));
+    assert.ok(described.includes('and --> :Pizza'));
+    assert.ok(described.includes('not --> :MeatPizza'));
+    assert.equal(data.edges.find(edge => edge.label === ':hasTopping some').type, 'restriction');
+    assert.deepEqual(
+        data.nodes.filter(node => node.type === 'expression').map(node => node.label).sort(),
+        [':hasSlice min 2', 'and', 'not']
+    );
+});
+
+test('OWLParser gives the datatype fillers of data restrictions the datatype node type', async () => {
+    const OWLParser = loadParser();
+    const content = `
+@prefix : <http://example.org/people#> .
+@prefix owl: <http://www.w3.org/2002/07/owl#> .
+@prefix rdfs: <http://www.w3.org/2000/01/rdf-schema#> .
+@prefix xsd: <http://www.w3.org/2001/XMLSchema#> .
+
+:age a owl:DatatypeProperty ; rdfs:range xsd:integer .
+:AdultAge a rdfs:Datatype .
+:Adult rdfs:subClassOf [ a owl:Restriction ; owl:onProperty :age ; owl:someValuesFrom :AdultAge ] ,
+    [ a owl:Restriction ; owl:onProperty :nickname ; owl:allValuesFrom xsd:string ] ,
+    [ a owl:Restriction ; owl:onProperty :weight ; owl:qualifiedCardinality "1"^^xsd:nonNegativeInteger ; owl:onDataRange :Kilograms ] ,
+    [ a owl:Restriction ; owl:onProperty :hasParent ; owl:someValuesFrom :Person ] .
+`;
+
+    const data = await new OWLParser().parse(content);
+    const typeOf = localName => data.nodes.find(node => node.id === `http://example.org/people#${localName}`).type;
+    assert.equal(typeOf('AdultAge'), 'datatype');
+    assert.equal(typeOf('Kilograms'), 'datatype');
+    assert.equal(typeOf('Person'), 'class');
+    assert.equal(data.nodes.find(node => node.id === 'http://www.w3.org/2001/XMLSchema#string').type, 'datatype');
+    assert.equal(data.nodes.find(node => node.id === 'http://www.w3.org/2001/XMLSchema#integer').type, 'datatype');
+    assert.ok(data.edges.some(edge => edge.label === ':nickname only' && edge.target === 'http://www.w3.org/2001/XMLSchema#string'));
+});
+
+test('OWLParser draws equivalence and disjointness axioms once, with hubs for n-ary axioms', async () => {
+    const OWLParser = loadParser();
+    const content = `
+@prefix : <http://example.org/zoo#> .
+@prefix owl: <http://www.w3.org/2002/07/owl#> .
+
+:Lion owl:equivalentClass :Panthera_leo .
+:Panthera_leo owl:equivalentClass :Lion .
+:Cat owl:disjointWith :Dog .
+[] a owl:AllDisjointClasses ; owl:members ( :Bird :Fish :Reptile ) .
+:eats owl:equivalentProperty :feedsOn ; owl:propertyDisjointWith :avoids .
+:Leo owl:sameAs :KingLeo ; owl:differentFrom :Nala .
+[] a owl:AllDifferent ; owl:distinctMembers ( :Leo :Nala :Simba ) .
+`;
+
+    const data = await new OWLParser().parse(content);
+    const countByType = data.edges.reduce((counts, edge) => {
+        counts[edge.type] = (counts[edge.type] || 0) + 1;
+        return counts;
+    }, {});
+
+    assert.deepEqual(countByType, {
+        equivalentClass: 1,
+        disjointWith: 4,
+        equivalentProperty: 1,
+        propertyDisjointWith: 1,
+        sameAs: 1,
+        differentFrom: 4
+    });
+
+    const hubs = data.nodes.filter(node => node.type === 'axiomGroup');
+    assert.deepEqual(hubs.map(hub => hub.label).sort(), ['all different', 'disjoint']);
+    const disjointHub = hubs.find(hub => hub.label === 'disjoint');
+    assert.deepEqual(
+        data.edges.filter(edge => edge.source === disjointHub.id).map(edge => edge.target).sort(),
+        ['http://example.org/zoo#Bird', 'http://example.org/zoo#Fish', 'http://example.org/zoo#Reptile']
+    );
+    assert.equal(data.nodes.find(node => node.id === 'http://example.org/zoo#Nala').type, 'individual');
+});
+
+test('OWLParser only draws a hub for n-ary axioms with at least three members', async () => {
+    const OWLParser = loadParser();
+    const content = `
+@prefix : <http://example.org/zoo#> .
+@prefix owl: <http://www.w3.org/2002/07/owl#> .
+
+[] a owl:AllDifferent ; owl:distinctMembers ( :Leo ) .
+[] a owl:AllDisjointProperties ; owl:members ( ) .
+[] a owl:AllDisjointClasses ; owl:members ( :Cat "not a class" ) .
+[] a owl:AllDifferent ; owl:distinctMembers ( :Nala :Simba "x" ) .
+`;
+
+    const data = await new OWLParser().parse(content);
+    assert.deepEqual(data.nodes.filter(node => node.type === 'axiomGroup'), []);
+    assert.deepEqual(
+        data.edges.map(edge => [edge.type, edge.source, edge.target]),
+        [['differentFrom', 'http://example.org/zoo#Nala', 'http://example.org/zoo#Simba']]
+    );
+});
+
+test('OWLParser carries property kinds, characteristics and chains on property nodes', async () => {
+    const OWLParser = loadParser();
+    const content = `
+@prefix : <http://example.org/family#> .
+@prefix owl: <http://www.w3.org/2002/07/owl#> .
+@prefix rdfs: <http://www.w3.org/2000/01/rdf-schema#> .
+
+:hasParent a owl:ObjectProperty , owl:IrreflexiveProperty .
+:hasBrother a owl:ObjectProperty .
+:hasUncle a owl:ObjectProperty ; owl:propertyChainAxiom ( :hasParent :hasBrother ) .
+:hasAncestor a owl:TransitiveProperty .
+:hasSSN a owl:DatatypeProperty , owl:FunctionalProperty .
+:note a owl:AnnotationProperty .
+:hasMother a owl:ObjectProperty ; owl:inverseOf :motherOf .
+:motherOf a owl:ObjectProperty , owl:InverseFunctionalProperty .
+`;
+
+    const data = await new OWLParser().parse(content);
+    const node = localName => data.nodes.find(candidate => candidate.id === `http://example.org/family#${localName}`);
+
+    assert.deepEqual(node('hasParent').characteristics, ['Irreflexive']);
+    assert.equal(node('hasParent').propertyKind, 'object');
+    assert.deepEqual(node('hasAncestor').characteristics, ['Transitive']);
+    assert.equal(node('hasAncestor').propertyKind, 'object');
+    assert.deepEqual(node('hasSSN').characteristics, ['Functional']);
+    assert.equal(node('hasSSN').propertyKind, 'data');
+    assert.equal(node('note').propertyKind, 'annotation');
+    assert.deepEqual(node('hasUncle').propertyChains, [[
+        'http://example.org/family#hasParent',
+        'http://example.org/family#hasBrother'
+    ]]);
+    // motherOf is merged into the hasMother node, where its inverse functionality reads as functionality
+    assert.equal(node('motherOf'), undefined);
+    assert.deepEqual(node('hasMother').characteristics, ['Functional']);
+});
+
+test('OWLParser normalises SKOS hierarchy, associative, mapping and collection relations', async () => {
+    const OWLParser = loadParser();
+    const content = `
+@prefix : <http://example.org/thesaurus#> .
+@prefix skos: <http://www.w3.org/2004/02/skos/core#> .
+
+:scheme a skos:ConceptScheme ; skos:hasTopConcept :animals .
+:animals a skos:Concept ; skos:topConceptOf :scheme ; skos:narrower :mammals .
+:mammals a skos:Concept ; skos:broader :animals ; skos:broaderTransitive :animals ; skos:related :pets .
+:cats a skos:Concept ; skos:broaderTransitive :animals .
+:pets a skos:Concept ; skos:related :mammals ; skos:exactMatch <http://example.org/other#Pet> .
+:dogs a skos:Concept ; skos:broadMatch <http://example.org/other#Canid> .
+:farm a skos:OrderedCollection ; skos:memberList ( :dogs :cats ) ; skos:member :dogs .
+`;
+
+    const data = await new OWLParser().parse(content);
+    const t = localName => `http://example.org/thesaurus#${localName}`;
+    const edgesOf = type => data.edges
+        .filter(edge => edge.type === type)
+        .map(edge => [edge.source, edge.target, edge.label])
+        .sort();
+
+    assert.deepEqual(edgesOf('skosBroader'), [
+        [t('cats'), t('animals'), 'broaderTransitive'],
+        [t('mammals'), t('animals'), 'broader']
+    ]);
+    assert.deepEqual(edgesOf('skosTopConcept'), [[t('animals'), t('scheme'), 'topConceptOf']]);
+    assert.equal(edgesOf('skosRelated').length, 1);
+    assert.deepEqual(edgesOf('skosMapping'), [
+        [t('dogs'), 'http://example.org/other#Canid', 'broadMatch'],
+        [t('pets'), 'http://example.org/other#Pet', 'exactMatch']
+    ]);
+    assert.deepEqual(edgesOf('skosMember'), [
+        [t('farm'), t('cats'), '2'],
+        [t('farm'), t('dogs'), '1']
+    ]);
+
+    const farm = data.nodes.find(node => node.id === t('farm'));
+    assert.equal(farm.type, 'skosCollection');
+    assert.equal(farm.ordered, true);
+    assert.equal(data.nodes.find(node => node.id === 'http://example.org/other#Canid').type, 'skosConcept');
+});
+
+test('OWLParser collects labels per property and language and honours the fallback order', async () => {
+    const OWLParser = loadParser();
+    const content = `
+@prefix : <http://example.org/zoo#> .
+@prefix owl: <http://www.w3.org/2002/07/owl#> .
+@prefix rdfs: <http://www.w3.org/2000/01/rdf-schema#> .
+@prefix skos: <http://www.w3.org/2004/02/skos/core#> .
+
+:Cat a owl:Class ;
+    rdfs:label "Cat"@en , "Chat"@fr , "Katze"@de ;
+    skos:prefLabel "Hauskatze"@de ;
+    skos:altLabel "Kitty" .
+:Dog a owl:Class ; skos:prefLabel "Dog"@en-GB .
+`;
+
+    const cat = data => data.nodes.find(node => node.id === 'http://example.org/zoo#Cat');
+    const dog = data => data.nodes.find(node => node.id === 'http://example.org/zoo#Dog');
+
+    const english = await new OWLParser().parse(content, { labelLanguages: ['en'] });
+    assert.equal(cat(english).label, 'Cat');
+    assert.equal(dog(english).label, 'Dog');
+    assert.deepEqual(cat(english).labels, {
+        'rdfs:label': { en: 'Cat', fr: 'Chat', de: 'Katze' },
+        'skos:prefLabel': { de: 'Hauskatze' },
+        'skos:altLabel': { '': 'Kitty' }
+    });
+
+    const german = await new OWLParser().parse(content, {
+        labelLanguages: ['de', 'fr'],
+        labelProperties: ['skos:prefLabel', 'rdfs:label']
+    });
+    assert.equal(cat(german).label, 'Hauskatze');
+    // No German or French label, no untagged one: the first available label of the first property
+    assert.equal(dog(german).label, 'Dog');
+
+    const untagged = await new OWLParser().parse(content, { labelLanguages: ['it'], labelProperties: ['rdfs:label', 'skos:altLabel'] });
+    assert.equal(cat(untagged).label, 'Kitty');
+});
+
+test('OWLParser attaches annotations with language tags, datatypes and IRIs to nodes', async () => {
+    const OWLParser = loadParser();
+    const content = `
+@prefix : <http://example.org/zoo#> .
+@prefix owl: <http://www.w3.org/2002/07/owl#> .
+@prefix rdfs: <http://www.w3.org/2000/01/rdf-schema#> .
+@prefix skos: <http://www.w3.org/2004/02/skos/core#> .
+@prefix dcterms: <http://purl.org/dc/terms/> .
+@prefix xsd: <http://www.w3.org/2001/XMLSchema#> .
+
+:reviewStatus a owl:AnnotationProperty ; rdfs:label "review status" .
+:Cat a owl:Class ;
+    rdfs:label "Cat"@en ;
+    rdfs:comment "A small feline."@en ;
+    skos:definition "Felis catus" ;
+    dcterms:created "2024-01-05"^^xsd:date ;
+    rdfs:seeAlso <https://en.wikipedia.org/wiki/Cat> ;
+    owl:deprecated true ;
+    :reviewStatus "approved" .
+`;
+
+    const data = await new OWLParser().parse(content);
+    const cat = data.nodes.find(node => node.id === 'http://example.org/zoo#Cat');
+    const byLabel = Object.fromEntries(cat.annotations.map(annotation => [annotation.propertyLabel, annotation]));
+
+    assert.deepEqual(Object.keys(byLabel).sort(), [
+        'dcterms:created', 'owl:deprecated', 'rdfs:comment', 'rdfs:seeAlso', 'review status', 'skos:definition'
+    ]);
+    assert.equal(byLabel['rdfs:comment'].language, 'en');
+    assert.equal(byLabel['skos:definition'].datatype, undefined);
+    assert.equal(byLabel['dcterms:created'].datatype, 'xsd:date');
+    assert.equal(byLabel['owl:deprecated'].value, 'true');
+    assert.equal(byLabel['rdfs:seeAlso'].isIri, true);
+    assert.equal(byLabel['review status'].property, 'http://example.org/zoo#reviewStatus');
+});
+
+test('OWLParser passes every triple on as a statement, once per triple', async () => {
+    const OWLParser = loadParser();
+    const content = `
+@prefix : <http://example.org/zoo#> .
+@prefix owl: <http://www.w3.org/2002/07/owl#> .
+@prefix rdfs: <http://www.w3.org/2000/01/rdf-schema#> .
+@prefix xsd: <http://www.w3.org/2001/XMLSchema#> .
+
+:Cat a owl:Class ; :legCount "4"^^xsd:integer ; rdfs:comment "Meows"@en ;
+    rdfs:subClassOf [ a owl:Restriction ; owl:onProperty :eats ; owl:someValuesFrom :Mouse ] .
+`;
+
+    const data = await new OWLParser().parse(content);
+    const aboutCat = data.statements.filter(statement => statement.subject.value === 'http://example.org/zoo#Cat');
+
+    assert.equal(data.statements.length, 7);
+    assert.equal(aboutCat.length, 4);
+    assert.deepEqual(aboutCat.find(statement => statement.predicate.value === 'http://example.org/zoo#legCount').object,
+        { value: '4', kind: 'literal', datatype: 'xsd:integer' });
+    assert.deepEqual(aboutCat.find(statement => statement.predicate.value.endsWith('#comment')).object,
+        { value: 'Meows', kind: 'literal', language: 'en' });
+
+    const restriction = aboutCat.find(statement => statement.predicate.value.endsWith('#subClassOf')).object;
+    assert.equal(restriction.kind, 'blank');
+    assert.ok(restriction.value.startsWith('_:'));
+    assert.equal(data.statements.filter(statement => statement.subject.value === restriction.value).length, 3);
+});
+
+test('OWLParser reports the position of syntax errors', async () => {
+    const { OntologyParseError } = require('../out/owlParser');
+    const OWLParser = loadParser();
+
+    const turtle = '@prefix : <http://example.org/zoo#> .\n:Lion :eats :Zebra .\n:Zebra :eats \n';
+    await assert.rejects(() => new OWLParser().parse(turtle), error => {
+        assert.ok(error instanceof OntologyParseError);
+        assert.match(error.message, /^Failed to parse OWL file: /);
+        assert.equal(error.line, 3);
+        assert.equal(error.character, undefined);
+        return true;
+    });
+
+    const rdfXml = '<?xml version="1.0"?>\n<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">\n  <rdf:Description>\n</rdf:RDF>';
+    await assert.rejects(() => new OWLParser().parse(rdfXml, { fileName: 'zoo.rdf' }), error => {
+        assert.equal(error.line, 3);
+        assert.equal(typeof error.character, 'number');
+        return true;
+    });
+});
@@ -0,0 +1,76 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { loadModule } = require('./helpers');
+
+// Source positions are specific to each syntax; everything else must match
+function withoutSourcePositions(data) {
+    return { ...data, nodes: data.nodes.map(({ source, ...node }) => node) };
+}
+
+const turtleSource = `
+@prefix ex: <http://example.org/zoo#> .
+@prefix owl: <http://www.w3.org/2002/07/owl#> .
+@prefix rdfs: <http://www.w3.org/2000/01/rdf-schema#> .
+
+ex:Animal a owl:Class .
+ex:Lion a owl:Class ; rdfs:subClassOf ex:Animal .
+`;
+
+test('detectFormat prefers the file extension and sniffs ambiguous content', () => {
+    const { detectFormat } = loadModule('rdfFormat');
+
+    assert.equal(detectFormat('', 'data/zoo.nq'), 'nquads');
+    assert.equal(detectFormat('', 'data/zoo.NT'), 'ntriples');
+    assert.equal(detectFormat('', 'data/zoo.trig'), 'trig');
+    assert.equal(detectFormat('', 'data/zoo.jsonld'), 'jsonld');
+    assert.equal(detectFormat('<?xml version="1.0"?><rdf:RDF/>', 'zoo.owl'), 'rdfxml');
+    assert.equal(detectFormat('Prefix(:=<http://example.org/>)\nOntology()', 'zoo.owl'), 'functional');
+    assert.equal(detectFormat('{ "@id": "http://example.org/x" }'), 'jsonld');
+    assert.equal(detectFormat(turtleSource, 'zoo.owl'), 'turtle');
+});
+
+test('OWLParser reads JSON-LD into the same ontology data as Turtle', async () => {
+    const { OWLParser } = loadModule('owlParser');
+    const jsonLdSource = JSON.stringify({
+        '@context': {
+            ex: 'http://example.org/zoo#',
+            owl: 'http://www.w3.org/2002/07/owl#',
+            rdfs: 'http://www.w3.org/2000/01/rdf-schema#',
+            subClassOf: { '@id': 'rdfs:subClassOf', '@type': '@id' }
+        },
+        '@graph': [
+            { '@id': 'ex:Animal', '@type': 'owl:Class' },
+            { '@id': 'ex:Lion', '@type': 'owl:Class', subClassOf: 'ex:Animal' }
+        ]
+    });
+
+    const fromTurtle = await new OWLParser().parse(turtleSource);
+    const fromJsonLd = await new OWLParser().parse(jsonLdSource, { fileName: 'zoo.jsonld' });
+
+    assert.deepEqual(withoutSourcePositions(fromJsonLd), withoutSourcePositions(fromTurtle));
+});
+
+test('OWLParser tracks the named graph of each node and edge in N-Quads', async () => {
+    const { OWLParser } = loadModule('owlParser');
+    const nquadsSource = [
+        '<http://example.org/zoo#Animal> <http://www.w3.org/1999/02/22-rdf-syntax-ns#type> <http://www.w3.org/2002/07/owl#Class> <http://example.org/graphs/core> .',
+        '<http://example.org/zoo#Lion> <http://www.w3.org/2000/01/rdf-schema#subClassOf> <http://example.org/zoo#Animal> <http://example.org/graphs/cats> .',
+        '<http://example.org/zoo#Bird> <http://www.w3.org/1999/02/22-rdf-syntax-ns#type> <http://www.w3.org/2002/07/owl#Class> .'
+    ].join('\n');
+
+    const data = await new OWLParser().parse(nquadsSource, { fileName: 'zoo.nq' });
+
+    assert.deepEqual(data.metadata.graphs, ['http://example.org/graphs/cats', 'http://example.org/graphs/core']);
+    assert.deepEqual(data.nodes.find(node => node.id === 'http://example.org/zoo#Animal').graphs, ['http://example.org/graphs/core']);
+    assert.equal(data.nodes.find(node => node.id === 'http://example.org/zoo#Bird').graphs, undefined);
+    assert.equal(data.edges.find(edge => edge.type === 'subClassOf').graph, 'http://example.org/graphs/cats');
+});
+
+test('OWLParser picks the N3 syntax from the file extension', async () => {
+    const { OWLParser } = loadModule('owlParser');
+    const trigSource = '<http://example.org/g> { <http://example.org/a> <http://example.org/p> <http://example.org/b> . }';
+
+    const data = await new OWLParser().parse(trigSource, { fileName: 'zoo.trig' });
+    assert.deepEqual(data.metadata.graphs, ['http://example.org/g']);
+    await assert.rejects(() => new OWLParser().parse(trigSource, { fileName: 'zoo.nt' }), /Failed to parse OWL file/);
+});
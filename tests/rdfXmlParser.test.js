@@ -0,0 +1,107 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { loadModule } = require('./helpers');
+
+function loadParser() {
+    return loadModule('owlParser').OWLParser;
+}
+
+// Source positions are specific to each syntax; everything else must match
+function withoutSourcePositions(data) {
+    return { ...data, nodes: data.nodes.map(({ source, ...node }) => node) };
+}
+
+const turtleSource = `
+@prefix ex: <http://example.org/zoo#> .
+@prefix owl: <http://www.w3.org/2002/07/owl#> .
+@prefix rdf: <http://www.w3.org/1999/02/22-rdf-syntax-ns#> .
+@prefix rdfs: <http://www.w3.org/2000/01/rdf-schema#> .
+
+<http://example.org/zoo> a owl:Ontology .
+
+ex:Animal a owl:Class ;
+    rdfs:label "Animal" .
+
+ex:Lion a owl:Class ;
+    rdfs:label "Lion" ;
+    rdfs:subClassOf ex:Animal .
+
+ex:Enclosure a owl:Class .
+
+ex:livesIn a owl:ObjectProperty ;
+    rdfs:domain ex:Animal ;
+    rdfs:range ex:Enclosure .
+
+ex:age a owl:DatatypeProperty ;
+    rdfs:domain ex:Animal .
+
+ex:Leo a ex:Lion , owl:NamedIndividual ;
+    rdfs:label "Leo" ;
+    ex:age 7 ;
+    ex:livesIn ex:Savannah .
+`;
+
+const rdfXmlSource = `<?xml version="1.0"?>
+<rdf:RDF xmlns:ex="http://example.org/zoo#"
+         xml:base="http://example.org/zoo"
+         xmlns:owl="http://www.w3.org/2002/07/owl#"
+         xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#"
+         xmlns:rdfs="http://www.w3.org/2000/01/rdf-schema#">
+    <owl:Ontology rdf:about="http://example.org/zoo"/>
+    <owl:Class rdf:about="#Animal">
+        <rdfs:label>Animal</rdfs:label>
+    </owl:Class>
+    <owl:Class rdf:about="#Lion">
+        <rdfs:label>Lion</rdfs:label>
+        <rdfs:subClassOf rdf:resource="#Animal"/>
+    </owl:Class>
+    <owl:Class rdf:about="#Enclosure"/>
+    <owl:ObjectProperty rdf:about="#livesIn">
+        <rdfs:domain rdf:resource="#Animal"/>
+        <rdfs:range rdf:resource="#Enclosure"/>
+    </owl:ObjectProperty>
+    <owl:DatatypeProperty rdf:about="#age">
+        <rdfs:domain rdf:resource="#Animal"/>
+    </owl:DatatypeProperty>
+    <owl:NamedIndividual rdf:about="#Leo">
+        <rdf:type rdf:resource="#Lion"/>
+        <rdfs:label>Leo</rdfs:label>
+        <ex:age rdf:datatype="http://www.w3.org/2001/XMLSchema#integer">7</ex:age>
+        <ex:livesIn rdf:resource="#Savannah"/>
+    </owl:NamedIndividual>
+</rdf:RDF>
+`;
+
+test('OWLParser produces the same ontology data for RDF/XML and Turtle', async () => {
+    const OWLParser = loadParser();
+
+    const fromTurtle = await new OWLParser().parse(turtleSource);
+    const fromRdfXml = await new OWLParser().parse(rdfXmlSource);
+
+    assert.equal(fromRdfXml.metadata.ontologyURI, 'http://example.org/zoo');
+    assert.ok(
+        fromRdfXml.edges.some(edge => edge.type === 'subClassOf' && edge.source === 'http://example.org/zoo#Lion' && edge.target === 'http://example.org/zoo#Animal'),
+        'Expected Lion to be a subclass of Animal'
+    );
+    assert.deepEqual(withoutSourcePositions(fromRdfXml), withoutSourcePositions(fromTurtle));
+});
+
+test('OWLParser resolves relative RDF/XML identifiers against the base IRI', async () => {
+    const OWLParser = loadParser();
+    const content = `<?xml version="1.0"?>
+<rdf:RDF xmlns:owl="http://www.w3.org/2002/07/owl#"
+         xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+    <owl:Class rdf:about="#Thing"/>
+</rdf:RDF>`;
+
+    const data = await new OWLParser().parse(content, { baseIRI: 'file:///ontologies/things.owl' });
+
+    assert.ok(data.nodes.some(node => node.id === 'file:///ontologies/things.owl#Thing' && node.label === 'Thing'));
+});
+
+test('OWLParser reports malformed RDF/XML', async () => {
+    const OWLParser = loadParser();
+    const content = '<?xml version="1.0"?><rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#"><rdf:Description></rdf:Resource></rdf:RDF>';
+
+    await assert.rejects(() => new OWLParser().parse(content), /Failed to parse OWL file/);
+});
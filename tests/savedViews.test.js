@@ -0,0 +1,72 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { loadModule } = require('./helpers');
+
+function createDirectory(t) {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), 'owl-views-'));
+    t.after(() => fs.rmSync(root, { recursive: true, force: true }));
+    return root;
+}
+
+function view(name, extra = {}) {
+    return {
+        name,
+        viewMode: 'ontology',
+        layout: 'dagre',
+        filters: { hiddenNodeTypes: [], hiddenEdgeTypes: [], shownNodeTypes: [], shownEdgeTypes: [], hiddenNamespaces: [] },
+        collapsed: [],
+        positions: {},
+        zoom: 1,
+        pan: { x: 0, y: 0 },
+        ...extra
+    };
+}
+
+test('saved views are stored per ontology in .owlviz/views.json next to it', t => {
+    const { deleteSavedView, loadSavedViews, savedViewsPath, storeSavedView } = loadModule('savedViews');
+    const root = createDirectory(t);
+    const pizza = path.join(root, 'pizza.ttl');
+    const wine = path.join(root, 'wine.owl');
+
+    assert.equal(savedViewsPath(pizza), path.join(root, '.owlviz', 'views.json'));
+    assert.deepEqual(loadSavedViews(pizza), []);
+
+    storeSavedView(pizza, view('Toppings', { filters: { hiddenNodeTypes: ['individual'], hiddenEdgeTypes: [], shownNodeTypes: [], shownEdgeTypes: [], hiddenNamespaces: [] } }));
+    storeSavedView(pizza, view('Bases'));
+    storeSavedView(wine, view('Regions'));
+    // Same name replaces the view in place
+    const views = storeSavedView(pizza, view('Toppings', { layout: 'circle', positions: { 'ex:Cheese': { x: 10, y: -20 } } }));
+
+    assert.deepEqual(views.map(saved => saved.name), ['Toppings', 'Bases']);
+    assert.equal(loadSavedViews(pizza)[0].layout, 'circle');
+    assert.deepEqual(loadSavedViews(pizza)[0].positions, { 'ex:Cheese': { x: 10, y: -20 } });
+    assert.deepEqual(loadSavedViews(wine).map(saved => saved.name), ['Regions']);
+
+    const file = JSON.parse(fs.readFileSync(savedViewsPath(pizza), 'utf8'));
+    assert.equal(file.version, 1);
+    assert.deepEqual(Object.keys(file.views), ['pizza.ttl', 'wine.owl']);
+
+    assert.deepEqual(deleteSavedView(pizza, 'Toppings').map(saved => saved.name), ['Bases']);
+    deleteSavedView(wine, 'Regions');
+    assert.deepEqual(Object.keys(JSON.parse(fs.readFileSync(savedViewsPath(pizza), 'utf8')).views), ['pizza.ttl']);
+});
+
+test('hand-edited views files are read leniently but never overwritten when broken', t => {
+    const { loadSavedViews, savedViewsPath, storeSavedView } = loadModule('savedViews');
+    const root = createDirectory(t);
+    const ontology = path.join(root, 'animals.ttl');
+    const fileName = savedViewsPath(ontology);
+    fs.mkdirSync(path.dirname(fileName), { recursive: true });
+
+    fs.writeFileSync(fileName, JSON.stringify({ views: { 'animals.ttl': [view('Mammals'), { layout: 'grid' }, null, view('  ')] } }));
+    assert.deepEqual(loadSavedViews(ontology).map(saved => saved.name), ['Mammals']);
+
+    const conflicted = '{ "views": {\n<<<<<<< HEAD\n';
+    fs.writeFileSync(fileName, conflicted);
+    assert.throws(() => loadSavedViews(ontology));
+    assert.throws(() => storeSavedView(ontology, view('Birds')));
+    assert.equal(fs.readFileSync(fileName, 'utf8'), conflicted);
+});
@@ -0,0 +1,69 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const path = require('path');
+const { loadModule } = require('./helpers');
+
+const zoo = localName => `http://example.org/zoo#${localName}`;
+
+const NODES = [
+    { id: zoo('Lion'), label: 'Lion', uri: zoo('Lion'), labels: { 'rdfs:label': { en: 'Lion', fr: 'Lion (fr)', de: 'Löwe' } } },
+    { id: zoo('SeaLion'), label: 'Sea lion', uri: zoo('SeaLion') },
+    { id: zoo('Lioness'), label: 'Lioness', uri: zoo('Lioness') },
+    { id: zoo('RedPanda'), label: 'Red panda', uri: zoo('RedPanda') },
+    {
+        id: zoo('Keeper'),
+        label: 'Keeper',
+        uri: zoo('Keeper'),
+        annotations: [
+            { property: 'http://www.w3.org/2000/01/rdf-schema#comment', propertyLabel: 'rdfs:comment', value: 'Feeds the lions every morning' },
+            { property: 'http://www.w3.org/2000/01/rdf-schema#seeAlso', propertyLabel: 'rdfs:seeAlso', value: 'http://example.org/lion-care', isIri: true }
+        ]
+    }
+];
+
+test('searchNodes ranks exact, prefix and word matches before matches in comments', () => {
+    const { buildSearchIndex, searchNodes } = loadModule('webview/search');
+    const results = searchNodes(buildSearchIndex(NODES), 'lion');
+
+    assert.deepEqual(results.map(result => result.id), [zoo('Lion'), zoo('Lioness'), zoo('SeaLion'), zoo('Keeper')]);
+    assert.equal(results[3].field, 'annotation');
+    assert.equal(results[3].text, 'Feeds the lions every morning');
+});
+
+test('searchNodes matches labels in any language without diacritics, and local names and IRIs', () => {
+    const { buildSearchIndex, searchNodes } = loadModule('webview/search');
+    const index = buildSearchIndex(NODES);
+
+    const german = searchNodes(index, 'lowe');
+    assert.deepEqual(german.map(result => result.id), [zoo('Lion')]);
+    assert.equal(german[0].text, 'Löwe');
+    assert.equal(searchNodes(index, 'RedPanda')[0].field, 'localName');
+    assert.deepEqual(searchNodes(index, 'example.org/zoo#Keep').map(result => result.id), [zoo('Keeper')]);
+    assert.deepEqual(searchNodes(index, '   '), []);
+});
+
+test('searchNodes accepts scattered letters in names but not in comments', () => {
+    const { buildSearchIndex, searchNodes, matchScore } = loadModule('webview/search');
+    const index = buildSearchIndex(NODES);
+
+    assert.deepEqual(searchNodes(index, 'rdpnd').map(result => result.id), [zoo('RedPanda')]);
+    assert.deepEqual(searchNodes(index, 'fdmrn'), []);
+    assert.ok(matchScore('redpanda', 'redpanda') > matchScore('redpan', 'redpanda'));
+    assert.ok(matchScore('pan', 'red panda') > matchScore('and', 'red panda'));
+    assert.ok(matchScore('and', 'red panda') > matchScore('rdp', 'red panda'));
+    // Letters too far apart are no match at all
+    assert.equal(matchScore('rn', 'red panda'), 0);
+});
+
+test('buildSearchIndex covers every node of a parsed ontology', async () => {
+    const { OWLParser } = loadModule('owlParser');
+    const { buildSearchIndex, searchNodes, localName } = loadModule('webview/search');
+    const data = await new OWLParser().parse(fs.readFileSync(path.join(__dirname, '..', 'sample.ttl'), 'utf8'));
+    const index = buildSearchIndex(data.nodes);
+
+    assert.equal(index.length, data.nodes.length);
+    assert.equal(searchNodes(index, 'buddy')[0].id, 'http://example.org/animals#Buddy');
+    assert.equal(localName('http://example.org/animals/'), 'animals');
+    assert.equal(localName('urn:isbn:123'), '123');
+});
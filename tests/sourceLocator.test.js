@@ -0,0 +1,101 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { loadModule } = require('./helpers');
+
+const PREFIXES = {
+    '': 'http://example.org/zoo#',
+    rdf: 'http://www.w3.org/1999/02/22-rdf-syntax-ns#',
+    owl: 'http://www.w3.org/2002/07/owl#'
+};
+const zoo = localName => `http://example.org/zoo#${localName}`;
+
+test('locateDefinitions prefers typed Turtle subjects and skips predicate lines', () => {
+    const { locateDefinitions } = loadModule('sourceLocator');
+    const content = `@prefix : <http://example.org/zoo#> .
+@prefix owl: <http://www.w3.org/2002/07/owl#> .
+
+:Lion :eats :Zebra ;
+    :eats :Gazelle .   # :Zebra is only an object here
+:eats a owl:ObjectProperty .
+<http://example.org/zoo#Lion>
+    a owl:Class .
+  :Lion rdf:type owl:Class .
+`;
+
+    const positions = locateDefinitions(content, 'turtle', PREFIXES);
+    assert.deepEqual(positions.get(zoo('eats')), { line: 5, character: 0 });
+    // The first subject occurrence loses to the later line that declares its type
+    assert.deepEqual(positions.get(zoo('Lion')), { line: 8, character: 2 });
+    assert.equal(positions.has(zoo('Zebra')), false);
+    assert.equal(positions.has(zoo('Gazelle')), false);
+});
+
+test('locateDefinitions finds RDF/XML, Functional and Manchester Syntax definitions', () => {
+    const { locateDefinitions } = loadModule('sourceLocator');
+
+    const rdfXml = `<?xml version="1.0"?>
+<!DOCTYPE rdf:RDF [ <!ENTITY zoo "http://example.org/zoo#" > ]>
+<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#" xmlns:owl="http://www.w3.org/2002/07/owl#">
+    <rdf:Description rdf:about="&zoo;Lion"/>
+    <owl:Class rdf:about="&zoo;Lion"/>
+    <owl:Class rdf:ID="Zebra"/>
+</rdf:RDF>`;
+    const xmlPositions = locateDefinitions(rdfXml, 'rdfxml', {}, 'http://example.org/zoo');
+    assert.deepEqual(xmlPositions.get(zoo('Lion')), { line: 4, character: 4 });
+    assert.deepEqual(xmlPositions.get(zoo('Zebra')), { line: 5, character: 4 });
+
+    const functional = `Prefix(:=<http://example.org/zoo#>)
+Ontology(<http://example.org/zoo>
+    SubClassOf(:Lion :Animal)
+    Declaration(Class(:Lion))
+)`;
+    const functionalPositions = locateDefinitions(functional, 'functional', PREFIXES);
+    assert.deepEqual(functionalPositions.get('http://example.org/zoo'), { line: 1, character: 0 });
+    assert.deepEqual(functionalPositions.get(zoo('Lion')), { line: 3, character: 4 });
+
+    const manchester = `Prefix: : <http://example.org/zoo#>
+Ontology: <http://example.org/zoo>
+
+Class: Lion
+    SubClassOf: Animal
+
+ObjectProperty: :eats`;
+    const manchesterPositions = locateDefinitions(manchester, 'manchester', PREFIXES);
+    assert.deepEqual(manchesterPositions.get(zoo('Lion')), { line: 3, character: 0 });
+    assert.deepEqual(manchesterPositions.get(zoo('eats')), { line: 6, character: 0 });
+    assert.equal(manchesterPositions.has(zoo('Animal')), false);
+});
+
+test('OWLParser attaches source positions to nodes', async () => {
+    const { OWLParser } = loadModule('owlParser');
+    const content = `@prefix : <http://example.org/zoo#> .
+@prefix owl: <http://www.w3.org/2002/07/owl#> .
+@prefix rdfs: <http://www.w3.org/2000/01/rdf-schema#> .
+
+:Animal a owl:Class .
+:Lion a owl:Class ;
+    rdfs:subClassOf :Animal .
+`;
+
+    const data = await new OWLParser().parse(content);
+    const node = id => data.nodes.find(candidate => candidate.id === id);
+    assert.deepEqual(node(zoo('Animal')).source, { line: 4, character: 0 });
+    assert.deepEqual(node(zoo('Lion')).source, { line: 5, character: 0 });
+});
+
+test('iriAtPosition resolves the IRI under the cursor', () => {
+    const { iriAtPosition } = loadModule('sourceLocator');
+
+    const turtle = ':Lion rdfs:subClassOf <http://example.org/zoo#Animal> .';
+    assert.equal(iriAtPosition(turtle, 2, PREFIXES), zoo('Lion'));
+    assert.equal(iriAtPosition(turtle, 5, PREFIXES), zoo('Lion'));
+    assert.equal(iriAtPosition(turtle, 30, PREFIXES), zoo('Animal'));
+    // rdfs is not among the known prefixes
+    assert.equal(iriAtPosition(turtle, 10, PREFIXES), undefined);
+
+    const rdfXml = '<owl:Class rdf:about="#Zebra"/>';
+    assert.equal(iriAtPosition(rdfXml, 25, PREFIXES, 'http://example.org/zoo'), zoo('Zebra'));
+
+    const manchester = 'Class: Lion';
+    assert.equal(iriAtPosition(manchester, 9, PREFIXES), zoo('Lion'));
+});
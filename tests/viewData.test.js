@@ -0,0 +1,202 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const path = require('path');
+const { loadModule } = require('./helpers');
+
+const samplePath = path.join(__dirname, '..', 'sample.ttl');
+const ex = localName => `http://example.org/animals#${localName}`;
+
+async function parseSample() {
+    const { OWLParser } = loadModule('owlParser');
+    return new OWLParser().parse(fs.readFileSync(samplePath, 'utf8'));
+}
+
+test('buildViewData drops literals from the ontology view and keeps only individuals in the instance view', async () => {
+    const { buildViewData, decoratedLabel } = loadModule('webview/viewData');
+    const data = await parseSample();
+
+    const ontology = buildViewData(data, 'ontology');
+    assert.ok(ontology.nodes.every(node => node.type !== 'literal'));
+    assert.ok(ontology.edges.some(edge => edge.type === 'subClassOf'));
+
+    const instance = buildViewData(data, 'instance');
+    assert.ok(instance.edges.every(edge => edge.type !== 'type' && edge.type !== 'subClassOf'));
+    // Class membership moves into the individual's label, looked up like any other label
+    const buddy = instance.nodes.find(node => node.id === ex('Buddy'));
+    assert.deepEqual(buddy.decorators.map(decorator => decorator.id), [ex('Dog')]);
+    assert.equal(decoratedLabel(buddy.label, buddy.decorators.map(decorator => decorator.label)), '<<Dog>>\nBuddy');
+    assert.equal(data.nodes.find(node => node.id === ex('Buddy')).label, 'Buddy');
+});
+
+test('buildViewData keeps only SKOS hierarchy nodes and edges in the taxonomy view', () => {
+    const { buildViewData } = loadModule('webview/viewData');
+    const data = {
+        nodes: [
+            { id: 'animals', label: 'Animals', type: 'skosConceptScheme' },
+            { id: 'mammal', label: 'Mammal', type: 'skosConcept' },
+            { id: 'dog', label: 'Dog', type: 'skosConcept' },
+            { id: 'Dog', label: 'Dog', type: 'class' }
+        ],
+        edges: [
+            { id: 'e1', source: 'dog', target: 'mammal', label: 'broader', type: 'skosBroader' },
+            { id: 'e2', source: 'dog', target: 'animals', label: 'inScheme', type: 'skosInScheme' },
+            { id: 'e3', source: 'dog', target: 'Dog', label: 'other', type: 'other' }
+        ]
+    };
+
+    const taxonomy = buildViewData(data, 'taxonomy');
+    assert.deepEqual(taxonomy.nodes.map(node => node.id), ['animals', 'mammal', 'dog']);
+    assert.deepEqual(taxonomy.edges.map(edge => edge.id), ['e1']);
+});
+
+test('filterByGraph and filterByOrigin scope the data before the view is built', () => {
+    const { filterByGraph, filterByOrigin, DEFAULT_GRAPH, LOCAL_ONLY } = loadModule('webview/viewData');
+    const data = {
+        nodes: [
+            { id: 'a', label: 'A', type: 'class' },
+            { id: 'b', label: 'B', type: 'class', graphs: ['http://example.org/g'] },
+            { id: 'c', label: 'C', type: 'class', importedFrom: 'http://example.org/core' }
+        ],
+        edges: [
+            { id: 'ab', source: 'a', target: 'b', label: 'subClassOf', type: 'subClassOf', graph: 'http://example.org/g' },
+            { id: 'ac', source: 'a', target: 'c', label: 'subClassOf', type: 'subClassOf' }
+        ],
+        metadata: {},
+        prefixes: {},
+        statements: []
+    };
+
+    assert.equal(filterByGraph(data, ''), data);
+    assert.deepEqual(filterByGraph(data, 'http://example.org/g').edges.map(edge => edge.id), ['ab']);
+    assert.deepEqual(filterByGraph(data, DEFAULT_GRAPH).nodes.map(node => node.id), ['a', 'c']);
+    assert.deepEqual(filterByOrigin(data, LOCAL_ONLY).nodes.map(node => node.id), ['a', 'b']);
+    assert.deepEqual(filterByOrigin(data, LOCAL_ONLY).edges.map(edge => edge.id), ['ab']);
+    assert.equal(filterByOrigin(data, 'http://example.org/other').nodes.length, 3);
+});
+
+test('instance view class decorators follow the selected label language', () => {
+    const { buildViewData, createElements, decoratedLabel } = loadModule('webview/viewData');
+    const { displayLabel } = loadModule('webview/labels');
+    const data = {
+        nodes: [
+            { id: 'Dog', uri: 'http://example.org/zoo#Dog', label: 'Dog', type: 'class', labels: { 'rdfs:label': { en: 'Dog', de: 'Hund' } } },
+            { id: 'Pet', uri: 'http://example.org/zoo#Pet', label: 'Pet', type: 'class', labels: { 'rdfs:label': { en: 'Pet', de: 'Haustier' } } },
+            { id: 'rex', uri: 'http://example.org/zoo#rex', label: 'Rex', type: 'individual', labels: { 'rdfs:label': { en: 'Rex', de: 'Rex (de)' } } }
+        ],
+        edges: [
+            { id: 'e1', source: 'rex', target: 'Dog', label: 'type', type: 'type' },
+            { id: 'e2', source: 'rex', target: 'Pet', label: 'type', type: 'type' }
+        ]
+    };
+    const options = language => ({
+        settings: { languages: ['en'], properties: ['rdfs:label'] },
+        prefixes: { zoo: 'http://example.org/zoo#' },
+        language,
+        showIris: false
+    });
+    const labelIn = (language, node) => decoratedLabel(
+        displayLabel(node.label, node.uri, node.labels, options(language)),
+        (node.decorators ?? []).map(decorator => displayLabel(decorator.label, decorator.uri, decorator.labels, options(language)))
+    );
+
+    const [element] = createElements(buildViewData(data, 'instance'), { displayLabel: node => labelIn('', node), originColors: new Map() });
+    assert.equal(element.data.label, '<<Dog, Pet>>\nRex');
+    assert.equal(labelIn('de', { ...element.data, label: element.data.defaultLabel }), '<<Haustier, Hund>>\nRex (de)');
+});
+
+test('createElements maps nodes and edges to Cytoscape element data', () => {
+    const { createElements } = loadModule('webview/viewData');
+    const elements = createElements({
+        nodes: [{ id: 'http://example.org/core#A', uri: 'http://example.org/core#A', label: 'A', type: 'class', importedFrom: 'http://example.org/core' }],
+        edges: [{ id: 'e', source: 'x', target: 'y', label: 'knows', type: 'propertyAssertion', bidirectional: true }]
+    }, {
+        displayLabel: node => node.label.toUpperCase() + '!',
+        originColors: new Map([['http://example.org/core', '#E17055']])
+    });
+
+    assert.equal(elements[0].data.label, 'A!');
+    assert.equal(elements[0].data.defaultLabel, 'A');
+    assert.equal(elements[0].data.originColor, '#E17055');
+    assert.equal(elements[1].data.bidirectional, 'true');
+});
+
+test('buildLayoutOptions grows taxonomies upwards and falls back to dagre without klay', () => {
+    const { buildLayoutOptions } = loadModule('webview/layouts');
+
+    assert.equal(buildLayoutOptions('dagre', 10, { viewMode: 'ontology', klayAvailable: true }).rankDir, 'TB');
+    assert.equal(buildLayoutOptions('dagre', 10, { viewMode: 'taxonomy', klayAvailable: true }).rankDir, 'BT');
+    assert.equal(buildLayoutOptions('klay', 10, { viewMode: 'taxonomy', klayAvailable: true }).klay.direction, 'UP');
+    assert.equal(buildLayoutOptions('klay', 10, { viewMode: 'ontology', klayAvailable: false }).name, 'dagre');
+    assert.equal(buildLayoutOptions('grid', 10, { viewMode: 'ontology', klayAvailable: true }).rows, 4);
+});
+
+test('buildViewData hides node types, relations and namespaces on top of a view mode', () => {
+    const { buildViewData, countFilterOptions, namespaceOf, NO_FILTERS } = loadModule('webview/viewData');
+    const data = {
+        nodes: [
+            { id: 'http://example.org/zoo#Lion', uri: 'http://example.org/zoo#Lion', label: 'Lion', type: 'class' },
+            { id: 'http://example.org/zoo#eats', uri: 'http://example.org/zoo#eats', label: 'eats', type: 'property' },
+            { id: 'http://www.w3.org/2002/07/owl#Thing', uri: 'http://www.w3.org/2002/07/owl#Thing', label: 'Thing', type: 'class' },
+            { id: '_:b0', label: 'eats some Meat', type: 'expression' }
+        ],
+        edges: [
+            { id: 'e1', source: 'http://example.org/zoo#Lion', target: 'http://www.w3.org/2002/07/owl#Thing', label: 'subClassOf', type: 'subClassOf' },
+            { id: 'e2', source: 'http://example.org/zoo#eats', target: 'http://example.org/zoo#Lion', label: 'domain', type: 'domain' },
+            { id: 'e3', source: 'http://example.org/zoo#Lion', target: '_:b0', label: 'subClassOf', type: 'subClassOf' }
+        ]
+    };
+
+    assert.equal(buildViewData(data, 'ontology', NO_FILTERS).nodes.length, 4);
+
+    const filtered = buildViewData(data, 'ontology', {
+        ...NO_FILTERS,
+        hiddenNodeTypes: ['property'],
+        hiddenNamespaces: ['http://www.w3.org/2002/07/owl#']
+    });
+    assert.deepEqual(filtered.nodes.map(node => node.label), ['Lion', 'eats some Meat']);
+    assert.deepEqual(filtered.edges.map(edge => edge.id), ['e3']);
+    assert.deepEqual(buildViewData(data, 'ontology', { ...NO_FILTERS, hiddenEdgeTypes: ['subClassOf'] }).edges.map(edge => edge.id), ['e2']);
+
+    assert.deepEqual(countFilterOptions(data), {
+        nodeTypes: { class: 2, property: 1, expression: 1 },
+        edgeTypes: { subClassOf: 2, domain: 1 },
+        namespaces: { 'http://example.org/zoo#': 2, 'http://www.w3.org/2002/07/owl#': 1 }
+    });
+    assert.equal(namespaceOf('http://purl.org/dc/terms/title'), 'http://purl.org/dc/terms/');
+    assert.equal(namespaceOf('urn:isbn:123'), 'urn:isbn:');
+});
+
+test('filters can turn on types that a view mode leaves out', () => {
+    const { buildViewData, setTypeShown, showsType, NO_FILTERS } = loadModule('webview/viewData');
+    const data = {
+        nodes: [
+            { id: 'ex:Lion', uri: 'ex:Lion', label: 'Lion', type: 'class' },
+            { id: 'ex:leo', uri: 'ex:leo', label: 'Leo', type: 'individual' },
+            { id: 'ex:nala', uri: 'ex:nala', label: 'Nala', type: 'individual' },
+            { id: 'literal:5', label: '5', type: 'literal' }
+        ],
+        edges: [
+            { id: 'e1', source: 'ex:leo', target: 'ex:nala', label: 'mateOf', type: 'propertyAssertion' },
+            { id: 'e2', source: 'ex:leo', target: 'literal:5', label: 'age', type: 'dataAssertion' }
+        ]
+    };
+
+    // The ontology view has no relations between individuals and no literals
+    assert.deepEqual(buildViewData(data, 'ontology').edges, []);
+    assert.equal(showsType('ontology', NO_FILTERS, 'edge', 'propertyAssertion'), false);
+
+    let filters = setTypeShown(NO_FILTERS, 'ontology', 'edge', 'propertyAssertion', true);
+    filters = setTypeShown(filters, 'ontology', 'node', 'literal', true);
+    filters = setTypeShown(filters, 'ontology', 'edge', 'dataAssertion', true);
+    assert.deepEqual(filters.shownEdgeTypes, ['propertyAssertion', 'dataAssertion']);
+    assert.deepEqual(filters.hiddenEdgeTypes, []);
+    const shown = buildViewData(data, 'ontology', filters);
+    assert.deepEqual(shown.edges.map(edge => edge.id), ['e1', 'e2']);
+    assert.ok(shown.nodes.some(node => node.type === 'literal'));
+
+    // Turning off a preset type hides it; turning it back on only clears the override
+    const hidden = setTypeShown(NO_FILTERS, 'ontology', 'node', 'class', false);
+    assert.deepEqual(hidden.hiddenNodeTypes, ['class']);
+    assert.deepEqual(setTypeShown(hidden, 'ontology', 'node', 'class', true), NO_FILTERS);
+});